@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "cartRemindersOptOut" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "CartReminder" (
+    "id" SERIAL NOT NULL,
+    "cartId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "lastActivityAt" TIMESTAMP(3) NOT NULL,
+    "itemCount" INTEGER NOT NULL,
+    "cartValue" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CartReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CartReminder_cartId_idx" ON "CartReminder"("cartId");
+
+-- CreateIndex
+CREATE INDEX "CartReminder_userId_idx" ON "CartReminder"("userId");
+
+-- CreateIndex
+CREATE INDEX "CartReminder_sentAt_idx" ON "CartReminder"("sentAt");
+
+-- CreateIndex
+CREATE INDEX "CartItem_updatedAt_idx" ON "CartItem"("updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "Cart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
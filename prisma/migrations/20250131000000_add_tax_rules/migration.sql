@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxInclusive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "taxName" TEXT,
+ADD COLUMN     "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxRule" (
+    "id" SERIAL NOT NULL,
+    "countryCode" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "isInclusive" BOOLEAN NOT NULL DEFAULT false,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRule_countryCode_effectiveFrom_idx" ON "TaxRule"("countryCode", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "TaxRule" ADD CONSTRAINT "TaxRule_countryCode_fkey" FOREIGN KEY ("countryCode") REFERENCES "Country"("code") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill existing orders with the flat 5% that was applied before tax rules existed
+UPDATE "OrderItem" SET "taxName" = 'VAT', "taxRate" = 0.05, "taxAmount" = "price" * "quantity" * 0.05;
+
+-- Default VAT rules for the countries we already sell in
+INSERT INTO "TaxRule" ("countryCode", "name", "rate", "isInclusive", "effectiveFrom", "updatedAt")
+SELECT c."code", r."name", r."rate", false, TIMESTAMP '2018-01-01 00:00:00', CURRENT_TIMESTAMP
+FROM "Country" c
+JOIN (VALUES
+    ('AE', 'VAT', 0.05),
+    ('SA', 'VAT', 0.15),
+    ('BH', 'VAT', 0.10),
+    ('OM', 'VAT', 0.05),
+    ('EG', 'VAT', 0.14),
+    ('JO', 'GST', 0.16),
+    ('LB', 'VAT', 0.11),
+    ('MA', 'VAT', 0.20)
+) AS r("code", "name", "rate") ON r."code" = c."code";
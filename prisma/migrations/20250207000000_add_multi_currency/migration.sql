@@ -0,0 +1,45 @@
+-- Prices were stored as whole units with no currency. Existing data is treated
+-- as USD and converted to minor units (cents).
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+UPDATE "Report" SET "price" = "price" * 100;
+
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+UPDATE "CartItem" SET "price" = "price" * 100;
+
+-- AlterTable
+ALTER TABLE "CartReminder" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+UPDATE "CartReminder" SET "cartValue" = "cartValue" * 100;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ALTER COLUMN "subtotal" SET DATA TYPE INTEGER USING ROUND("subtotal" * 100),
+ALTER COLUMN "tax" SET DATA TYPE INTEGER USING ROUND("tax" * 100),
+ALTER COLUMN "total" SET DATA TYPE INTEGER USING ROUND("total" * 100);
+ALTER TABLE "Order" ALTER COLUMN "currency" DROP DEFAULT;
+
+-- AlterTable
+UPDATE "OrderItem" SET "price" = "price" * 100;
+ALTER TABLE "OrderItem" ALTER COLUMN "taxAmount" SET DATA TYPE INTEGER USING ROUND("taxAmount" * 100);
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100),
+ALTER COLUMN "capturedAmount" SET DATA TYPE INTEGER USING ROUND("capturedAmount" * 100),
+ALTER COLUMN "refundedAmount" SET DATA TYPE INTEGER USING ROUND("refundedAmount" * 100);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" SERIAL NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_baseCurrency_quoteCurrency_key" ON "ExchangeRate"("baseCurrency", "quoteCurrency");
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "PricingRuleType" AS ENUM ('TIER', 'BUNDLE');
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "pricingDiscount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pricingRuleName" TEXT;
+
+-- CreateTable
+CREATE TABLE "PricingRule" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "PricingRuleType" NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "reportId" INTEGER,
+    "countryCode" TEXT,
+    "minQuantity" INTEGER,
+    "percentOff" DOUBLE PRECISION,
+    "reportIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "bundlePrice" INTEGER,
+    "currency" TEXT,
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PricingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PricingRule_type_isActive_idx" ON "PricingRule"("type", "isActive");
+
+-- CreateIndex
+CREATE INDEX "PricingRule_reportId_idx" ON "PricingRule"("reportId");
+
+-- AddForeignKey
+ALTER TABLE "PricingRule" ADD CONSTRAINT "PricingRule_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,104 @@
+-- CreateTable
+CREATE TABLE "SellerEntity" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "nameAr" TEXT,
+    "vatNumber" TEXT,
+    "crNumber" TEXT,
+    "address" TEXT NOT NULL,
+    "addressAr" TEXT,
+    "city" TEXT NOT NULL,
+    "postalCode" TEXT,
+    "countryCode" TEXT NOT NULL,
+    "email" TEXT,
+    "countryCodes" TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "invoicePrefix" TEXT NOT NULL,
+    "nextInvoiceNumber" INTEGER NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SellerEntity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" SERIAL NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "sellerEntityId" INTEGER NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "sellerName" TEXT NOT NULL,
+    "sellerNameAr" TEXT,
+    "sellerVatNumber" TEXT,
+    "sellerCrNumber" TEXT,
+    "sellerAddress" TEXT NOT NULL,
+    "sellerAddressAr" TEXT,
+    "sellerCity" TEXT NOT NULL,
+    "sellerPostalCode" TEXT,
+    "sellerCountryCode" TEXT NOT NULL,
+    "buyerName" TEXT NOT NULL,
+    "buyerEmail" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "subtotal" INTEGER NOT NULL,
+    "discount" INTEGER NOT NULL,
+    "tax" INTEGER NOT NULL,
+    "total" INTEGER NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceLine" (
+    "id" SERIAL NOT NULL,
+    "invoiceId" INTEGER NOT NULL,
+    "reportName" TEXT NOT NULL,
+    "companyNameEn" TEXT NOT NULL,
+    "companyNameAr" TEXT,
+    "countryCode" TEXT NOT NULL,
+    "language" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" INTEGER NOT NULL,
+    "discount" INTEGER NOT NULL,
+    "netAmount" INTEGER NOT NULL,
+    "taxName" TEXT,
+    "taxRate" DOUBLE PRECISION NOT NULL,
+    "taxAmount" INTEGER NOT NULL,
+    "total" INTEGER NOT NULL,
+
+    CONSTRAINT "InvoiceLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerEntity_invoicePrefix_key" ON "SellerEntity"("invoicePrefix");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_invoiceNumber_key" ON "Invoice"("invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_uuid_key" ON "Invoice"("uuid");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_orderId_key" ON "Invoice"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_issuedAt_idx" ON "Invoice"("issuedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_sellerEntityId_sequence_key" ON "Invoice"("sellerEntityId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_invoiceId_idx" ON "InvoiceLine"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_sellerEntityId_fkey" FOREIGN KEY ("sellerEntityId") REFERENCES "SellerEntity"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,90 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PARTIALLY_REFUNDED' BEFORE 'REFUNDED';
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "refundedAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "SellerEntity" ADD COLUMN     "nextCreditNoteNumber" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "CreditNote" (
+    "id" SERIAL NOT NULL,
+    "creditNoteNumber" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "sellerEntityId" INTEGER NOT NULL,
+    "invoiceId" INTEGER NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "paymentId" INTEGER,
+    "reason" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "netAmount" INTEGER NOT NULL,
+    "tax" INTEGER NOT NULL,
+    "total" INTEGER NOT NULL,
+    "createdById" INTEGER,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditNoteLine" (
+    "id" SERIAL NOT NULL,
+    "creditNoteId" INTEGER NOT NULL,
+    "orderItemId" INTEGER NOT NULL,
+    "reportName" TEXT NOT NULL,
+    "companyNameEn" TEXT NOT NULL,
+    "companyNameAr" TEXT,
+    "taxRate" DOUBLE PRECISION NOT NULL,
+    "netAmount" INTEGER NOT NULL,
+    "taxAmount" INTEGER NOT NULL,
+    "total" INTEGER NOT NULL,
+
+    CONSTRAINT "CreditNoteLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditNote_creditNoteNumber_key" ON "CreditNote"("creditNoteNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditNote_uuid_key" ON "CreditNote"("uuid");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_invoiceId_idx" ON "CreditNote"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_orderId_idx" ON "CreditNote"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_issuedAt_idx" ON "CreditNote"("issuedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditNote_sellerEntityId_sequence_key" ON "CreditNote"("sellerEntityId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "CreditNoteLine_creditNoteId_idx" ON "CreditNoteLine"("creditNoteId");
+
+-- CreateIndex
+CREATE INDEX "CreditNoteLine_orderItemId_idx" ON "CreditNoteLine"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_sellerEntityId_fkey" FOREIGN KEY ("sellerEntityId") REFERENCES "SellerEntity"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNoteLine" ADD CONSTRAINT "CreditNoteLine_creditNoteId_fkey" FOREIGN KEY ("creditNoteId") REFERENCES "CreditNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNoteLine" ADD CONSTRAINT "CreditNoteLine_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
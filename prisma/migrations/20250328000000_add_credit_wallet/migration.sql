@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "CreditEntryType" AS ENUM ('TOP_UP', 'DEBIT', 'REFUND', 'EXPIRY', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "CreditAccount" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "balance" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CreditAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditLedgerEntry" (
+    "id" SERIAL NOT NULL,
+    "accountId" INTEGER NOT NULL,
+    "type" "CreditEntryType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "sourceEntryId" INTEGER,
+    "orderId" INTEGER,
+    "creditNoteId" INTEGER,
+    "reason" TEXT,
+    "reference" TEXT,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditAccount_userId_currency_key" ON "CreditAccount"("userId", "currency");
+
+-- CreateIndex
+CREATE INDEX "CreditLedgerEntry_accountId_idx" ON "CreditLedgerEntry"("accountId");
+
+-- CreateIndex
+CREATE INDEX "CreditLedgerEntry_orderId_idx" ON "CreditLedgerEntry"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CreditLedgerEntry_type_expiresAt_idx" ON "CreditLedgerEntry"("type", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "CreditAccount" ADD CONSTRAINT "CreditAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditLedgerEntry" ADD CONSTRAINT "CreditLedgerEntry_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "CreditAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditLedgerEntry" ADD CONSTRAINT "CreditLedgerEntry_sourceEntryId_fkey" FOREIGN KEY ("sourceEntryId") REFERENCES "CreditLedgerEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditLedgerEntry" ADD CONSTRAINT "CreditLedgerEntry_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditLedgerEntry" ADD CONSTRAINT "CreditLedgerEntry_creditNoteId_fkey" FOREIGN KEY ("creditNoteId") REFERENCES "CreditNote"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditLedgerEntry" ADD CONSTRAINT "CreditLedgerEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Ledger entries are immutable: corrections are recorded as new entries
+CREATE FUNCTION "credit_ledger_entry_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'CreditLedgerEntry rows are immutable; record an ADJUSTMENT instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "CreditLedgerEntry_immutable"
+    BEFORE UPDATE OR DELETE ON "CreditLedgerEntry"
+    FOR EACH ROW EXECUTE FUNCTION "credit_ledger_entry_immutable"();
@@ -0,0 +1,85 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'STAFF' BEFORE 'ADMIN';
+
+-- CreateEnum
+CREATE TYPE "ReportRequestStatus" AS ENUM ('QUEUED', 'RESEARCHING', 'QA', 'DELIVERED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ReportRequest" (
+    "id" SERIAL NOT NULL,
+    "orderItemId" INTEGER NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "reportId" INTEGER,
+    "companyId" INTEGER,
+    "countryCode" TEXT NOT NULL,
+    "status" "ReportRequestStatus" NOT NULL DEFAULT 'QUEUED',
+    "assigneeId" INTEGER,
+    "researchStartedAt" TIMESTAMP(3),
+    "qaStartedAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReportRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReportRequestNote" (
+    "id" SERIAL NOT NULL,
+    "reportRequestId" INTEGER NOT NULL,
+    "authorId" INTEGER,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportRequestNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportRequest_orderItemId_key" ON "ReportRequest"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "ReportRequest_status_idx" ON "ReportRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "ReportRequest_countryCode_idx" ON "ReportRequest"("countryCode");
+
+-- CreateIndex
+CREATE INDEX "ReportRequest_reportId_idx" ON "ReportRequest"("reportId");
+
+-- CreateIndex
+CREATE INDEX "ReportRequest_assigneeId_idx" ON "ReportRequest"("assigneeId");
+
+-- CreateIndex
+CREATE INDEX "ReportRequest_orderId_idx" ON "ReportRequest"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ReportRequestNote_reportRequestId_idx" ON "ReportRequestNote"("reportRequestId");
+
+-- AddForeignKey
+ALTER TABLE "ReportRequest" ADD CONSTRAINT "ReportRequest_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportRequest" ADD CONSTRAINT "ReportRequest_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportRequest" ADD CONSTRAINT "ReportRequest_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportRequest" ADD CONSTRAINT "ReportRequest_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportRequest" ADD CONSTRAINT "ReportRequest_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportRequestNote" ADD CONSTRAINT "ReportRequestNote_reportRequestId_fkey" FOREIGN KEY ("reportRequestId") REFERENCES "ReportRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportRequestNote" ADD CONSTRAINT "ReportRequestNote_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: queue the lines of orders that are already paid
+INSERT INTO "ReportRequest" ("orderItemId", "orderId", "reportId", "companyId", "countryCode", "updatedAt")
+SELECT oi."id", oi."orderId", oi."reportId", oi."companyId", oi."countryCode", CURRENT_TIMESTAMP
+FROM "OrderItem" oi
+JOIN "Order" o ON o."id" = oi."orderId"
+WHERE o."status" IN ('PAID', 'PARTIALLY_REFUNDED');
@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "Country" ADD COLUMN     "weekendDays" INTEGER[] DEFAULT ARRAY[5, 6]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "turnaroundMinDays" INTEGER,
+ADD COLUMN     "turnaroundMaxDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "turnaroundMinDays" INTEGER,
+ADD COLUMN     "turnaroundMaxDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ReportRequest" ADD COLUMN     "dueAt" TIMESTAMP(3);
+
+-- Backfill: free-text turnarounds ("2-3 days", "5 days") become business
+-- days: the first number is the minimum and the last one the maximum
+UPDATE "Report"
+SET "turnaroundMinDays" = COALESCE(substring("turnaround" from '(\d+)')::INTEGER, 5),
+    "turnaroundMaxDays" = COALESCE(substring("turnaround" from '(\d+)\D*$')::INTEGER, substring("turnaround" from '(\d+)')::INTEGER, 5);
+
+UPDATE "OrderItem"
+SET "turnaroundMinDays" = COALESCE(substring("reportTurnaround" from '(\d+)')::INTEGER, 5),
+    "turnaroundMaxDays" = COALESCE(substring("reportTurnaround" from '(\d+)\D*$')::INTEGER, substring("reportTurnaround" from '(\d+)')::INTEGER, 5);
+
+UPDATE "Report" SET "turnaroundMaxDays" = "turnaroundMinDays" WHERE "turnaroundMaxDays" < "turnaroundMinDays";
+UPDATE "OrderItem" SET "turnaroundMaxDays" = "turnaroundMinDays" WHERE "turnaroundMaxDays" < "turnaroundMinDays";
+
+-- Backfill: open requests are due after their line's maximum turnaround,
+-- approximated as 7 calendar days per 5 business days (holidays ignored)
+UPDATE "ReportRequest" r
+SET "dueAt" = r."createdAt" + make_interval(days => CEIL(oi."turnaroundMaxDays" * 7 / 5.0)::INTEGER)
+FROM "OrderItem" oi
+WHERE oi."id" = r."orderItemId";
+
+-- AlterTable
+ALTER TABLE "Report" DROP COLUMN "turnaround",
+ALTER COLUMN "turnaroundMinDays" SET NOT NULL,
+ALTER COLUMN "turnaroundMaxDays" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "OrderItem" DROP COLUMN "reportTurnaround",
+ALTER COLUMN "turnaroundMinDays" SET NOT NULL,
+ALTER COLUMN "turnaroundMaxDays" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ReportRequest" ALTER COLUMN "dueAt" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "PublicHoliday" (
+    "id" SERIAL NOT NULL,
+    "countryCode" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "nameAr" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PublicHoliday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PublicHoliday_countryCode_date_key" ON "PublicHoliday"("countryCode", "date");
+
+-- CreateIndex
+CREATE INDEX "ReportRequest_dueAt_idx" ON "ReportRequest"("dueAt");
+
+-- AddForeignKey
+ALTER TABLE "PublicHoliday" ADD CONSTRAINT "PublicHoliday_countryCode_fkey" FOREIGN KEY ("countryCode") REFERENCES "Country"("code") ON DELETE CASCADE ON UPDATE CASCADE;
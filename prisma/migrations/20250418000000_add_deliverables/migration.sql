@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "Deliverable" (
+    "id" SERIAL NOT NULL,
+    "orderItemId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "storageProvider" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "uploadedById" INTEGER,
+    "downloadCount" INTEGER NOT NULL DEFAULT 0,
+    "lastDownloadedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Deliverable_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Deliverable_storageKey_key" ON "Deliverable"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "Deliverable_orderItemId_idx" ON "Deliverable"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "Deliverable_userId_idx" ON "Deliverable"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Deliverable" ADD CONSTRAINT "Deliverable_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Deliverable" ADD CONSTRAINT "Deliverable_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Deliverable" ADD CONSTRAINT "Deliverable_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ReportLanguage" (
+    "id" SERIAL NOT NULL,
+    "reportId" INTEGER NOT NULL,
+    "language" TEXT NOT NULL,
+    "surcharge" INTEGER NOT NULL DEFAULT 0,
+    "extraDays" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReportLanguage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportLanguage_reportId_language_key" ON "ReportLanguage"("reportId", "language");
+
+-- AddForeignKey
+ALTER TABLE "ReportLanguage" ADD CONSTRAINT "ReportLanguage_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing reports are delivered in English at no extra cost
+INSERT INTO "ReportLanguage" ("reportId", "language", "updatedAt")
+SELECT "id", 'en', CURRENT_TIMESTAMP FROM "Report";
+
+-- Backfill: free-text cart languages become codes where they are recognisable
+UPDATE "CartItem"
+SET "language" = CASE
+    WHEN lower(trim("language")) IN ('en', 'english') THEN 'en'
+    WHEN lower(trim("language")) IN ('ar', 'arabic') THEN 'ar'
+    WHEN lower(trim("language")) IN ('fr', 'french') THEN 'fr'
+    ELSE "language"
+END
+WHERE "language" IS NOT NULL;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "ReportProduct" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "sections" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "turnaroundMinDays" INTEGER NOT NULL,
+    "turnaroundMaxDays" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sampleFileName" TEXT,
+    "sampleStorageProvider" TEXT,
+    "sampleStorageKey" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReportProduct_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "productId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportProduct_name_key" ON "ReportProduct"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportProduct_sampleStorageKey_key" ON "ReportProduct"("sampleStorageKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Report_productId_countryCode_key" ON "Report"("productId", "countryCode");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_productId_fkey" FOREIGN KEY ("productId") REFERENCES "ReportProduct"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: reports sharing a name become offerings of one product, which
+-- takes its description and turnaround from the oldest of them
+INSERT INTO "ReportProduct" ("name", "description", "turnaroundMinDays", "turnaroundMaxDays", "updatedAt")
+SELECT DISTINCT ON ("name") "name", "description", "turnaroundMinDays", "turnaroundMaxDays", CURRENT_TIMESTAMP
+FROM "Report"
+ORDER BY "name", "id";
+
+-- Backfill: link the oldest report per product and country; any others stay
+-- standalone reports
+UPDATE "Report" r
+SET "productId" = p."id"
+FROM "ReportProduct" p
+WHERE p."name" = r."name"
+  AND r."id" = (
+    SELECT min("id") FROM "Report"
+    WHERE "name" = r."name" AND "countryCode" = r."countryCode"
+  );
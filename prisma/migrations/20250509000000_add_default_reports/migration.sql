@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "isDefault" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Report_countryCode_isDefault_idx" ON "Report"("countryCode", "isDefault");
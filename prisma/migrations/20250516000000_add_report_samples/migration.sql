@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "tableOfContents" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "ReportSamplePage" (
+    "id" SERIAL NOT NULL,
+    "reportId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "storageProvider" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportSamplePage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportSamplePage_storageKey_key" ON "ReportSamplePage"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "ReportSamplePage_reportId_position_idx" ON "ReportSamplePage"("reportId", "position");
+
+-- AddForeignKey
+ALTER TABLE "ReportSamplePage" ADD CONSTRAINT "ReportSamplePage_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
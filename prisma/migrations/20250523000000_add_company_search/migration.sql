@@ -0,0 +1,37 @@
+-- pg_trgm provides similarity() and the trigram indexes used by search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN "nameArNormalized" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "nameEnNormalized" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE INDEX "Company_nameEnNormalized_idx" ON "Company" USING GIN ("nameEnNormalized" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Company_nameArNormalized_idx" ON "Company" USING GIN ("nameArNormalized" gin_trgm_ops);
+
+-- Backfill: the main rules of normalizeCompanyName (src/utils/arabic.ts):
+-- lower case, no diacritics or tatweel, alef/hamza/taa marbuta/alef maqsura
+-- variants folded, punctuation as spaces and the "ال" article removed.
+-- POST /api/admin/companies/search-index/rebuild applies the full rules.
+CREATE FUNCTION "pg_temp"."normalize_company_name"(name TEXT) RETURNS TEXT AS $$
+    SELECT trim(regexp_replace(
+        regexp_replace(
+            ' ' || regexp_replace(
+                translate(
+                    regexp_replace(lower(coalesce(name, '')), '[\u0610-\u061a\u064b-\u065f\u0670\u0640]', '', 'g'),
+                    'أإآٱةىؤئء',
+                    'ااااهيوي'
+                ),
+                '[^0-9a-z\u0621-\u064a]+', ' ', 'g'
+            ) || ' ',
+            ' (ال|وال|بال|فال|كال|لل)(\S{3,})', ' \2', 'g'
+        ),
+        ' +', ' ', 'g'
+    ))
+$$ LANGUAGE SQL IMMUTABLE;
+
+UPDATE "Company"
+SET "nameEnNormalized" = "pg_temp"."normalize_company_name"("nameEn"),
+    "nameArNormalized" = "pg_temp"."normalize_company_name"("nameAr");
@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "Company_industry_idx" ON "Company"("industry");
+
+-- CreateIndex
+CREATE INDEX "Company_city_idx" ON "Company"("city");
+
+-- CreateIndex
+CREATE INDEX "Company_services_idx" ON "Company" USING GIN ("services");
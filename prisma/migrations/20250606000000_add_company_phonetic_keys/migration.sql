@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN "namePhonetic" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE INDEX "Company_namePhonetic_idx" ON "Company" USING GIN ("namePhonetic" gin_trgm_ops);
+
+-- Phonetic keys are computed in the application: run
+-- POST /api/admin/companies/search-index/rebuild after deploying. Until then
+-- search matches names by spelling only.
@@ -0,0 +1,11 @@
+-- Prefix indexes for company name suggestions: LIKE 'abc%' can only use a
+-- b-tree index with text_pattern_ops (the database collation isn't C)
+
+-- CreateIndex
+CREATE INDEX "Company_nameEnNormalized_prefix_idx" ON "Company"("nameEnNormalized" text_pattern_ops);
+
+-- CreateIndex
+CREATE INDEX "Company_nameArNormalized_prefix_idx" ON "Company"("nameArNormalized" text_pattern_ops);
+
+-- CreateIndex
+CREATE INDEX "Company_registrationNumber_prefix_idx" ON "Company"("registrationNumber" text_pattern_ops);
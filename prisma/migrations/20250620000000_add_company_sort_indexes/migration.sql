@@ -0,0 +1,10 @@
+-- Search sort keys with the ID tie-breaker, for cursor pagination
+
+-- CreateIndex
+CREATE INDEX "Company_nameEn_id_idx" ON "Company"("nameEn", "id");
+
+-- CreateIndex
+CREATE INDEX "Company_createdAt_id_idx" ON "Company"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Company_updatedAt_id_idx" ON "Company"("updatedAt", "id");
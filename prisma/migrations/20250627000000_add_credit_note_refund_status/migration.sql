@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "CreditNoteRefundStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "CreditNote" ADD COLUMN     "providerRefundId" TEXT,
+ADD COLUMN     "refundStatus" "CreditNoteRefundStatus";
+
+-- Credit notes issued so far were refunded before they were recorded
+UPDATE "CreditNote" SET "refundStatus" = 'SUCCEEDED' WHERE "paymentId" IS NOT NULL;
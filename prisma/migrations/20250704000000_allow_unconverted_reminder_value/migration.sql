@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CartReminder" ALTER COLUMN "cartValue" DROP NOT NULL;
@@ -2,6 +2,8 @@ import { PrismaClient } from "../generated/prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import "dotenv/config";
 import bcrypt from "bcryptjs";
+import { normalizeCompanyName } from "../src/utils/arabic";
+import { phoneticKey } from "../src/utils/transliteration";
 
 const SALT_ROUNDS = 10;
 
@@ -26,8 +28,28 @@ async function main() {
 
   // Clear existing data (in reverse order of dependencies)
   console.log("🧹 Cleaning existing data...");
+  try {
+    // Ledger entries can't be deleted row by row (immutability trigger)
+    await prisma.$executeRaw`TRUNCATE "CreditLedgerEntry", "CreditAccount"`;
+    await prisma.creditNote.deleteMany();
+    await prisma.payment.deleteMany();
+    await prisma.couponRedemption.deleteMany();
+    await prisma.invoice.deleteMany();
+    await prisma.sellerEntity.deleteMany();
+    await prisma.order.deleteMany();
+    await prisma.coupon.deleteMany();
+  } catch (e) {
+    // Table might not exist yet
+  }
+  try {
+    await prisma.exchangeRate.deleteMany();
+    await prisma.pricingRule.deleteMany();
+  } catch (e) {
+    // Table might not exist yet
+  }
   try {
     await prisma.report.deleteMany();
+    await prisma.reportProduct.deleteMany();
   } catch (e) {
     // Table might not exist yet
   }
@@ -58,6 +80,7 @@ async function main() {
         nameEn: "United Arab Emirates",
         nameAr: "الإمارات العربية المتحدة",
         isActive: true,
+        weekendDays: [6, 0], // Saturday/Sunday
       },
     }),
     prisma.country.create({
@@ -122,6 +145,7 @@ async function main() {
         nameEn: "Lebanon",
         nameAr: "لبنان",
         isActive: true,
+        weekendDays: [6, 0], // Saturday/Sunday
       },
     }),
     prisma.country.create({
@@ -130,12 +154,159 @@ async function main() {
         nameEn: "Morocco",
         nameAr: "المغرب",
         isActive: true,
+        weekendDays: [6, 0], // Saturday/Sunday
       },
     }),
   ]);
 
   console.log(`✅ Created ${countries.length} countries`);
 
+  // ============================================================================
+  // PUBLIC HOLIDAYS (business calendar for turnaround due dates)
+  // ============================================================================
+  console.log("📅 Creating public holidays...");
+  const publicHolidays = await prisma.publicHoliday.createMany({
+    data: [
+      {
+        countryCode: "AE",
+        date: new Date("2025-12-02"),
+        name: "National Day",
+        nameAr: "اليوم الوطني",
+      },
+      {
+        countryCode: "AE",
+        date: new Date("2025-12-03"),
+        name: "National Day",
+        nameAr: "اليوم الوطني",
+      },
+      {
+        countryCode: "SA",
+        date: new Date("2025-02-22"),
+        name: "Founding Day",
+        nameAr: "يوم التأسيس",
+      },
+      {
+        countryCode: "SA",
+        date: new Date("2025-09-23"),
+        name: "National Day",
+        nameAr: "اليوم الوطني",
+      },
+      {
+        countryCode: "QA",
+        date: new Date("2025-12-18"),
+        name: "National Day",
+        nameAr: "اليوم الوطني",
+      },
+      {
+        countryCode: "KW",
+        date: new Date("2025-02-25"),
+        name: "National Day",
+        nameAr: "العيد الوطني",
+      },
+      {
+        countryCode: "KW",
+        date: new Date("2025-02-26"),
+        name: "Liberation Day",
+        nameAr: "عيد التحرير",
+      },
+    ],
+  });
+
+  console.log(`✅ Created ${publicHolidays.count} public holidays`);
+
+  // ============================================================================
+  // TAX RULES
+  // ============================================================================
+  console.log("🧾 Creating tax rules...");
+  const taxRules = await Promise.all(
+    [
+      { countryCode: "AE", name: "VAT", rate: 0.05 },
+      { countryCode: "SA", name: "VAT", rate: 0.15 },
+      { countryCode: "BH", name: "VAT", rate: 0.1 },
+      { countryCode: "OM", name: "VAT", rate: 0.05 },
+      { countryCode: "EG", name: "VAT", rate: 0.14 },
+      { countryCode: "JO", name: "GST", rate: 0.16 },
+      { countryCode: "LB", name: "VAT", rate: 0.11 },
+      { countryCode: "MA", name: "VAT", rate: 0.2 },
+      // Qatar and Kuwait have no VAT
+    ].map((rule) =>
+      prisma.taxRule.create({
+        data: {
+          ...rule,
+          isInclusive: false,
+          effectiveFrom: new Date("2018-01-01T00:00:00Z"),
+        },
+      })
+    )
+  );
+
+  console.log(`✅ Created ${taxRules.length} tax rules`);
+
+  // ============================================================================
+  // EXCHANGE RATES (USD against each supported currency)
+  // ============================================================================
+  console.log("💱 Creating exchange rates...");
+  const exchangeRates = await Promise.all(
+    [
+      { quoteCurrency: "EUR", rate: 0.92 },
+      { quoteCurrency: "AED", rate: 3.6725 },
+      { quoteCurrency: "SAR", rate: 3.75 },
+      { quoteCurrency: "QAR", rate: 3.64 },
+      { quoteCurrency: "KWD", rate: 0.307 },
+      { quoteCurrency: "BHD", rate: 0.376 },
+      { quoteCurrency: "OMR", rate: 0.385 },
+      { quoteCurrency: "EGP", rate: 49 },
+      { quoteCurrency: "JOD", rate: 0.709 },
+      { quoteCurrency: "MAD", rate: 10 },
+      { quoteCurrency: "LBP", rate: 89500 },
+    ].map((rate) =>
+      prisma.exchangeRate.create({
+        data: { baseCurrency: "USD", ...rate },
+      })
+    )
+  );
+
+  console.log(`✅ Created ${exchangeRates.length} exchange rates`);
+
+  // ============================================================================
+  // SELLER ENTITIES (who issues the invoices)
+  // ============================================================================
+  console.log("🏛️ Creating seller entities...");
+  const sellerEntities = await Promise.all([
+    prisma.sellerEntity.create({
+      data: {
+        name: "MENA Business Data FZ-LLC",
+        nameAr: "مينا لبيانات الأعمال م.م.ح - ذ.م.م",
+        vatNumber: "100000000000003",
+        address: "Dubai Internet City, Building 1",
+        addressAr: "مدينة دبي للإنترنت، مبنى 1",
+        city: "Dubai",
+        countryCode: "AE",
+        email: "billing@menabusiness.com",
+        isDefault: true,
+        invoicePrefix: "INV-AE",
+      },
+    }),
+    prisma.sellerEntity.create({
+      data: {
+        name: "MENA Business Data Saudi LLC",
+        nameAr: "شركة مينا لبيانات الأعمال السعودية ذ.م.م",
+        vatNumber: "300000000000003",
+        crNumber: "1010000000",
+        address: "King Fahd Road, Olaya",
+        addressAr: "طريق الملك فهد، العليا",
+        city: "Riyadh",
+        postalCode: "12211",
+        countryCode: "SA",
+        email: "billing@menabusiness.com",
+        countryCodes: ["SA"],
+        invoicePrefix: "INV-SA",
+      },
+    }),
+  ]);
+
+  console.log(`✅ Created ${sellerEntities.length} seller entities`);
+
   // ============================================================================
   // COMPANIES (10 companies)
   // ============================================================================
@@ -361,6 +532,28 @@ async function main() {
     }),
   ]);
 
+  // Search forms of the names (see getCompanySearchFields)
+  await Promise.all(
+    companies.map((company) => {
+      const nameEnNormalized = normalizeCompanyName(company.nameEn);
+      const nameArNormalized = company.nameAr
+        ? normalizeCompanyName(company.nameAr)
+        : "";
+      const keys = `${phoneticKey(nameEnNormalized)} ${phoneticKey(nameArNormalized)}`;
+
+      return prisma.company.update({
+        where: { id: company.id },
+        data: {
+          nameEnNormalized,
+          nameArNormalized,
+          namePhonetic: Array.from(
+            new Set(keys.split(" ").filter(Boolean))
+          ).join(" "),
+        },
+      });
+    })
+  );
+
   console.log(`✅ Created ${companies.length} companies`);
 
   // ============================================================================
@@ -474,8 +667,16 @@ async function main() {
         description:
           "Detailed breakdown of all registered business activities and trade classifications.",
         isActive: true,
-        turnaround: "2-3 days",
-        price: 25,
+        tableOfContents: [
+          "Company Identification",
+          "Licensed Activities",
+          "ISIC Classification",
+          "Trade License History",
+        ],
+        turnaroundMinDays: 2,
+        turnaroundMaxDays: 3,
+        price: 9200,
+        currency: "AED",
         countryCode: "AE",
       },
     }),
@@ -485,8 +686,10 @@ async function main() {
         description:
           "Verified commercial address with full details including building and district information.",
         isActive: true,
-        turnaround: "1-2 days",
-        price: 15,
+        turnaroundMinDays: 1,
+        turnaroundMaxDays: 2,
+        price: 5500,
+        currency: "AED",
         countryCode: "AE",
       },
     }),
@@ -496,8 +699,10 @@ async function main() {
         description:
           "Complete capital structure including authorized and paid-up capital details.",
         isActive: true,
-        turnaround: "3-5 days",
-        price: 30,
+        turnaroundMinDays: 3,
+        turnaroundMaxDays: 5,
+        price: 11300,
+        currency: "SAR",
         countryCode: "SA",
       },
     }),
@@ -507,8 +712,10 @@ async function main() {
         description:
           "Full list of partners and shareholders with ownership percentages.",
         isActive: true,
-        turnaround: "5-7 days",
-        price: 45,
+        turnaroundMinDays: 5,
+        turnaroundMaxDays: 7,
+        price: 16400,
+        currency: "QAR",
         countryCode: "QA",
       },
     }),
@@ -518,8 +725,10 @@ async function main() {
         description:
           "Verified list of authorized signatories with their powers and limitations.",
         isActive: true,
-        turnaround: "4-6 days",
-        price: 35,
+        turnaroundMinDays: 4,
+        turnaroundMaxDays: 6,
+        price: 10750,
+        currency: "KWD",
         countryCode: "KW",
       },
     }),
@@ -529,8 +738,10 @@ async function main() {
         description:
           "Comprehensive media coverage analysis including news articles and press releases.",
         isActive: true,
-        turnaround: "7-10 days",
-        price: 50,
+        turnaroundMinDays: 7,
+        turnaroundMaxDays: 10,
+        price: 18850,
+        currency: "BHD",
         countryCode: "BH",
       },
     }),
@@ -540,8 +751,10 @@ async function main() {
         description:
           "Complete litigation history including court cases and judgments.",
         isActive: true,
-        turnaround: "7-10 days",
-        price: 60,
+        turnaroundMinDays: 7,
+        turnaroundMaxDays: 10,
+        price: 23100,
+        currency: "OMR",
         countryCode: "OM",
       },
     }),
@@ -551,8 +764,10 @@ async function main() {
         description:
           "Professional credit assessment with rating, score, and risk analysis.",
         isActive: true,
-        turnaround: "5-7 days",
-        price: 75,
+        turnaroundMinDays: 5,
+        turnaroundMaxDays: 7,
+        price: 367500,
+        currency: "EGP",
         countryCode: "EG",
       },
     }),
@@ -562,8 +777,10 @@ async function main() {
         description:
           "Detailed analysis of company financial statements and performance metrics.",
         isActive: true,
-        turnaround: "10-14 days",
-        price: 100,
+        turnaroundMinDays: 10,
+        turnaroundMaxDays: 14,
+        price: 70900,
+        currency: "JOD",
         countryCode: "JO",
       },
     }),
@@ -573,8 +790,11 @@ async function main() {
         description:
           "Official company registration certificate with all legal details.",
         isActive: true,
-        turnaround: "1-2 days",
-        price: 20,
+        isDefault: true,
+        turnaroundMinDays: 1,
+        turnaroundMaxDays: 2,
+        price: 7300,
+        currency: "AED",
         countryCode: "AE",
       },
     }),
@@ -582,15 +802,59 @@ async function main() {
 
   console.log(`✅ Created ${reports.length} reports`);
 
+  // Every report in English and Arabic; French translation costs 20% more
+  // and takes two extra business days
+  const reportLanguages = await prisma.reportLanguage.createMany({
+    data: reports.flatMap((report) => [
+      { reportId: report.id, language: "en" },
+      { reportId: report.id, language: "ar" },
+      {
+        reportId: report.id,
+        language: "fr",
+        surcharge: Math.round(report.price * 0.2),
+        extraDays: 2,
+      },
+    ]),
+  });
+
+  console.log(`✅ Created ${reportLanguages.count} report language options`);
+
+  // The credit report is a product offered in Egypt, ready to roll out to
+  // other countries
+  const creditReport = reports.find((r) => r.name === "Credit Rating & Score")!;
+  const reportProduct = await prisma.reportProduct.create({
+    data: {
+      name: creditReport.name,
+      description: creditReport.description,
+      sections: [
+        "Company Identification",
+        "Credit Rating",
+        "Credit Score",
+        "Payment Behaviour",
+        "Financial Highlights",
+        "Risk Analysis",
+      ],
+      turnaroundMinDays: creditReport.turnaroundMinDays,
+      turnaroundMaxDays: creditReport.turnaroundMaxDays,
+      reports: { connect: { id: creditReport.id } },
+    },
+  });
+
+  console.log(`✅ Created report product "${reportProduct.name}"`);
+
   // ============================================================================
   // SUMMARY
   // ============================================================================
   console.log("\n✅ Seed completed successfully!");
   console.log("\n📊 Summary:");
   console.log(`   - Countries: ${countries.length}`);
+  console.log(`   - Public holidays: ${publicHolidays.count}`);
   console.log(`   - Companies: ${companies.length}`);
   console.log(`   - Users: ${users.length}`);
   console.log(`   - Reports: ${reports.length}`);
+  console.log(`   - Tax rules: ${taxRules.length}`);
+  console.log(`   - Exchange rates: ${exchangeRates.length}`);
+  console.log(`   - Seller entities: ${sellerEntities.length}`);
   console.log("\n🔑 Test Credentials:");
   console.log("   Admin: admin@menabusiness.com / password123");
   console.log("   Verified User: verified@example.com / password123");
@@ -5,19 +5,63 @@ import {
   updateCartItem,
   removeFromCart,
   clearCart,
+  applyCouponToCart,
+  removeCouponFromCart,
+  repriceCart,
+  type CartOwner,
 } from "../services/cart.service";
+import { parseCurrency } from "../services/currency.service";
+import {
+  GUEST_CART_COOKIE,
+  GUEST_CART_MAX_AGE_DAYS,
+  generateGuestCartToken,
+  verifyGuestCartToken,
+} from "../services/guest-cart.service";
 
 /**
- * Get user's cart
- * Requires authentication
+ * Cart owner for the request: the logged-in user, or else the guest from the
+ * signed guest cart cookie (a new cookie is issued if it is missing or invalid)
+ */
+function getCartOwner(req: Request, res: Response): CartOwner {
+  if (req.user) {
+    return { userId: req.user.id };
+  }
+
+  const cookie = req.cookies?.[GUEST_CART_COOKIE];
+  const guestId = cookie ? verifyGuestCartToken(cookie) : null;
+
+  if (guestId) {
+    return { guestToken: guestId };
+  }
+
+  const { guestId: newGuestId, token } = generateGuestCartToken();
+  res.cookie(GUEST_CART_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: GUEST_CART_MAX_AGE_DAYS * 24 * 60 * 60 * 1000,
+    path: "/",
+    domain: process.env.COOKIE_DOMAIN || undefined,
+  });
+
+  return { guestToken: newGuestId };
+}
+
+/**
+ * Get the cart
+ * Works for guests (cookie) and authenticated users
  */
 export async function getCartHandler(req: Request, res: Response) {
   try {
-    if (!req.user) {
-      return res.status(401).json({ error: "Unauthorized" });
+    let currency: string | undefined;
+    if (req.query.currency) {
+      currency = parseCurrency(req.query.currency) || undefined;
+      if (!currency) {
+        return res.status(400).json({ msg: "Unsupported currency" });
+      }
     }
 
-    const cart = await getCart(req.user.id);
+    const cart = await getCart(getCartOwner(req, res), currency);
 
     res.json({
       success: true,
@@ -31,14 +75,10 @@ export async function getCartHandler(req: Request, res: Response) {
 
 /**
  * Add item to cart
- * Requires authentication
+ * Works for guests (cookie) and authenticated users
  */
 export async function addToCartHandler(req: Request, res: Response) {
   try {
-    if (!req.user) {
-      return res.status(401).json({ msg: "Unauthorized" });
-    }
-
     const { reportId, companyId, quantity, language } = req.body;
 
     if (!reportId || !companyId) {
@@ -47,11 +87,25 @@ export async function addToCartHandler(req: Request, res: Response) {
       });
     }
 
+    const quantityNum =
+      quantity === undefined || quantity === null
+        ? undefined
+        : Number(quantity);
+
+    if (
+      quantityNum !== undefined &&
+      (!Number.isInteger(quantityNum) || quantityNum <= 0)
+    ) {
+      return res
+        .status(400)
+        .json({ msg: "Quantity must be a positive integer" });
+    }
+
     const item = await addToCart({
-      userId: req.user.id,
+      owner: getCartOwner(req, res),
       reportId: parseInt(reportId),
       companyId: parseInt(companyId),
-      quantity: quantity ? parseInt(quantity) : undefined,
+      quantity: quantityNum,
       language,
     });
 
@@ -61,6 +115,13 @@ export async function addToCartHandler(req: Request, res: Response) {
     });
   } catch (error: any) {
     console.error("Add to cart error:", error);
+    if (
+      error.message?.startsWith("Unsupported language") ||
+      error.message?.startsWith("Report is not available in") ||
+      error.message === "Quantity must be a positive integer"
+    ) {
+      return res.status(400).json({ msg: error.message });
+    }
     res.status(500).json({
       msg: error.message || "Failed to add item to cart",
     });
@@ -69,14 +130,10 @@ export async function addToCartHandler(req: Request, res: Response) {
 
 /**
  * Update cart item quantity
- * Requires authentication
+ * Works for guests (cookie) and authenticated users
  */
 export async function updateCartItemHandler(req: Request, res: Response) {
   try {
-    if (!req.user) {
-      return res.status(401).json({ error: "Unauthorized" });
-    }
-
     const itemId = parseInt(req.params.itemId);
     const { quantity } = req.body;
 
@@ -84,11 +141,17 @@ export async function updateCartItemHandler(req: Request, res: Response) {
       return res.status(400).json({ error: "Invalid item ID" });
     }
 
-    if (!quantity || quantity <= 0) {
-      return res.status(400).json({ error: "Quantity must be greater than 0" });
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return res
+        .status(400)
+        .json({ error: "Quantity must be a positive integer" });
     }
 
-    const item = await updateCartItem(req.user.id, itemId, quantity);
+    const item = await updateCartItem(
+      getCartOwner(req, res),
+      itemId,
+      quantity
+    );
 
     res.json({
       success: true,
@@ -96,6 +159,9 @@ export async function updateCartItemHandler(req: Request, res: Response) {
     });
   } catch (error: any) {
     console.error("Update cart item error:", error);
+    if (error.message === "Quantity must be a positive integer") {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({
       msg: error.message || "Failed to update cart item",
     });
@@ -104,21 +170,17 @@ export async function updateCartItemHandler(req: Request, res: Response) {
 
 /**
  * Remove item from cart
- * Requires authentication
+ * Works for guests (cookie) and authenticated users
  */
 export async function removeFromCartHandler(req: Request, res: Response) {
   try {
-    if (!req.user) {
-      return res.status(401).json({ error: "Unauthorized" });
-    }
-
     const itemId = parseInt(req.params.itemId);
 
     if (isNaN(itemId)) {
       return res.status(400).json({ error: "Invalid item ID" });
     }
 
-    await removeFromCart(req.user.id, itemId);
+    await removeFromCart(getCartOwner(req, res), itemId);
 
     res.json({
       success: true,
@@ -134,15 +196,11 @@ export async function removeFromCartHandler(req: Request, res: Response) {
 
 /**
  * Clear cart
- * Requires authentication
+ * Works for guests (cookie) and authenticated users
  */
 export async function clearCartHandler(req: Request, res: Response) {
   try {
-    if (!req.user) {
-      return res.status(401).json({ error: "Unauthorized" });
-    }
-
-    await clearCart(req.user.id);
+    await clearCart(getCartOwner(req, res));
 
     res.json({
       success: true,
@@ -153,3 +211,80 @@ export async function clearCartHandler(req: Request, res: Response) {
     res.status(500).json({ error: "Failed to clear cart" });
   }
 }
+
+/**
+ * Apply a coupon code to the cart
+ * Requires authentication
+ */
+export async function applyCouponHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    const { code } = req.body;
+
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({ msg: "code is required" });
+    }
+
+    const cart = await applyCouponToCart(req.user.id, code);
+
+    res.json({
+      success: true,
+      data: cart,
+    });
+  } catch (error: any) {
+    console.error("Apply coupon error:", error);
+    if (error.message === "Coupon not found") {
+      return res.status(404).json({ msg: error.message });
+    }
+    if (
+      error.message === "Cart is empty" ||
+      error.message.startsWith("Coupon")
+    ) {
+      return res.status(400).json({ msg: error.message });
+    }
+    res.status(500).json({ msg: "Failed to apply coupon" });
+  }
+}
+
+/**
+ * Remove the coupon from the cart
+ * Requires authentication
+ */
+export async function removeCouponHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    const cart = await removeCouponFromCart(req.user.id);
+
+    res.json({
+      success: true,
+      data: cart,
+    });
+  } catch (error: any) {
+    console.error("Remove coupon error:", error);
+    res.status(500).json({ msg: "Failed to remove coupon" });
+  }
+}
+
+/**
+ * Accept current prices for the cart and drop items that can't be bought
+ * Works for guests (cookie) and authenticated users
+ */
+export async function repriceCartHandler(req: Request, res: Response) {
+  try {
+    const result = await repriceCart(getCartOwner(req, res));
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Reprice cart error:", error);
+    res.status(500).json({ msg: "Failed to reprice cart" });
+  }
+}
@@ -1,32 +1,166 @@
 import { Request, Response } from "express";
 import {
+  COMPANY_SEARCH_SORTS,
+  CompanySearchFilters,
+  CompanySearchSort,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
   searchCompanies,
+  suggestCompanies,
+  MAX_SUGGESTION_LIMIT,
   getCompanyPublicData,
   getCompanyReports,
 } from "../services/company.service";
+import { parseCurrency } from "../services/currency.service";
 import { prisma } from "../config/db";
 
+const LEGAL_FORMS = [
+  "PRIVATE_LIMITED_COMPANY",
+  "PUBLIC_LIMITED_COMPANY",
+  "PARTNERSHIP",
+  "CORPORATION",
+  "OTHER",
+];
+
+/**
+ * Read a multi-valued query parameter (?city=Dubai&city=Doha)
+ * With split, values may also be comma separated (?country=AE,SA); only for
+ * parameters whose values can't contain commas
+ */
+function queryList(value: unknown, split = false): string[] {
+  const values = (Array.isArray(value) ? value : [value]).filter(
+    (v): v is string => typeof v === "string"
+  );
+
+  return (split ? values.flatMap((v) => v.split(",")) : values)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read a year query parameter
+ * @returns undefined if absent, null if not a year
+ */
+function parseYear(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === "string" && /^\d{4}$/.test(value)
+    ? parseInt(value)
+    : null;
+}
+
+/**
+ * Read a non-negative whole number query parameter
+ * @returns undefined if absent, null if not a whole number
+ */
+function parseCount(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === "string" && /^\d{1,9}$/.test(value)
+    ? parseInt(value)
+    : null;
+}
+
 /**
  * Search companies
  * Public endpoint - no auth required
  */
 export async function searchCompaniesHandler(req: Request, res: Response) {
   try {
-    const { country, q, limit, offset } = req.query;
+    const {
+      q,
+      limit,
+      offset,
+      cursor,
+      sort,
+      order,
+      count,
+      foundedFrom,
+      foundedTo,
+      facets,
+    } = req.query;
 
-    const filters: any = {
-      limit: limit ? parseInt(limit as string) : 50,
-      offset: offset ? parseInt(offset as string) : 0,
+    if (q !== undefined && typeof q !== "string") {
+      return res.status(400).json({ error: "q must be a single value" });
+    }
+
+    const searchLimit = parseCount(limit);
+    const searchOffset = parseCount(offset);
+
+    if (searchLimit === null) {
+      return res.status(400).json({ error: "limit must be a whole number" });
+    }
+    if (searchOffset === null) {
+      return res
+        .status(400)
+        .json({ error: "offset must be a non-negative whole number" });
+    }
+
+    const filters: CompanySearchFilters = {
+      limit: Math.min(
+        Math.max(searchLimit ?? DEFAULT_SEARCH_LIMIT, 1),
+        MAX_SEARCH_LIMIT
+      ),
+      offset: searchOffset ?? 0,
+      countryCodes: queryList(req.query.country, true)
+        .filter((code) => code.length === 2)
+        .map((code) => code.toUpperCase()),
+      industries: queryList(req.query.industry),
+      cities: queryList(req.query.city),
+      legalForms: queryList(req.query.legalForm, true).map((form) =>
+        form.toUpperCase()
+      ),
+      sizes: queryList(req.query.size),
+      services: queryList(req.query.service),
+      facets: facets !== "false",
     };
 
-    if (country) {
-      if (typeof country === "string" && country.length === 2) {
-        filters.countryCode = country
-      }
+    if (!filters.legalForms!.every((form) => LEGAL_FORMS.includes(form))) {
+      return res.status(400).json({
+        error: `legalForm must be one of ${LEGAL_FORMS.join(", ")}`,
+      });
+    }
+
+    if (
+      sort !== undefined &&
+      !COMPANY_SEARCH_SORTS.includes(sort as CompanySearchSort)
+    ) {
+      return res.status(400).json({
+        error: `sort must be one of ${COMPANY_SEARCH_SORTS.join(", ")}`,
+      });
+    }
+    if (order !== undefined && order !== "asc" && order !== "desc") {
+      return res.status(400).json({ error: "order must be asc or desc" });
+    }
+    if (count !== undefined && count !== "exact" && count !== "estimated") {
+      return res
+        .status(400)
+        .json({ error: "count must be exact or estimated" });
+    }
+    if (cursor !== undefined && typeof cursor !== "string") {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+    if (cursor && searchOffset) {
+      return res
+        .status(400)
+        .json({ error: "Use either cursor or offset, not both" });
     }
+    filters.sort = sort as CompanySearchSort | undefined;
+    filters.order = order;
+    filters.count = count;
+    filters.cursor = cursor || undefined;
+
+    const foundedFromYear = parseYear(foundedFrom);
+    const foundedToYear = parseYear(foundedTo);
+
+    if (foundedFromYear === null || foundedToYear === null) {
+      return res
+        .status(400)
+        .json({ error: "foundedFrom and foundedTo must be years" });
+    }
+    filters.foundedFrom = foundedFromYear;
+    filters.foundedTo = foundedToYear;
 
     if (q) {
-      filters.query = q as string;
+      filters.query = q;
     }
 
     const result = await searchCompanies(filters);
@@ -36,17 +170,68 @@ export async function searchCompaniesHandler(req: Request, res: Response) {
       data: result.companies,
       pagination: {
         total: result.total,
+        totalIsEstimate: result.totalIsEstimate,
         limit: result.limit,
-        offset: result.offset,
-        hasMore: result.offset + result.companies.length < result.total,
+        // Only without a cursor
+        ...(result.offset !== null ? { offset: result.offset } : {}),
+        sort: result.sort,
+        order: result.order,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
       },
+      ...(result.facets ? { facets: result.facets } : {}),
     });
   } catch (error: any) {
+    if (error.message === "Invalid cursor") {
+      return res.status(400).json({ error: error.message });
+    }
+
     console.error("Search companies error:", error);
     res.status(500).json({ error: "Failed to search companies" });
   }
 }
 
+/**
+ * Suggest companies while a name or registration number is typed
+ * Public endpoint - no auth required
+ */
+export async function suggestCompaniesHandler(req: Request, res: Response) {
+  try {
+    const { q, limit, country } = req.query;
+
+    if (typeof q !== "string") {
+      return res.status(400).json({ error: "q is required" });
+    }
+
+    const suggestionLimit = parseCount(limit);
+    if (suggestionLimit === null) {
+      return res.status(400).json({ error: "limit must be a whole number" });
+    }
+
+    if (country !== undefined && (typeof country !== "string" || country.length !== 2)) {
+      return res.status(400).json({ error: "country must be a country code" });
+    }
+
+    const suggestions = await suggestCompanies(q, {
+      limit:
+        suggestionLimit !== undefined
+          ? Math.min(Math.max(suggestionLimit, 1), MAX_SUGGESTION_LIMIT)
+          : undefined,
+      countryCode: country,
+    });
+
+    // Same as the in-process cache: suggestions may be a minute stale
+    res.set("Cache-Control", "public, max-age=60");
+    res.json({
+      success: true,
+      data: suggestions,
+    });
+  } catch (error: any) {
+    console.error("Suggest companies error:", error);
+    res.status(500).json({ error: "Failed to suggest companies" });
+  }
+}
+
 /**
  * Get company public data
  * Public endpoint - no auth required
@@ -87,6 +272,14 @@ export async function getCompanyReportsHandler(req: Request, res: Response) {
       return res.status(400).json({ msg: "Invalid company ID" });
     }
 
+    let currency: string | undefined;
+    if (req.query.currency) {
+      currency = parseCurrency(req.query.currency) || undefined;
+      if (!currency) {
+        return res.status(400).json({ msg: "Unsupported currency" });
+      }
+    }
+
     // Get user verification status if authenticated
     let isUserVerified = false;
     if (req.user) {
@@ -97,7 +290,11 @@ export async function getCompanyReportsHandler(req: Request, res: Response) {
       isUserVerified = user?.isVerified || false;
     }
 
-    const reports = await getCompanyReports(companyId, isUserVerified);
+    const reports = await getCompanyReports(
+      companyId,
+      isUserVerified,
+      currency
+    );
 
     res.json({
       success: true,
@@ -105,6 +302,9 @@ export async function getCompanyReportsHandler(req: Request, res: Response) {
     });
   } catch (error: any) {
     console.error("Get company reports error:", error);
-    res.status(500).json({ error: error.message || "Failed to get reports" });
+    if (error.message?.startsWith("No exchange rate")) {
+      return res.status(400).json({ msg: error.message });
+    }
+    res.status(500).json({ error: "Failed to get reports" });
   }
 }
@@ -0,0 +1,72 @@
+import { Request, Response } from "express";
+import {
+  getCreditBalances,
+  getCreditLedger,
+} from "../services/credit.service";
+import { parseCurrency } from "../services/currency.service";
+
+/**
+ * Get the user's prepaid credit balance per currency
+ * Requires authentication
+ */
+export async function getCreditBalancesHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const balances = await getCreditBalances(req.user.id);
+
+    res.json({
+      success: true,
+      data: balances,
+    });
+  } catch (error: any) {
+    console.error("Get credit balances error:", error);
+    res.status(500).json({ msg: "Failed to get credit balance" });
+  }
+}
+
+/**
+ * Get the user's credit ledger, newest entries first
+ * Requires authentication
+ */
+export async function getCreditLedgerHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { page = "1", limit = "50", currency } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    let currencyCode: string | undefined;
+    if (currency) {
+      currencyCode = parseCurrency(currency) || undefined;
+      if (!currencyCode) {
+        return res.status(400).json({ msg: "Unsupported currency" });
+      }
+    }
+
+    const { entries, total } = await getCreditLedger(req.user.id, {
+      currency: currencyCode,
+      page: pageNum,
+      limit: limitNum,
+    });
+
+    res.json({
+      success: true,
+      data: entries,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Get credit ledger error:", error);
+    res.status(500).json({ msg: "Failed to get credit ledger" });
+  }
+}
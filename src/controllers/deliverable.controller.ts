@@ -0,0 +1,110 @@
+import { Request, Response } from "express";
+import {
+  DEFAULT_DELIVERABLES_LIMIT,
+  downloadDeliverable,
+  getUserDeliverables,
+  MAX_DELIVERABLES_LIMIT,
+} from "../services/deliverable.service";
+
+/**
+ * Read a non-negative whole number query parameter
+ * @returns undefined if absent, null if not a whole number
+ */
+function parseCount(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === "string" && /^\d{1,9}$/.test(value)
+    ? parseInt(value)
+    : null;
+}
+
+/**
+ * Get the finished report files the user bought, with signed download URLs
+ * Requires authentication
+ */
+export async function getMyDeliverablesHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const page = parseCount(req.query.page);
+    const limit = parseCount(req.query.limit);
+
+    if (page === null) {
+      return res.status(400).json({ error: "page must be a whole number" });
+    }
+    if (limit === null) {
+      return res.status(400).json({ error: "limit must be a whole number" });
+    }
+
+    const pageNum = Math.max(page ?? 1, 1);
+    const limitNum = Math.min(
+      Math.max(limit ?? DEFAULT_DELIVERABLES_LIMIT, 1),
+      MAX_DELIVERABLES_LIMIT
+    );
+
+    const { deliverables, total } = await getUserDeliverables(req.user.id, {
+      page: pageNum,
+      limit: limitNum,
+    });
+
+    res.json({
+      success: true,
+      data: deliverables,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Get deliverables error:", error);
+    res.status(500).json({ msg: "Failed to get deliverables" });
+  }
+}
+
+/**
+ * Download a deliverable through its signed URL
+ * The signature stands in for authentication, so the URL works as a plain link
+ */
+export async function downloadDeliverableHandler(req: Request, res: Response) {
+  try {
+    const id = parseInt(req.params.id);
+    const expires = parseInt(req.query.expires as string);
+    const signature = req.query.signature;
+
+    if (isNaN(expires) || typeof signature !== "string") {
+      return res.status(403).json({ msg: "Invalid download link" });
+    }
+
+    const { deliverable, body } = await downloadDeliverable(
+      id,
+      expires,
+      signature
+    );
+
+    res.setHeader("Content-Type", deliverable.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${encodeURIComponent(deliverable.fileName)}`
+    );
+    res.setHeader("Cache-Control", "private, no-store");
+    res.send(body);
+  } catch (error: any) {
+    console.error("Download deliverable error:", error);
+    if (
+      error.message === "Invalid download link" ||
+      error.message === "Download link has expired"
+    ) {
+      res.status(403).json({ msg: error.message });
+    } else if (
+      error.message === "Deliverable not found" ||
+      error.message === "Stored file not found"
+    ) {
+      res.status(404).json({ msg: "Deliverable not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to download deliverable" });
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { Request, Response } from "express";
+import {
+  getUserInvoices,
+  getUserInvoice,
+} from "../services/invoice.service";
+import { renderInvoicePdf } from "../services/invoice-pdf.service";
+import { renderInvoiceXml } from "../services/invoice-xml.service";
+import { getUserCreditNote } from "../services/refund.service";
+
+/**
+ * Get the user's invoices
+ * Requires authentication
+ */
+export async function getInvoicesHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const invoices = await getUserInvoices(req.user.id);
+
+    res.json({
+      success: true,
+      data: invoices,
+    });
+  } catch (error: any) {
+    console.error("Get invoices error:", error);
+    res.status(500).json({ msg: "Failed to get invoices" });
+  }
+}
+
+/**
+ * Get a single invoice by invoice number
+ * Requires authentication
+ */
+export async function getInvoiceHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const invoice = await getUserInvoice(req.user.id, req.params.invoiceNumber);
+
+    if (!invoice) {
+      return res.status(404).json({ msg: "Invoice not found" });
+    }
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  } catch (error: any) {
+    console.error("Get invoice error:", error);
+    res.status(500).json({ msg: "Failed to get invoice" });
+  }
+}
+
+/**
+ * Download an invoice as PDF
+ * Requires authentication
+ */
+export async function downloadInvoicePdfHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const invoice = await getUserInvoice(req.user.id, req.params.invoiceNumber);
+
+    if (!invoice) {
+      return res.status(404).json({ msg: "Invoice not found" });
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${invoice.invoiceNumber}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Download invoice PDF error:", error);
+    res.status(500).json({ msg: "Failed to download invoice" });
+  }
+}
+
+/**
+ * Download an invoice as UBL 2.1 e-invoice XML
+ * Requires authentication
+ */
+export async function downloadInvoiceXmlHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const invoice = await getUserInvoice(req.user.id, req.params.invoiceNumber);
+
+    if (!invoice) {
+      return res.status(404).json({ msg: "Invoice not found" });
+    }
+
+    res.setHeader("Content-Type", "application/xml; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${invoice.invoiceNumber}.xml"`
+    );
+    res.send(renderInvoiceXml(invoice));
+  } catch (error: any) {
+    console.error("Download invoice XML error:", error);
+    res.status(500).json({ msg: "Failed to download invoice" });
+  }
+}
+
+/**
+ * Download a credit note issued against one of the user's invoices as PDF
+ * Requires authentication
+ */
+export async function downloadCreditNotePdfHandler(
+  req: Request,
+  res: Response
+) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const creditNote = await getUserCreditNote(
+      req.user.id,
+      req.params.creditNoteNumber
+    );
+
+    if (!creditNote) {
+      return res.status(404).json({ msg: "Credit note not found" });
+    }
+
+    const pdf = await renderInvoicePdf(creditNote.invoice, creditNote);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${creditNote.creditNoteNumber}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Download credit note PDF error:", error);
+    res.status(500).json({ msg: "Failed to download credit note" });
+  }
+}
+
+/**
+ * Download a credit note as UBL 2.1 XML
+ * Requires authentication
+ */
+export async function downloadCreditNoteXmlHandler(
+  req: Request,
+  res: Response
+) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const creditNote = await getUserCreditNote(
+      req.user.id,
+      req.params.creditNoteNumber
+    );
+
+    if (!creditNote) {
+      return res.status(404).json({ msg: "Credit note not found" });
+    }
+
+    res.setHeader("Content-Type", "application/xml; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${creditNote.creditNoteNumber}.xml"`
+    );
+    res.send(renderInvoiceXml(creditNote.invoice, creditNote));
+  } catch (error: any) {
+    console.error("Download credit note XML error:", error);
+    res.status(500).json({ msg: "Failed to download credit note" });
+  }
+}
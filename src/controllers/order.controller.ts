@@ -0,0 +1,98 @@
+import { Request, Response } from "express";
+import {
+  checkoutCartWithCredits,
+  getUserOrders,
+  getUserOrder,
+} from "../services/order.service";
+import { parseCurrency } from "../services/currency.service";
+
+/**
+ * Checkout the user's cart and pay with prepaid credit
+ * Requires authentication and a verified account
+ */
+export async function creditCheckoutHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    let currency: string | undefined;
+    if (req.body?.currency) {
+      currency = parseCurrency(req.body.currency) || undefined;
+      if (!currency) {
+        return res.status(400).json({ msg: "Unsupported currency" });
+      }
+    }
+
+    const order = await checkoutCartWithCredits(req.user.id, currency);
+
+    res.status(201).json({
+      success: true,
+      data: order,
+    });
+  } catch (error: any) {
+    console.error("Credit checkout error:", error);
+    if (error.message.startsWith("Cart has items whose price")) {
+      return res.status(409).json({ msg: error.message });
+    }
+    if (
+      error.message === "Cart is empty" ||
+      error.message === "Insufficient credit balance" ||
+      error.message.startsWith("Cart contains items in multiple currencies") ||
+      error.message.startsWith("Cart has no items priced in") ||
+      error.message.startsWith("Reports from") ||
+      error.message.startsWith("Coupon")
+    ) {
+      return res.status(400).json({ msg: error.message });
+    }
+    res.status(500).json({ msg: "Failed to checkout" });
+  }
+}
+
+/**
+ * Get the user's orders
+ * Requires authentication
+ */
+export async function getOrdersHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const orders = await getUserOrders(req.user.id);
+
+    res.json({
+      success: true,
+      data: orders,
+    });
+  } catch (error: any) {
+    console.error("Get orders error:", error);
+    res.status(500).json({ msg: "Failed to get orders" });
+  }
+}
+
+/**
+ * Get a single order by order number
+ * Requires authentication
+ */
+export async function getOrderHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const order = await getUserOrder(req.user.id, req.params.orderNumber);
+
+    if (!order) {
+      return res.status(404).json({ msg: "Order not found" });
+    }
+
+    res.json({
+      success: true,
+      data: order,
+    });
+  } catch (error: any) {
+    console.error("Get order error:", error);
+    res.status(500).json({ msg: "Failed to get order" });
+  }
+}
@@ -0,0 +1,118 @@
+import { Request, Response } from "express";
+import {
+  createPaymentForCart,
+  handlePaymentWebhook,
+  simulateMockPayment,
+} from "../services/payment.service";
+import { getPaymentProvider } from "../services/payment-providers";
+import { parseCurrency } from "../services/currency.service";
+
+/**
+ * Create a payment intent for the user's cart
+ * Requires authentication and a verified account
+ */
+export async function createPaymentIntentHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    let currency: string | undefined;
+    if (req.body?.currency) {
+      currency = parseCurrency(req.body.currency) || undefined;
+      if (!currency) {
+        return res.status(400).json({ msg: "Unsupported currency" });
+      }
+    }
+
+    const intent = await createPaymentForCart(req.user.id, currency);
+
+    res.status(201).json({
+      success: true,
+      data: intent,
+    });
+  } catch (error: any) {
+    console.error("Create payment intent error:", error);
+    if (
+      error.message.startsWith("Cart has items whose price") ||
+      error.message === "A previous payment for this cart is being processed"
+    ) {
+      return res.status(409).json({ msg: error.message });
+    }
+    if (
+      error.message === "Cart is empty" ||
+      error.message.startsWith("Cart contains items in multiple currencies") ||
+      error.message.startsWith("Cart has no items priced in") ||
+      error.message.startsWith("Reports from") ||
+      error.message.startsWith("Coupon")
+    ) {
+      return res.status(400).json({ msg: error.message });
+    }
+    res.status(500).json({ msg: "Failed to create payment" });
+  }
+}
+
+/**
+ * Receive a webhook from a payment provider
+ * Public endpoint - authenticated by the provider's signature over the raw body
+ */
+export async function paymentWebhookHandler(req: Request, res: Response) {
+  let signature: string | undefined;
+
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    signature = req.get(provider.signatureHeader);
+  } catch (error: any) {
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ error: "Expected a raw request body" });
+  }
+
+  try {
+    const result = await handlePaymentWebhook(
+      req.params.provider,
+      req.body,
+      signature
+    );
+
+    res.json({ received: true, ...result });
+  } catch (error: any) {
+    console.error("Payment webhook error:", error);
+    if (
+      error.message === "Missing webhook signature" ||
+      error.message === "Invalid webhook signature"
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: "Failed to process webhook" });
+  }
+}
+
+/**
+ * Complete or fail a mock payment
+ * Development only - stands in for the user paying on the gateway's page
+ */
+export async function simulateMockPaymentHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    const outcome = req.body.outcome === "failed" ? "failed" : "succeeded";
+    const result = await simulateMockPayment(
+      req.user.id,
+      req.params.intentId,
+      outcome
+    );
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Simulate mock payment error:", error);
+    if (error.message === "Payment not found") {
+      return res.status(404).json({ msg: error.message });
+    }
+    res.status(500).json({ msg: error.message || "Failed to simulate payment" });
+  }
+}
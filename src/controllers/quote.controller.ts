@@ -0,0 +1,178 @@
+import { Request, Response } from "express";
+import {
+  createQuoteFromCart,
+  getUserQuotes,
+  getUserQuote,
+  acceptQuote,
+  cancelQuote,
+} from "../services/quote.service";
+import { generateQuoteWorkbook } from "../services/excel.service";
+
+/**
+ * Create a quote from the user's cart
+ * Requires authentication
+ */
+export async function createQuoteHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    const { name } = req.body;
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return res.status(400).json({ msg: "name is required" });
+    }
+
+    const quote = await createQuoteFromCart(req.user.id, name.trim());
+
+    res.status(201).json({
+      success: true,
+      data: quote,
+    });
+  } catch (error: any) {
+    console.error("Create quote error:", error);
+    if (error.message.startsWith("Cart has items whose price")) {
+      return res.status(409).json({ msg: error.message });
+    }
+    if (error.message === "Cart is empty") {
+      return res.status(400).json({ msg: error.message });
+    }
+    res.status(500).json({ msg: "Failed to create quote" });
+  }
+}
+
+/**
+ * Get the user's quotes
+ * Requires authentication
+ */
+export async function getQuotesHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const quotes = await getUserQuotes(req.user.id);
+
+    res.json({
+      success: true,
+      data: quotes,
+    });
+  } catch (error: any) {
+    console.error("Get quotes error:", error);
+    res.status(500).json({ msg: "Failed to get quotes" });
+  }
+}
+
+/**
+ * Get a single quote by quote number
+ * Requires authentication
+ */
+export async function getQuoteHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const quote = await getUserQuote(req.user.id, req.params.quoteNumber);
+
+    if (!quote) {
+      return res.status(404).json({ msg: "Quote not found" });
+    }
+
+    res.json({
+      success: true,
+      data: quote,
+    });
+  } catch (error: any) {
+    console.error("Get quote error:", error);
+    res.status(500).json({ msg: "Failed to get quote" });
+  }
+}
+
+/**
+ * Download a quote as an Excel file
+ * Requires authentication
+ */
+export async function downloadQuoteHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const quote = await getUserQuote(req.user.id, req.params.quoteNumber);
+
+    if (!quote) {
+      return res.status(404).json({ msg: "Quote not found" });
+    }
+
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${quote.quoteNumber}.xlsx"`
+    );
+    res.send(generateQuoteWorkbook(quote));
+  } catch (error: any) {
+    console.error("Download quote error:", error);
+    res.status(500).json({ msg: "Failed to download quote" });
+  }
+}
+
+/**
+ * Accept a quote: its items go into the cart at the quoted prices
+ * Requires authentication
+ */
+export async function acceptQuoteHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    const cart = await acceptQuote(req.user.id, req.params.quoteNumber);
+
+    res.json({
+      success: true,
+      data: cart,
+    });
+  } catch (error: any) {
+    console.error("Accept quote error:", error);
+    if (error.message === "Quote not found") {
+      return res.status(404).json({ msg: error.message });
+    }
+    if (error.message.startsWith("Quote is")) {
+      return res.status(409).json({ msg: error.message });
+    }
+    res.status(500).json({ msg: "Failed to accept quote" });
+  }
+}
+
+/**
+ * Cancel an open quote
+ * Requires authentication
+ */
+export async function cancelQuoteHandler(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ msg: "Unauthorized" });
+    }
+
+    const quote = await cancelQuote(req.user.id, req.params.quoteNumber);
+
+    res.json({
+      success: true,
+      data: quote,
+    });
+  } catch (error: any) {
+    console.error("Cancel quote error:", error);
+    if (error.message === "Quote not found") {
+      return res.status(404).json({ msg: error.message });
+    }
+    if (error.message.startsWith("Quote is")) {
+      return res.status(409).json({ msg: error.message });
+    }
+    res.status(500).json({ msg: "Failed to cancel quote" });
+  }
+}
@@ -0,0 +1,37 @@
+import { Request, Response } from "express";
+import { getReportSamplePdf } from "../services/report-sample.service";
+
+/**
+ * Get the watermarked sample of a report (table of contents and redacted
+ * pages)
+ * Public: lets prospects see what a report contains before they can buy
+ */
+export async function getReportSampleHandler(req: Request, res: Response) {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ msg: "Invalid report ID" });
+    }
+
+    const { report, body } = await getReportSamplePdf(id);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename*=UTF-8''${encodeURIComponent(`${report.name} - Sample.pdf`)}`
+    );
+    res.setHeader("Cache-Control", "public, max-age=300");
+    res.send(body);
+  } catch (error: any) {
+    console.error("Get report sample error:", error);
+    if (
+      error.message === "Report not found" ||
+      error.message === "Report has no sample"
+    ) {
+      res.status(404).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to get report sample" });
+    }
+  }
+}
@@ -6,13 +6,45 @@ import { connectDb, disconnectDb } from "./config/db";
 import companyRoutes from "./routes/company.routes";
 import countryRoutes from "./routes/country.routes";
 import cartRoutes from "./routes/cart.routes";
+import orderRoutes from "./routes/order.routes";
+import quoteRoutes from "./routes/quote.routes";
+import invoiceRoutes from "./routes/invoice.routes";
+import creditRoutes from "./routes/credit.routes";
+import meRoutes from "./routes/me.routes";
+import reportRoutes from "./routes/report.routes";
+import cartReminderRoutes from "./routes/cart-reminder.routes";
+import paymentRoutes from "./routes/payment.routes";
 import userRoutes from "./routes/admin/user.routes";
 import authRoutes from "./routes/auth";
 import adminCompanyRoutes from "./routes/admin/company.routes";
 import adminCountryRoutes from "./routes/admin/country.routes";
 import adminReportRoutes from "./routes/admin/report.routes";
+import adminOrderRoutes from "./routes/admin/order.routes";
+import adminAbandonedCartRoutes from "./routes/admin/abandoned-cart.routes";
+import adminPaymentRoutes from "./routes/admin/payment.routes";
+import adminTaxRuleRoutes from "./routes/admin/tax-rule.routes";
+import adminPublicHolidayRoutes from "./routes/admin/public-holiday.routes";
+import adminExchangeRateRoutes from "./routes/admin/exchange-rate.routes";
+import adminCouponRoutes from "./routes/admin/coupon.routes";
+import adminPricingRuleRoutes from "./routes/admin/pricing-rule.routes";
+import adminQuoteRoutes from "./routes/admin/quote.routes";
+import adminInvoiceRoutes from "./routes/admin/invoice.routes";
+import adminSellerEntityRoutes from "./routes/admin/seller-entity.routes";
+import adminRefundRoutes from "./routes/admin/refund.routes";
+import adminCreditRoutes from "./routes/admin/credit.routes";
+import adminReportRequestRoutes from "./routes/admin/report-request.routes";
+import adminDeliverableRoutes from "./routes/admin/deliverable.routes";
+import adminReportProductRoutes from "./routes/admin/report-product.routes";
 import { uploadExcelRoute } from "./routes/admin/upload.routes";
 import { securityHeaders } from "./middleware/security-headers";
+import {
+  startAbandonedCartJob,
+  stopAbandonedCartJob,
+} from "./jobs/abandoned-cart.job";
+import {
+  startCreditExpiryJob,
+  stopCreditExpiryJob,
+} from "./jobs/credit-expiry.job";
 
 connectDb();
 
@@ -45,6 +77,10 @@ app.use(
 // Security headers
 app.use(securityHeaders);
 
+// Payment webhooks are verified against the exact bytes sent by the provider,
+// so they get the raw body instead of parsed JSON
+app.use("/api/payments/webhook", express.raw({ type: "*/*", limit: "1mb" }));
+
 // Body parsing
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
@@ -55,10 +91,34 @@ app.use("/api/auth", authRoutes);
 app.use("/api/companies", companyRoutes);
 app.use("/api/countries", countryRoutes);
 app.use("/api/cart", cartRoutes);
+app.use("/api/orders", orderRoutes);
+app.use("/api/quotes", quoteRoutes);
+app.use("/api/invoices", invoiceRoutes);
+app.use("/api/credits", creditRoutes);
+app.use("/api/me", meRoutes);
+app.use("/api/reports", reportRoutes);
+app.use("/api/cart-reminders", cartReminderRoutes);
+app.use("/api/payments", paymentRoutes);
 app.use("/api/admin/users", userRoutes);
 app.use("/api/admin/companies", adminCompanyRoutes);
 app.use("/api/admin/countries", adminCountryRoutes);
 app.use("/api/admin/reports", adminReportRoutes);
+app.use("/api/admin/orders", adminOrderRoutes);
+app.use("/api/admin/abandoned-carts", adminAbandonedCartRoutes);
+app.use("/api/admin/payments", adminPaymentRoutes);
+app.use("/api/admin/tax-rules", adminTaxRuleRoutes);
+app.use("/api/admin/public-holidays", adminPublicHolidayRoutes);
+app.use("/api/admin/exchange-rates", adminExchangeRateRoutes);
+app.use("/api/admin/coupons", adminCouponRoutes);
+app.use("/api/admin/pricing-rules", adminPricingRuleRoutes);
+app.use("/api/admin/quotes", adminQuoteRoutes);
+app.use("/api/admin/invoices", adminInvoiceRoutes);
+app.use("/api/admin/seller-entities", adminSellerEntityRoutes);
+app.use("/api/admin/refunds", adminRefundRoutes);
+app.use("/api/admin/credits", adminCreditRoutes);
+app.use("/api/admin/report-requests", adminReportRequestRoutes);
+app.use("/api/admin/deliverables", adminDeliverableRoutes);
+app.use("/api/admin/report-products", adminReportProductRoutes);
 app.use("/api/admin", uploadExcelRoute);
 
 // Health check endpoint
@@ -71,6 +131,11 @@ const server = app.listen(PORT, () =>
   console.log(`
 🚀 Server ready at: http://localhost:${PORT}`)
 );
+
+// Background jobs
+startAbandonedCartJob();
+startCreditExpiryJob();
+
 // Handle unhandled promise rejections
 process.on("unhandledRejection", async (error) => {
   console.error("❌ Unhandled rejection", error);
@@ -89,6 +154,8 @@ process.on("uncaughtException", async (error) => {
 
 process.on("SIGTERM", async () => {
   console.log("❌ SIGTERM signal received");
+  stopAbandonedCartJob();
+  stopCreditExpiryJob();
   server.close(async () => {
     await disconnectDb();
     process.exit(0);
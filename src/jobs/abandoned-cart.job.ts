@@ -0,0 +1,57 @@
+import { sendAbandonedCartReminders } from "../services/abandoned-cart.service.js";
+import { deleteStaleGuestCarts } from "../services/guest-cart.service.js";
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function runOnce() {
+  // Skip this tick if the previous run is still sending emails
+  if (running) return;
+  running = true;
+
+  try {
+    const result = await sendAbandonedCartReminders();
+    if (result.found > 0) {
+      console.log("🛒 Abandoned cart reminders:", result);
+    }
+
+    const deleted = await deleteStaleGuestCarts();
+    if (deleted > 0) {
+      console.log(`🛒 Deleted ${deleted} expired guest carts`);
+    }
+  } catch (error) {
+    console.error("❌ Abandoned cart job failed", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the abandoned cart reminder job (also deletes expired guest carts)
+ * Disabled with ABANDONED_CART_JOB_ENABLED=false; interval via ABANDONED_CART_JOB_INTERVAL_MINUTES
+ */
+export function startAbandonedCartJob() {
+  if (process.env.ABANDONED_CART_JOB_ENABLED === "false" || timer) {
+    return;
+  }
+
+  const minutes =
+    parseFloat(process.env.ABANDONED_CART_JOB_INTERVAL_MINUTES || "") ||
+    DEFAULT_INTERVAL_MINUTES;
+
+  timer = setInterval(runOnce, minutes * 60 * 1000);
+  // Don't keep the process alive just for this job
+  timer.unref();
+}
+
+/**
+ * Stop the abandoned cart reminder job
+ */
+export function stopAbandonedCartJob() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,51 @@
+import { expireCredits } from "../services/credit.service.js";
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function runOnce() {
+  // Skip this tick if the previous run is still going
+  if (running) return;
+  running = true;
+
+  try {
+    const expired = await expireCredits();
+    if (expired > 0) {
+      console.log(`💳 Expired unused credit of ${expired} ledger entries`);
+    }
+  } catch (error) {
+    console.error("❌ Credit expiry job failed", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the job that writes off expired prepaid credit
+ * Disabled with CREDIT_EXPIRY_JOB_ENABLED=false; interval via CREDIT_EXPIRY_JOB_INTERVAL_MINUTES
+ */
+export function startCreditExpiryJob() {
+  if (process.env.CREDIT_EXPIRY_JOB_ENABLED === "false" || timer) {
+    return;
+  }
+
+  const minutes =
+    parseFloat(process.env.CREDIT_EXPIRY_JOB_INTERVAL_MINUTES || "") ||
+    DEFAULT_INTERVAL_MINUTES;
+
+  timer = setInterval(runOnce, minutes * 60 * 1000);
+  // Don't keep the process alive just for this job
+  timer.unref();
+}
+
+/**
+ * Stop the credit expiry job
+ */
+export function stopCreditExpiryJob() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -146,6 +146,24 @@ export async function optionalAuth(
   next();
 }
 
+/**
+ * Middleware for endpoints that also serve anonymous visitors (e.g. the guest cart)
+ * Requests without a token pass through with no user; a token that is sent must
+ * be valid, so an expired session gets a 401 (and refreshes) instead of silently
+ * being treated as a guest
+ */
+export async function authenticateIfPresent(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (!extractToken(req)) {
+    return next();
+  }
+
+  return authenticate(req, res, next);
+}
+
 /**
  * Middleware to ensure user is an admin
  * Must be used after authenticate middleware
@@ -201,6 +219,61 @@ export async function requireAdmin(
   }
 }
 
+/**
+ * Middleware to ensure user is staff (research team) or an admin
+ * Must be used after authenticate middleware
+ */
+export async function requireStaff(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        error: "Authentication required",
+        code: "NO_TOKEN",
+      });
+    }
+
+    // Check if user role is cached in req.user
+    if (req.user.role === "STAFF" || req.user.role === "ADMIN") {
+      return next();
+    }
+
+    // If role not cached, fetch from database
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      return res.status(401).json({
+        error: "User not found",
+        code: "USER_NOT_FOUND",
+      });
+    }
+
+    if (user.role !== "STAFF" && user.role !== "ADMIN") {
+      return res.status(403).json({
+        error: "Staff access required",
+        code: "INSUFFICIENT_PERMISSIONS",
+      });
+    }
+
+    // Cache role in req.user
+    req.user.role = user.role;
+
+    next();
+  } catch (error: any) {
+    console.error("Staff check error:", error);
+    return res.status(500).json({
+      error: "Failed to verify staff status",
+      code: "AUTH_ERROR",
+    });
+  }
+}
+
 /**
  * Middleware to check if user is verified
  * Must be used after authenticate middleware
@@ -115,3 +115,13 @@ export const resetPasswordRateLimit = rateLimit({
   max: 5, // 5 attempts per window
   message: "Too many password reset attempts. Please try again later.",
 });
+
+/**
+ * Rate limiter for company name suggestions (a request per keystroke)
+ */
+export const suggestRateLimit = rateLimit({
+  windowMs: 10 * 1000, // 10 seconds
+  max: 50, // 50 requests per 10 seconds per IP
+  keyGenerator: (req) => `suggest:${req.ip}`,
+  message: "Too many suggestion requests. Please slow down.",
+});
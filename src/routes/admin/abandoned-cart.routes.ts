@@ -0,0 +1,76 @@
+import { Router } from "express";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import {
+  findAbandonedCarts,
+  getAbandonedCartValueByCountry,
+  getIdleThresholdHours,
+  sendAbandonedCartReminders,
+} from "../../services/abandoned-cart.service";
+import { getDefaultCurrency } from "../../services/currency.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+function parseIdleHours(value: unknown): number {
+  const hours = parseFloat(value as string);
+  return hours > 0 ? hours : getIdleThresholdHours();
+}
+
+// GET /api/admin/abandoned-carts - List carts idle beyond the threshold
+router.get("/", async (req, res) => {
+  try {
+    const idleHours = parseIdleHours(req.query.idleHours);
+    const carts = await findAbandonedCarts(idleHours);
+
+    res.json({
+      success: true,
+      data: carts,
+      idleHours,
+    });
+  } catch (error: any) {
+    console.error("Error fetching abandoned carts:", error);
+    res.status(500).json({ msg: "Failed to fetch abandoned carts" });
+  }
+});
+
+// GET /api/admin/abandoned-carts/report - Abandoned cart value by country
+router.get("/report", async (req, res) => {
+  try {
+    const idleHours = parseIdleHours(req.query.idleHours);
+    const countries = await getAbandonedCartValueByCountry(idleHours);
+
+    res.json({
+      success: true,
+      data: countries,
+      totals: {
+        itemCount: countries.reduce((sum, c) => sum + c.itemCount, 0),
+        currency: getDefaultCurrency(),
+        value: countries.some((c) => c.value === null)
+          ? null
+          : countries.reduce((sum, c) => sum + c.value!, 0),
+      },
+      idleHours,
+    });
+  } catch (error: any) {
+    console.error("Error building abandoned cart report:", error);
+    res.status(500).json({ msg: "Failed to build abandoned cart report" });
+  }
+});
+
+// POST /api/admin/abandoned-carts/reminders - Send reminders now
+router.post("/reminders", async (req, res) => {
+  try {
+    const idleHours = parseIdleHours(req.body.idleHours);
+    const result = await sendAbandonedCartReminders(idleHours);
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Error sending abandoned cart reminders:", error);
+    res.status(500).json({ msg: "Failed to send abandoned cart reminders" });
+  }
+});
+
+export default router;
@@ -1,6 +1,16 @@
 import { Router } from "express";
 import { prisma } from "../../config/db";
 import { authenticate, requireAdmin } from "../../middleware/auth";
+import {
+  getCompanySearchFields,
+  rebuildCompanySearchIndex,
+} from "../../services/company.service";
+import {
+  CompanyFilter,
+  assignReportsToCompanies,
+  getNewCompanyReportIds,
+  unassignReportsFromCompanies,
+} from "../../services/report-assignment.service";
 
 const router = Router();
 
@@ -8,6 +18,69 @@ const router = Router();
 router.use(authenticate);
 router.use(requireAdmin);
 
+const LEGAL_FORMS = [
+  "PRIVATE_LIMITED_COMPANY",
+  "PUBLIC_LIMITED_COMPANY",
+  "PARTNERSHIP",
+  "CORPORATION",
+  "OTHER",
+];
+
+const REPORT_IDS_ERROR = "reportIds must be a non-empty array of report IDs";
+
+function isValidReportIds(reportIds: unknown): reportIds is number[] {
+  return (
+    Array.isArray(reportIds) &&
+    reportIds.length > 0 &&
+    reportIds.every((id) => Number.isInteger(id))
+  );
+}
+
+// A filter value can be a single string or an array of strings
+function toStringList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  const list = Array.isArray(value) ? value : [value];
+  return list.every((v) => typeof v === "string" && v.trim())
+    ? list.map((v: string) => v.trim())
+    : null;
+}
+
+/**
+ * Validate a bulk assignment filter
+ * @returns The filter, or an error message
+ */
+function parseCompanyFilter(value: any): CompanyFilter | string {
+  const countryCodes = toStringList(value?.countryCode);
+  const industries = toStringList(value?.industry);
+  const cities = toStringList(value?.city);
+  const legalForms = toStringList(value?.legalForm);
+
+  if (!countryCodes || !industries || !cities || !legalForms) {
+    return "filter values must be strings or arrays of strings";
+  }
+
+  if (!legalForms.every((form) => LEGAL_FORMS.includes(form))) {
+    return `legalForm must be one of ${LEGAL_FORMS.join(", ")}`;
+  }
+
+  // An empty filter would match every company
+  if (
+    !countryCodes.length &&
+    !industries.length &&
+    !cities.length &&
+    !legalForms.length
+  ) {
+    return "filter needs at least one of countryCode, industry, city, legalForm";
+  }
+
+  return {
+    countryCodes,
+    industries,
+    cities,
+    legalForms: legalForms as CompanyFilter["legalForms"],
+  };
+}
+
 // GET /api/admin/companies - Get all companies with pagination
 router.get("/", async (req, res) => {
   try {
@@ -78,6 +151,88 @@ router.get("/", async (req, res) => {
   }
 });
 
+// POST /api/admin/companies/reports/assign - Assign reports to every company
+// matching a filter
+// Body: { reportIds, filter: { countryCode?, industry?, city?, legalForm? },
+// dryRun? }; each filter value is a string or an array of strings
+router.post("/reports/assign", async (req, res) => {
+  try {
+    const { reportIds, filter, dryRun } = req.body;
+
+    if (!isValidReportIds(reportIds)) {
+      return res.status(400).json({ error: REPORT_IDS_ERROR });
+    }
+
+    const companyFilter = parseCompanyFilter(filter);
+
+    if (typeof companyFilter === "string") {
+      return res.status(400).json({ error: companyFilter });
+    }
+
+    const result = await assignReportsToCompanies(reportIds, companyFilter, {
+      dryRun: dryRun === true,
+    });
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Error assigning reports:", error);
+    if (error.message.startsWith("Reports not found")) {
+      res.status(404).json({ error: error.message });
+    } else if (error.message.startsWith("Reports for another country")) {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: "Failed to assign reports" });
+    }
+  }
+});
+
+// POST /api/admin/companies/reports/unassign - Unassign reports from every
+// company matching a filter
+// Body: same as /reports/assign
+router.post("/reports/unassign", async (req, res) => {
+  try {
+    const { reportIds, filter, dryRun } = req.body;
+
+    if (!isValidReportIds(reportIds)) {
+      return res.status(400).json({ error: REPORT_IDS_ERROR });
+    }
+
+    const companyFilter = parseCompanyFilter(filter);
+
+    if (typeof companyFilter === "string") {
+      return res.status(400).json({ error: companyFilter });
+    }
+
+    const result = await unassignReportsFromCompanies(
+      reportIds,
+      companyFilter,
+      { dryRun: dryRun === true }
+    );
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Error unassigning reports:", error);
+    if (error.message.startsWith("Reports not found")) {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: "Failed to unassign reports" });
+    }
+  }
+});
+
+// POST /api/admin/companies/search-index/rebuild - Recompute the normalised
+// names used by search, e.g. after the normalisation rules change
+router.post("/search-index/rebuild", async (req, res) => {
+  try {
+    const updated = await rebuildCompanySearchIndex();
+
+    res.json({ success: true, data: { updated } });
+  } catch (error: any) {
+    console.error("Error rebuilding company search index:", error);
+    res.status(500).json({ error: "Failed to rebuild search index" });
+  }
+});
+
 // GET /api/admin/companies/:id - Get a single company
 router.get("/:id", async (req, res) => {
   try {
@@ -149,10 +304,21 @@ router.post("/", async (req, res) => {
       return res.status(400).json({ error: "Invalid country code" });
     }
 
+    if (reportIds !== undefined && !isValidReportIds(reportIds)) {
+      return res.status(400).json({ error: REPORT_IDS_ERROR });
+    }
+
+    // The country's default reports, plus the ones picked
+    const companyReportIds = await getNewCompanyReportIds(
+      country.code,
+      reportIds
+    );
+
     const company = await prisma.company.create({
       data: {
         nameEn,
         nameAr: nameAr || null,
+        ...getCompanySearchFields(nameEn, nameAr || null),
         registrationNumber,
         legalForm: legalForm || "PRIVATE_LIMITED_COMPANY",
         industry,
@@ -166,12 +332,9 @@ router.post("/", async (req, res) => {
         website: website || null,
         description: description || null,
         services: services || [],
-        reports:
-          reportIds && reportIds.length > 0
-            ? {
-                connect: reportIds.map((id: number) => ({ id })),
-              }
-            : undefined,
+        reports: {
+          connect: companyReportIds.map((id) => ({ id })),
+        },
       },
       include: {
         country: true,
@@ -182,7 +345,12 @@ router.post("/", async (req, res) => {
     res.status(201).json({ success: true, data: company });
   } catch (error: any) {
     console.error("Error creating company:", error);
-    if (error.code === "P2002") {
+    if (
+      error.message?.startsWith("Reports not found") ||
+      error.message?.startsWith("Reports for another country")
+    ) {
+      res.status(400).json({ error: error.message });
+    } else if (error.code === "P2002") {
       res.status(400).json({ error: "Registration number already exists" });
     } else {
       res.status(500).json({ error: "Failed to create company" });
@@ -216,6 +384,25 @@ router.put("/:id", async (req, res) => {
     const updateData: any = {};
     if (nameEn !== undefined) updateData.nameEn = nameEn;
     if (nameAr !== undefined) updateData.nameAr = nameAr;
+    if (nameEn !== undefined || nameAr !== undefined) {
+      // The search columns need both names
+      const current = await prisma.company.findUnique({
+        where: { id },
+        select: { nameEn: true, nameAr: true },
+      });
+
+      if (!current) {
+        return res.status(404).json({ error: "Company not found" });
+      }
+
+      Object.assign(
+        updateData,
+        getCompanySearchFields(
+          nameEn ?? current.nameEn,
+          nameAr !== undefined ? nameAr : current.nameAr
+        )
+      );
+    }
     if (registrationNumber !== undefined)
       updateData.registrationNumber = registrationNumber;
     if (legalForm !== undefined) updateData.legalForm = legalForm;
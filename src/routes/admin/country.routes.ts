@@ -8,6 +8,16 @@ const router = Router();
 router.use(authenticate);
 router.use(requireAdmin);
 
+// Days of the week (0 = Sunday ... 6 = Saturday); at least one working day
+function isValidWeekendDays(weekendDays: unknown): weekendDays is number[] {
+  return (
+    Array.isArray(weekendDays) &&
+    weekendDays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    new Set(weekendDays).size === weekendDays.length &&
+    weekendDays.length < 7
+  );
+}
+
 // GET /api/admin/countries - Get all countries with pagination
 router.get("/", async (req, res) => {
   try {
@@ -78,7 +88,7 @@ router.get("/:id", async (req, res) => {
 // POST /api/admin/countries - Create a new country
 router.post("/", async (req, res) => {
   try {
-    const { code, nameEn, nameAr, isActive } = req.body;
+    const { code, nameEn, nameAr, isActive, weekendDays } = req.body;
 
     // Validation
     if (!code || !nameEn || !nameAr) {
@@ -94,12 +104,19 @@ router.post("/", async (req, res) => {
       });
     }
 
+    if (weekendDays !== undefined && !isValidWeekendDays(weekendDays)) {
+      return res.status(400).json({
+        msg: "weekendDays must be distinct days of the week (0 = Sunday ... 6 = Saturday), not all of them",
+      });
+    }
+
     const country = await prisma.country.create({
       data: {
         code: code.toUpperCase(),
         nameEn,
         nameAr,
         isActive: isActive !== undefined ? isActive : true,
+        weekendDays,
       },
     });
 
@@ -118,7 +135,7 @@ router.post("/", async (req, res) => {
 router.put("/:id", async (req, res) => {
   try {
     const id = parseInt(req.params.id);
-    const { code, nameEn, nameAr, isActive } = req.body;
+    const { code, nameEn, nameAr, isActive, weekendDays } = req.body;
 
     const updateData: any = {};
 
@@ -135,6 +152,14 @@ router.put("/:id", async (req, res) => {
     if (nameEn !== undefined) updateData.nameEn = nameEn;
     if (nameAr !== undefined) updateData.nameAr = nameAr;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (weekendDays !== undefined) {
+      if (!isValidWeekendDays(weekendDays)) {
+        return res.status(400).json({
+          msg: "weekendDays must be distinct days of the week (0 = Sunday ... 6 = Saturday), not all of them",
+        });
+      }
+      updateData.weekendDays = weekendDays;
+    }
 
     const country = await prisma.country.update({
       where: { id },
@@ -0,0 +1,398 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import type {
+  Coupon,
+  CouponType,
+  Prisma,
+} from "../../../generated/prisma/client";
+import {
+  isSupportedCurrency,
+  parseCurrency,
+} from "../../services/currency.service";
+import {
+  normalizeCouponCode,
+  requiresCouponCurrency,
+} from "../../services/coupon.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+const COUPON_TYPES: CouponType[] = ["PERCENTAGE", "FIXED_AMOUNT"];
+
+type CouponValidation =
+  | { data: Prisma.CouponCreateInput; error: null }
+  | { data: null; error: string };
+
+function isCouponType(value: unknown): value is CouponType {
+  return (COUPON_TYPES as unknown[]).includes(value);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isCodeList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((code) => typeof code === "string")
+  );
+}
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((id) => Number.isInteger(id));
+}
+
+function isOptionalString(value: unknown): value is string | null {
+  return value === null || typeof value === "string";
+}
+
+function isOptionalPositiveInt(value: unknown): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) > 0);
+}
+
+function isOptionalFraction(value: unknown): value is number | null {
+  return (
+    value === null || (typeof value === "number" && value > 0 && value <= 1)
+  );
+}
+
+/**
+ * Validate a coupon as it will be stored (existing values merged with the
+ * request body on update)
+ * @returns The coupon fields, or an error message if the coupon is invalid
+ */
+function validateCoupon(
+  coupon: ReturnType<typeof buildCouponData>
+): CouponValidation {
+  const invalid = (error: string): CouponValidation => ({ data: null, error });
+
+  if (!coupon.code) {
+    return invalid("Coupon code is required");
+  }
+
+  if (!isCouponType(coupon.type)) {
+    return invalid(`type must be one of ${COUPON_TYPES.join(", ")}`);
+  }
+
+  if (
+    !isOptionalFraction(coupon.percentOff) ||
+    (coupon.type === "PERCENTAGE" && coupon.percentOff === null)
+  ) {
+    return invalid(
+      "percentOff must be a fraction between 0 and 1 (e.g. 0.1 for 10%)"
+    );
+  }
+
+  if (
+    !isOptionalPositiveInt(coupon.amountOff) ||
+    (coupon.type === "FIXED_AMOUNT" && coupon.amountOff === null)
+  ) {
+    return invalid("amountOff must be a positive integer in minor units");
+  }
+
+  if (coupon.currency !== null && !isSupportedCurrency(coupon.currency)) {
+    return invalid("Unsupported currency");
+  }
+
+  if (
+    !isOptionalPositiveInt(coupon.minSubtotal) ||
+    !isOptionalPositiveInt(coupon.maxRedemptions) ||
+    !isOptionalPositiveInt(coupon.perUserLimit)
+  ) {
+    return invalid(
+      "minSubtotal, maxRedemptions and perUserLimit must be positive integers"
+    );
+  }
+
+  if (
+    requiresCouponCurrency({
+      type: coupon.type,
+      minSubtotal: coupon.minSubtotal,
+    }) &&
+    coupon.currency === null
+  ) {
+    return invalid(
+      "currency is required for fixed amount coupons and minSubtotal"
+    );
+  }
+
+  if (!isCodeList(coupon.countryCodes)) {
+    return invalid("countryCodes must be an array of country codes");
+  }
+
+  if (!isIdList(coupon.reportIds)) {
+    return invalid("reportIds must be an array of report IDs");
+  }
+
+  if (!isOptionalString(coupon.description)) {
+    return invalid("description must be a string");
+  }
+
+  if (typeof coupon.isActive !== "boolean") {
+    return invalid("isActive must be true or false");
+  }
+
+  if (
+    coupon.validFrom &&
+    coupon.validTo &&
+    coupon.validTo <= coupon.validFrom
+  ) {
+    return invalid("validTo must be after validFrom");
+  }
+
+  return {
+    data: {
+      code: coupon.code,
+      description: coupon.description,
+      type: coupon.type,
+      percentOff: coupon.percentOff,
+      amountOff: coupon.amountOff,
+      currency: coupon.currency,
+      minSubtotal: coupon.minSubtotal,
+      validFrom: coupon.validFrom,
+      validTo: coupon.validTo,
+      maxRedemptions: coupon.maxRedemptions,
+      perUserLimit: coupon.perUserLimit,
+      countryCodes: coupon.countryCodes,
+      reportIds: coupon.reportIds,
+      isActive: coupon.isActive,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Build the coupon fields from a request body
+ * Fields missing from the body keep their current value (or the default)
+ */
+function buildCouponData(
+  body: Record<string, unknown>,
+  existing: Partial<Coupon> = {}
+) {
+  const pick = (key: keyof Coupon, fallback: unknown = null): unknown =>
+    body[key] !== undefined ? body[key] : existing[key] ?? fallback;
+
+  const currency = pick("currency");
+  const type = pick("type");
+  const countryCodes = pick("countryCodes", []);
+
+  return {
+    code:
+      body.code !== undefined
+        ? normalizeCouponCode(String(body.code))
+        : existing.code,
+    description: pick("description"),
+    type,
+    percentOff: type === "PERCENTAGE" ? pick("percentOff") : null,
+    amountOff: type === "FIXED_AMOUNT" ? pick("amountOff") : null,
+    currency: currency ? parseCurrency(currency) || currency : null,
+    minSubtotal: pick("minSubtotal"),
+    validFrom:
+      body.validFrom !== undefined
+        ? parseDate(body.validFrom)
+        : existing.validFrom ?? null,
+    validTo:
+      body.validTo !== undefined
+        ? parseDate(body.validTo)
+        : existing.validTo ?? null,
+    maxRedemptions: pick("maxRedemptions"),
+    perUserLimit: pick("perUserLimit"),
+    // Anything but a list of codes is left for validation to reject
+    countryCodes: isCodeList(countryCodes)
+      ? countryCodes.map((code) => code.toUpperCase())
+      : countryCodes,
+    reportIds: pick("reportIds", []),
+    isActive: pick("isActive", true),
+  };
+}
+
+function hasInvalidDates(body: Record<string, unknown>): boolean {
+  return (
+    (!!body.validFrom && !parseDate(body.validFrom)) ||
+    (!!body.validTo && !parseDate(body.validTo))
+  );
+}
+
+// GET /api/admin/coupons - Get all coupons with pagination
+router.get("/", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", search, isActive } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { code: { contains: search as string, mode: "insensitive" } },
+        { description: { contains: search as string, mode: "insensitive" } },
+      ];
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive === "true";
+    }
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where,
+        include: {
+          _count: { select: { redemptions: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.coupon.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: coupons,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching coupons:", error);
+    res.status(500).json({ msg: "Failed to fetch coupons" });
+  }
+});
+
+// GET /api/admin/coupons/:id - Get a single coupon with its redemptions
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: {
+        redemptions: {
+          include: {
+            user: { select: { id: true, email: true, name: true } },
+            order: { select: { id: true, orderNumber: true, status: true } },
+          },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    });
+
+    if (!coupon) {
+      return res.status(404).json({ msg: "Coupon not found" });
+    }
+
+    res.json({ success: true, data: coupon });
+  } catch (error: any) {
+    console.error("Error fetching coupon:", error);
+    res.status(500).json({ msg: "Failed to fetch coupon" });
+  }
+});
+
+// POST /api/admin/coupons - Create a new coupon
+router.post("/", async (req, res) => {
+  try {
+    if (hasInvalidDates(req.body)) {
+      return res.status(400).json({ msg: "Invalid validity dates" });
+    }
+
+    const { data, error } = validateCoupon(buildCouponData(req.body));
+
+    if (error !== null) {
+      return res.status(400).json({ msg: error });
+    }
+
+    const coupon = await prisma.coupon.create({ data });
+
+    res.status(201).json({ success: true, data: coupon });
+  } catch (error: any) {
+    console.error("Error creating coupon:", error);
+    if (error.code === "P2002") {
+      res.status(400).json({ msg: "Coupon code already exists" });
+    } else {
+      res.status(500).json({ msg: "Failed to create coupon" });
+    }
+  }
+});
+
+// PUT /api/admin/coupons/:id - Update a coupon
+router.put("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const existing = await prisma.coupon.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ msg: "Coupon not found" });
+    }
+
+    if (hasInvalidDates(req.body)) {
+      return res.status(400).json({ msg: "Invalid validity dates" });
+    }
+
+    const { data, error } = validateCoupon(
+      buildCouponData(req.body, existing)
+    );
+
+    if (error !== null) {
+      return res.status(400).json({ msg: error });
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id },
+      data,
+    });
+
+    res.json({ success: true, data: coupon });
+  } catch (error: any) {
+    console.error("Error updating coupon:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Coupon not found" });
+    } else if (error.code === "P2002") {
+      res.status(400).json({ msg: "Coupon code already exists" });
+    } else {
+      res.status(500).json({ msg: "Failed to update coupon" });
+    }
+  }
+});
+
+// DELETE /api/admin/coupons/:id - Delete a coupon that was never redeemed
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const redemptions = await prisma.couponRedemption.count({
+      where: { couponId: id },
+    });
+
+    if (redemptions > 0) {
+      return res.status(400).json({
+        msg: "Coupon has been redeemed and cannot be deleted; deactivate it instead",
+      });
+    }
+
+    await prisma.coupon.delete({
+      where: { id },
+    });
+
+    res.json({ success: true, message: "Coupon deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting coupon:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Coupon not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete coupon" });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,248 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import {
+  adjustCredits,
+  getCreditBalances,
+  getCreditLedger,
+  reconcileCredits,
+  topUpCredits,
+} from "../../services/credit.service";
+import { parseCurrency } from "../../services/currency.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * Parse an optional date from a request body or query
+ * @returns The date, undefined if absent, or null if invalid
+ */
+function parseOptionalDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+async function userExists(userId: number): Promise<boolean> {
+  return (await prisma.user.count({ where: { id: userId } })) > 0;
+}
+
+// GET /api/admin/credits - Get all credit accounts with pagination
+router.get("/", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", search, currency } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (search) {
+      where.user = {
+        OR: [
+          { email: { contains: search as string, mode: "insensitive" } },
+          { name: { contains: search as string, mode: "insensitive" } },
+        ],
+      };
+    }
+
+    if (currency) {
+      where.currency = (currency as string).toUpperCase();
+    }
+
+    const [accounts, total] = await Promise.all([
+      prisma.creditAccount.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { updatedAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.creditAccount.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: accounts,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching credit accounts:", error);
+    res.status(500).json({ msg: "Failed to fetch credit accounts" });
+  }
+});
+
+// GET /api/admin/credits/reconciliation - Check the ledger against orders
+// paid with credit and against account balances
+router.get("/reconciliation", async (req, res) => {
+  try {
+    const from = parseOptionalDate(req.query.from);
+    const to = parseOptionalDate(req.query.to);
+
+    if (from === null || to === null) {
+      return res.status(400).json({ msg: "from and to must be dates" });
+    }
+
+    const { orders, accounts } = await reconcileCredits({ from, to });
+
+    res.json({
+      success: true,
+      data: {
+        balanced:
+          orders.every((order) => order.balanced) &&
+          accounts.every((account) => account.balanced),
+        orders,
+        accounts,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error reconciling credits:", error);
+    res.status(500).json({ msg: "Failed to reconcile credits" });
+  }
+});
+
+// GET /api/admin/credits/users/:userId - Get a user's balances and ledger
+router.get("/users/:userId", async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const { page = "1", limit = "50", currency } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    if (!(await userExists(userId))) {
+      return res.status(404).json({ msg: "User not found" });
+    }
+
+    const [balances, { entries, total }] = await Promise.all([
+      getCreditBalances(userId),
+      getCreditLedger(userId, {
+        currency: currency ? (currency as string).toUpperCase() : undefined,
+        page: pageNum,
+        limit: limitNum,
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: { balances, entries },
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching user credits:", error);
+    res.status(500).json({ msg: "Failed to fetch user credits" });
+  }
+});
+
+// POST /api/admin/credits/users/:userId/top-ups - Add prepaid credit
+// Body: { amount, currency, expiresAt?, reference? }
+router.post("/users/:userId/top-ups", async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const { amount, reference } = req.body;
+    const currency = parseCurrency(req.body.currency);
+    const expiresAt = parseOptionalDate(req.body.expiresAt);
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return res
+        .status(400)
+        .json({ msg: "amount must be a positive integer (minor units)" });
+    }
+
+    if (!currency) {
+      return res.status(400).json({ msg: "Unsupported currency" });
+    }
+
+    if (expiresAt === null || (expiresAt && expiresAt <= new Date())) {
+      return res.status(400).json({ msg: "expiresAt must be a future date" });
+    }
+
+    if (!(await userExists(userId))) {
+      return res.status(404).json({ msg: "User not found" });
+    }
+
+    const entry = await topUpCredits({
+      userId,
+      currency,
+      amount,
+      expiresAt,
+      reference: typeof reference === "string" ? reference : undefined,
+      adminId: req.user!.id,
+    });
+
+    res.status(201).json({ success: true, data: entry });
+  } catch (error: any) {
+    console.error("Error topping up credits:", error);
+    res.status(500).json({ msg: "Failed to top up credits" });
+  }
+});
+
+// POST /api/admin/credits/users/:userId/adjustments - Correct a balance
+// Body: { amount (negative to remove credit), currency, reason, expiresAt? }
+router.post("/users/:userId/adjustments", async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const { amount, reason } = req.body;
+    const currency = parseCurrency(req.body.currency);
+    const expiresAt = parseOptionalDate(req.body.expiresAt);
+
+    if (!Number.isInteger(amount) || amount === 0) {
+      return res
+        .status(400)
+        .json({ msg: "amount must be a non-zero integer (minor units)" });
+    }
+
+    if (!currency) {
+      return res.status(400).json({ msg: "Unsupported currency" });
+    }
+
+    if (!reason || typeof reason !== "string" || !reason.trim()) {
+      return res.status(400).json({ msg: "reason is required" });
+    }
+
+    if (expiresAt === null) {
+      return res.status(400).json({ msg: "expiresAt must be a date" });
+    }
+
+    if (!(await userExists(userId))) {
+      return res.status(404).json({ msg: "User not found" });
+    }
+
+    const entry = await adjustCredits({
+      userId,
+      currency,
+      amount,
+      reason,
+      expiresAt,
+      adminId: req.user!.id,
+    });
+
+    res.status(201).json({ success: true, data: entry });
+  } catch (error: any) {
+    console.error("Error adjusting credits:", error);
+    if (error.message === "Insufficient credit balance") {
+      res.status(400).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to adjust credits" });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,171 @@
+import { Router } from "express";
+import multer from "multer";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import {
+  DELIVERABLE_CONTENT_TYPES,
+  deleteDeliverable,
+  uploadDeliverable,
+} from "../../services/deliverable.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+// Configure multer for report file uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype in DELIVERABLE_CONTENT_TYPES) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only PDF and DOCX files are allowed."));
+    }
+  },
+});
+
+// GET /api/admin/deliverables - Get all deliverables with pagination
+// Filters: userId, reportId, companyId, orderId
+router.get("/", async (req, res) => {
+  try {
+    const {
+      page = "1",
+      limit = "50",
+      userId,
+      reportId,
+      companyId,
+      orderId,
+    } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+    const orderItem: any = {};
+
+    if (userId) {
+      where.userId = parseInt(userId as string);
+    }
+
+    if (reportId) {
+      orderItem.reportId = parseInt(reportId as string);
+    }
+
+    if (companyId) {
+      orderItem.companyId = parseInt(companyId as string);
+    }
+
+    if (orderId) {
+      orderItem.orderId = parseInt(orderId as string);
+    }
+
+    if (Object.keys(orderItem).length > 0) {
+      where.orderItem = orderItem;
+    }
+
+    const [deliverables, total] = await Promise.all([
+      prisma.deliverable.findMany({
+        where,
+        include: {
+          orderItem: {
+            select: {
+              id: true,
+              orderId: true,
+              reportId: true,
+              reportName: true,
+              companyId: true,
+              companyNameEn: true,
+              companyNameAr: true,
+            },
+          },
+          user: { select: { id: true, name: true, email: true } },
+          uploadedBy: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.deliverable.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: deliverables,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching deliverables:", error);
+    res.status(500).json({ msg: "Failed to fetch deliverables" });
+  }
+});
+
+// POST /api/admin/deliverables - Upload a finished report file for a purchase
+// Multipart form: file (PDF or DOCX), userId, reportId, companyId
+router.post("/", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ msg: "No file uploaded" });
+    }
+
+    const userId = parseInt(req.body.userId);
+    const reportId = parseInt(req.body.reportId);
+    const companyId = parseInt(req.body.companyId);
+
+    if (isNaN(userId) || isNaN(reportId) || isNaN(companyId)) {
+      return res.status(400).json({
+        msg: "Missing required fields: userId, reportId, companyId",
+      });
+    }
+
+    const deliverable = await uploadDeliverable({
+      userId,
+      reportId,
+      companyId,
+      fileName: req.file.originalname,
+      contentType: req.file.mimetype,
+      body: req.file.buffer,
+      adminId: req.user!.id,
+    });
+
+    res.status(201).json({ success: true, data: deliverable });
+  } catch (error: any) {
+    console.error("Error uploading deliverable:", error);
+    if (error.message.startsWith("No paid purchase")) {
+      res.status(404).json({ msg: error.message });
+    } else if (error.message.startsWith("Deliverables must be")) {
+      res.status(400).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to upload deliverable" });
+    }
+  }
+});
+
+// DELETE /api/admin/deliverables/:id - Delete a deliverable and its file
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await deleteDeliverable(id);
+
+    res.json({ success: true, message: "Deliverable deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting deliverable:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Deliverable not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete deliverable" });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,104 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import { parseCurrency } from "../../services/currency.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+// GET /api/admin/exchange-rates - Get all exchange rates
+router.get("/", async (req, res) => {
+  try {
+    const { currency } = req.query;
+
+    const where: any = {};
+
+    if (currency) {
+      const code = (currency as string).toUpperCase();
+      where.OR = [{ baseCurrency: code }, { quoteCurrency: code }];
+    }
+
+    const exchangeRates = await prisma.exchangeRate.findMany({
+      where,
+      orderBy: [{ baseCurrency: "asc" }, { quoteCurrency: "asc" }],
+    });
+
+    res.json({ success: true, data: exchangeRates });
+  } catch (error: any) {
+    console.error("Error fetching exchange rates:", error);
+    res.status(500).json({ msg: "Failed to fetch exchange rates" });
+  }
+});
+
+// PUT /api/admin/exchange-rates - Create or update the rate for a currency pair
+// rate is how many units of quoteCurrency one unit of baseCurrency buys
+router.put("/", async (req, res) => {
+  try {
+    const { baseCurrency, quoteCurrency, rate } = req.body;
+
+    // Validation
+    if (!baseCurrency || !quoteCurrency || rate === undefined) {
+      return res.status(400).json({
+        msg: "Missing required fields: baseCurrency, quoteCurrency, rate",
+      });
+    }
+
+    const base = parseCurrency(baseCurrency);
+    const quote = parseCurrency(quoteCurrency);
+
+    if (!base || !quote) {
+      return res.status(400).json({ msg: "Unsupported currency" });
+    }
+
+    if (base === quote) {
+      return res
+        .status(400)
+        .json({ msg: "baseCurrency and quoteCurrency must differ" });
+    }
+
+    if (typeof rate !== "number" || rate <= 0) {
+      return res.status(400).json({ msg: "Rate must be a positive number" });
+    }
+
+    const exchangeRate = await prisma.exchangeRate.upsert({
+      where: {
+        baseCurrency_quoteCurrency: { baseCurrency: base, quoteCurrency: quote },
+      },
+      create: { baseCurrency: base, quoteCurrency: quote, rate },
+      update: { rate },
+    });
+
+    res.json({ success: true, data: exchangeRate });
+  } catch (error: any) {
+    console.error("Error saving exchange rate:", error);
+    res.status(500).json({ msg: "Failed to save exchange rate" });
+  }
+});
+
+// DELETE /api/admin/exchange-rates/:id - Delete an exchange rate
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await prisma.exchangeRate.delete({
+      where: { id },
+    });
+
+    res.json({
+      success: true,
+      message: "Exchange rate deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting exchange rate:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Exchange rate not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete exchange rate" });
+    }
+  }
+});
+
+export default router;
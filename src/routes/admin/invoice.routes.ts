@@ -0,0 +1,165 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import { issueInvoiceForOrder } from "../../services/invoice.service";
+import { renderInvoicePdf } from "../../services/invoice-pdf.service";
+import { renderInvoiceXml } from "../../services/invoice-xml.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+async function findInvoice(id: number) {
+  return prisma.invoice.findUnique({
+    where: { id },
+    include: { lines: { orderBy: { id: "asc" } } },
+  });
+}
+
+// GET /api/admin/invoices - Get all invoices with pagination
+router.get("/", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", search, sellerEntityId } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { invoiceNumber: { contains: search as string, mode: "insensitive" } },
+        { buyerEmail: { contains: search as string, mode: "insensitive" } },
+        {
+          order: {
+            orderNumber: { contains: search as string, mode: "insensitive" },
+          },
+        },
+      ];
+    }
+
+    if (sellerEntityId) {
+      where.sellerEntityId = parseInt(sellerEntityId as string);
+    }
+
+    const [invoices, total] = await Promise.all([
+      prisma.invoice.findMany({
+        where,
+        include: {
+          order: { select: { id: true, orderNumber: true, userId: true } },
+        },
+        orderBy: { issuedAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.invoice.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: invoices,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching invoices:", error);
+    res.status(500).json({ msg: "Failed to fetch invoices" });
+  }
+});
+
+// GET /api/admin/invoices/:id - Get a single invoice
+router.get("/:id", async (req, res) => {
+  try {
+    const invoice = await findInvoice(parseInt(req.params.id));
+
+    if (!invoice) {
+      return res.status(404).json({ msg: "Invoice not found" });
+    }
+
+    res.json({ success: true, data: invoice });
+  } catch (error: any) {
+    console.error("Error fetching invoice:", error);
+    res.status(500).json({ msg: "Failed to fetch invoice" });
+  }
+});
+
+// GET /api/admin/invoices/:id/pdf - Regenerate the invoice PDF
+router.get("/:id/pdf", async (req, res) => {
+  try {
+    const invoice = await findInvoice(parseInt(req.params.id));
+
+    if (!invoice) {
+      return res.status(404).json({ msg: "Invoice not found" });
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${invoice.invoiceNumber}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Error rendering invoice PDF:", error);
+    res.status(500).json({ msg: "Failed to render invoice" });
+  }
+});
+
+// GET /api/admin/invoices/:id/xml - Regenerate the UBL e-invoice XML
+router.get("/:id/xml", async (req, res) => {
+  try {
+    const invoice = await findInvoice(parseInt(req.params.id));
+
+    if (!invoice) {
+      return res.status(404).json({ msg: "Invoice not found" });
+    }
+
+    res.setHeader("Content-Type", "application/xml; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${invoice.invoiceNumber}.xml"`
+    );
+    res.send(renderInvoiceXml(invoice));
+  } catch (error: any) {
+    console.error("Error rendering invoice XML:", error);
+    res.status(500).json({ msg: "Failed to render invoice" });
+  }
+});
+
+// POST /api/admin/invoices - Issue the invoice for a paid order
+// (normally issued when the payment succeeds; returns it if it already exists)
+router.post("/", async (req, res) => {
+  try {
+    const { orderId } = req.body;
+
+    if (!Number.isInteger(orderId)) {
+      return res.status(400).json({ msg: "orderId is required" });
+    }
+
+    const invoice = await issueInvoiceForOrder(orderId);
+
+    res.status(201).json({ success: true, data: invoice });
+  } catch (error: any) {
+    console.error("Error issuing invoice:", error);
+    if (error.message === "Order not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (
+      error.message === "Only paid orders can be invoiced" ||
+      error.message.startsWith("No seller entity") ||
+      error.message.startsWith("Reports from")
+    ) {
+      res.status(400).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to issue invoice" });
+    }
+  }
+});
+
+export default router;
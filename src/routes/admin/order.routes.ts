@@ -0,0 +1,99 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+// GET /api/admin/orders - Get all orders with pagination
+router.get("/", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", search, status, userId } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { orderNumber: { contains: search as string, mode: "insensitive" } },
+        {
+          user: {
+            email: { contains: search as string, mode: "insensitive" },
+          },
+        },
+      ];
+    }
+
+    if (status) {
+      where.status = status as string;
+    }
+
+    if (userId) {
+      where.userId = parseInt(userId as string);
+    }
+
+    const [orders, total] = await Promise.all([
+      prisma.order.findMany({
+        where,
+        include: {
+          user: { select: { id: true, email: true, name: true } },
+          items: true,
+        },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.order.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: orders,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching orders:", error);
+    res.status(500).json({ msg: "Failed to fetch orders" });
+  }
+});
+
+// GET /api/admin/orders/:id - Get a single order
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: {
+        user: { select: { id: true, email: true, name: true } },
+        items: {
+          include: {
+            reportRequest: {
+              select: { id: true, status: true, assigneeId: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      return res.status(404).json({ msg: "Order not found" });
+    }
+
+    res.json({ success: true, data: order });
+  } catch (error: any) {
+    console.error("Error fetching order:", error);
+    res.status(500).json({ msg: "Failed to fetch order" });
+  }
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import { capturePayment } from "../../services/payment.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+// GET /api/admin/payments - Get all payments with pagination
+router.get("/", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", status, provider } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (status) {
+      where.status = status as string;
+    }
+
+    if (provider) {
+      where.provider = provider as string;
+    }
+
+    const [payments, total] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        include: {
+          order: {
+            select: { id: true, orderNumber: true, userId: true, status: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.payment.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: payments,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching payments:", error);
+    res.status(500).json({ msg: "Failed to fetch payments" });
+  }
+});
+
+// POST /api/admin/payments/:id/capture - Capture an authorized payment in full
+router.post("/:id/capture", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const payment = await capturePayment(id);
+
+    res.json({ success: true, data: payment });
+  } catch (error: any) {
+    console.error("Error capturing payment:", error);
+    if (error.message === "Payment not found") {
+      return res.status(404).json({ msg: error.message });
+    }
+    res.status(400).json({ msg: error.message || "Failed to capture payment" });
+  }
+});
+
+export default router;
@@ -0,0 +1,370 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import type {
+  PricingRule,
+  PricingRuleType,
+  Prisma,
+} from "../../../generated/prisma/client";
+import {
+  isSupportedCurrency,
+  parseCurrency,
+} from "../../services/currency.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+const RULE_TYPES: PricingRuleType[] = ["TIER", "BUNDLE"];
+
+type RuleValidation =
+  | { data: Prisma.PricingRuleUncheckedCreateInput; error: null }
+  | { data: null; error: string };
+
+function isRuleType(value: unknown): value is PricingRuleType {
+  return (RULE_TYPES as unknown[]).includes(value);
+}
+
+function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(isInteger);
+}
+
+function isOptionalString(value: unknown): value is string | null {
+  return value === null || typeof value === "string";
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Build the rule fields from a request body
+ * Fields missing from the body keep their current value (or the default);
+ * fields that don't belong to the rule's type are cleared
+ */
+function buildRuleData(
+  body: Record<string, unknown>,
+  existing: Partial<PricingRule> = {}
+) {
+  const pick = (key: keyof PricingRule, fallback: unknown = null): unknown =>
+    body[key] !== undefined ? body[key] : existing[key] ?? fallback;
+
+  const type = pick("type");
+  const isTier = type === "TIER";
+  const isBundle = type === "BUNDLE";
+  const countryCode = pick("countryCode");
+  const currency = pick("currency");
+
+  return {
+    name: pick("name"),
+    description: pick("description"),
+    type,
+    priority: pick("priority", 0),
+    reportId: isTier ? pick("reportId") : null,
+    countryCode:
+      isTier && countryCode ? String(countryCode).toUpperCase() : null,
+    minQuantity: isTier ? pick("minQuantity") : null,
+    percentOff: isTier ? pick("percentOff") : null,
+    reportIds: isBundle ? pick("reportIds", []) : [],
+    bundlePrice: isBundle ? pick("bundlePrice") : null,
+    currency: isBundle && currency ? parseCurrency(currency) || currency : null,
+    validFrom:
+      body.validFrom !== undefined
+        ? parseDate(body.validFrom)
+        : existing.validFrom ?? null,
+    validTo:
+      body.validTo !== undefined
+        ? parseDate(body.validTo)
+        : existing.validTo ?? null,
+    isActive: pick("isActive", true),
+  };
+}
+
+/**
+ * Validate a rule as it will be stored
+ * @returns The rule's fields, or an error message if the rule is invalid
+ */
+async function validateRule(
+  rule: ReturnType<typeof buildRuleData>
+): Promise<RuleValidation> {
+  const invalid = (error: string): RuleValidation => ({ data: null, error });
+
+  if (!rule.name || typeof rule.name !== "string") {
+    return invalid("Rule name is required");
+  }
+
+  if (!isRuleType(rule.type)) {
+    return invalid(`type must be one of ${RULE_TYPES.join(", ")}`);
+  }
+
+  if (!isInteger(rule.priority)) {
+    return invalid("priority must be an integer");
+  }
+
+  if (!isOptionalString(rule.description)) {
+    return invalid("description must be a string");
+  }
+
+  if (typeof rule.isActive !== "boolean") {
+    return invalid("isActive must be true or false");
+  }
+
+  if (rule.validFrom && rule.validTo && rule.validTo <= rule.validFrom) {
+    return invalid("validTo must be after validFrom");
+  }
+
+  const common = {
+    name: rule.name,
+    description: rule.description,
+    type: rule.type,
+    priority: rule.priority,
+    validFrom: rule.validFrom,
+    validTo: rule.validTo,
+    isActive: rule.isActive,
+  };
+
+  if (rule.type === "TIER") {
+    if (!isInteger(rule.minQuantity) || rule.minQuantity < 2) {
+      return invalid("minQuantity must be an integer of at least 2");
+    }
+
+    if (
+      typeof rule.percentOff !== "number" ||
+      rule.percentOff <= 0 ||
+      rule.percentOff > 1
+    ) {
+      return invalid(
+        "percentOff must be a fraction between 0 and 1 (e.g. 0.15 for 15%)"
+      );
+    }
+
+    if (rule.reportId !== null && !isInteger(rule.reportId)) {
+      return invalid("Invalid report ID");
+    }
+
+    if (rule.reportId !== null) {
+      const report = await prisma.report.findUnique({
+        where: { id: rule.reportId },
+      });
+      if (!report) {
+        return invalid("Invalid report ID");
+      }
+    }
+
+    if (rule.countryCode !== null) {
+      const country = await prisma.country.findUnique({
+        where: { code: rule.countryCode },
+      });
+      if (!country) {
+        return invalid("Invalid country code");
+      }
+    }
+
+    return {
+      data: {
+        ...common,
+        reportId: rule.reportId,
+        countryCode: rule.countryCode,
+        minQuantity: rule.minQuantity,
+        percentOff: rule.percentOff,
+        reportIds: [],
+        bundlePrice: null,
+        currency: null,
+      },
+      error: null,
+    };
+  }
+
+  if (
+    !isIdList(rule.reportIds) ||
+    rule.reportIds.length < 2 ||
+    new Set(rule.reportIds).size !== rule.reportIds.length
+  ) {
+    return invalid("reportIds must list at least two different report IDs");
+  }
+
+  if (!isInteger(rule.bundlePrice) || rule.bundlePrice < 0) {
+    return invalid("bundlePrice must be a positive integer in minor units");
+  }
+
+  if (!isSupportedCurrency(rule.currency)) {
+    return invalid("A supported currency is required for bundles");
+  }
+
+  const reports = await prisma.report.findMany({
+    where: { id: { in: rule.reportIds } },
+    select: { id: true, currency: true },
+  });
+
+  if (reports.length !== rule.reportIds.length) {
+    return invalid("Invalid report ID in reportIds");
+  }
+
+  if (reports.some((report) => report.currency !== rule.currency)) {
+    return invalid("All bundled reports must be priced in the bundle currency");
+  }
+
+  return {
+    data: {
+      ...common,
+      reportId: null,
+      countryCode: null,
+      minQuantity: null,
+      percentOff: null,
+      reportIds: rule.reportIds,
+      bundlePrice: rule.bundlePrice,
+      currency: rule.currency,
+    },
+    error: null,
+  };
+}
+
+function hasInvalidDates(body: Record<string, unknown>): boolean {
+  return (
+    (!!body.validFrom && !parseDate(body.validFrom)) ||
+    (!!body.validTo && !parseDate(body.validTo))
+  );
+}
+
+// GET /api/admin/pricing-rules - Get all pricing rules
+router.get("/", async (req, res) => {
+  try {
+    const { type, isActive } = req.query;
+
+    const where: any = {};
+
+    if (type) {
+      where.type = (type as string).toUpperCase();
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive === "true";
+    }
+
+    const pricingRules = await prisma.pricingRule.findMany({
+      where,
+      include: {
+        report: { select: { id: true, name: true, countryCode: true } },
+      },
+      orderBy: [{ priority: "desc" }, { id: "asc" }],
+    });
+
+    res.json({ success: true, data: pricingRules });
+  } catch (error: any) {
+    console.error("Error fetching pricing rules:", error);
+    res.status(500).json({ msg: "Failed to fetch pricing rules" });
+  }
+});
+
+// GET /api/admin/pricing-rules/:id - Get a single pricing rule
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const pricingRule = await prisma.pricingRule.findUnique({
+      where: { id },
+      include: { report: true },
+    });
+
+    if (!pricingRule) {
+      return res.status(404).json({ msg: "Pricing rule not found" });
+    }
+
+    res.json({ success: true, data: pricingRule });
+  } catch (error: any) {
+    console.error("Error fetching pricing rule:", error);
+    res.status(500).json({ msg: "Failed to fetch pricing rule" });
+  }
+});
+
+// POST /api/admin/pricing-rules - Create a new pricing rule
+router.post("/", async (req, res) => {
+  try {
+    if (hasInvalidDates(req.body)) {
+      return res.status(400).json({ msg: "Invalid validity dates" });
+    }
+
+    const { data, error } = await validateRule(buildRuleData(req.body));
+
+    if (error !== null) {
+      return res.status(400).json({ msg: error });
+    }
+
+    const pricingRule = await prisma.pricingRule.create({ data });
+
+    res.status(201).json({ success: true, data: pricingRule });
+  } catch (error: any) {
+    console.error("Error creating pricing rule:", error);
+    res.status(500).json({ msg: "Failed to create pricing rule" });
+  }
+});
+
+// PUT /api/admin/pricing-rules/:id - Update a pricing rule
+router.put("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const existing = await prisma.pricingRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ msg: "Pricing rule not found" });
+    }
+
+    if (hasInvalidDates(req.body)) {
+      return res.status(400).json({ msg: "Invalid validity dates" });
+    }
+
+    const { data, error } = await validateRule(
+      buildRuleData(req.body, existing)
+    );
+
+    if (error !== null) {
+      return res.status(400).json({ msg: error });
+    }
+
+    const pricingRule = await prisma.pricingRule.update({
+      where: { id },
+      data,
+    });
+
+    res.json({ success: true, data: pricingRule });
+  } catch (error: any) {
+    console.error("Error updating pricing rule:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Pricing rule not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to update pricing rule" });
+    }
+  }
+});
+
+// DELETE /api/admin/pricing-rules/:id - Delete a pricing rule
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await prisma.pricingRule.delete({
+      where: { id },
+    });
+
+    res.json({ success: true, message: "Pricing rule deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting pricing rule:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Pricing rule not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete pricing rule" });
+    }
+  }
+});
+
+export default router;
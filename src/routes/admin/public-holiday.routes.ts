@@ -0,0 +1,125 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+// GET /api/admin/public-holidays - Get public holidays
+// Filters: countryCode, year
+router.get("/", async (req, res) => {
+  try {
+    const { countryCode, year } = req.query;
+
+    const where: any = {};
+
+    if (countryCode) {
+      where.countryCode = (countryCode as string).toUpperCase();
+    }
+
+    if (year) {
+      const yearNum = parseInt(year as string);
+
+      if (isNaN(yearNum)) {
+        return res.status(400).json({ msg: "year must be a number" });
+      }
+
+      where.date = {
+        gte: new Date(Date.UTC(yearNum, 0, 1)),
+        lt: new Date(Date.UTC(yearNum + 1, 0, 1)),
+      };
+    }
+
+    const holidays = await prisma.publicHoliday.findMany({
+      where,
+      orderBy: [{ countryCode: "asc" }, { date: "asc" }],
+    });
+
+    res.json({ success: true, data: holidays });
+  } catch (error: any) {
+    console.error("Error fetching public holidays:", error);
+    res.status(500).json({ msg: "Failed to fetch public holidays" });
+  }
+});
+
+// POST /api/admin/public-holidays - Add a public holiday
+// Body: { countryCode, date (YYYY-MM-DD), name, nameAr? }
+// Only report requests created afterwards take the holiday into account
+router.post("/", async (req, res) => {
+  try {
+    const { countryCode, date, name, nameAr } = req.body;
+
+    // Validation
+    if (!countryCode || !date || !name) {
+      return res.status(400).json({
+        msg: "Missing required fields: countryCode, date, name",
+      });
+    }
+
+    if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ msg: "date must be YYYY-MM-DD" });
+    }
+
+    const holidayDate = new Date(date);
+
+    if (isNaN(holidayDate.getTime())) {
+      return res.status(400).json({ msg: "date must be YYYY-MM-DD" });
+    }
+
+    const code = countryCode.toUpperCase();
+
+    // Validate country exists
+    const country = await prisma.country.findUnique({
+      where: { code },
+    });
+
+    if (!country) {
+      return res.status(400).json({ msg: "Invalid country code" });
+    }
+
+    const holiday = await prisma.publicHoliday.create({
+      data: {
+        countryCode: code,
+        date: holidayDate,
+        name,
+        nameAr,
+      },
+    });
+
+    res.status(201).json({ success: true, data: holiday });
+  } catch (error: any) {
+    console.error("Error creating public holiday:", error);
+    if (error.code === "P2002") {
+      res
+        .status(400)
+        .json({ msg: "A public holiday already exists on this date" });
+    } else {
+      res.status(500).json({ msg: "Failed to create public holiday" });
+    }
+  }
+});
+
+// DELETE /api/admin/public-holidays/:id - Delete a public holiday
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await prisma.publicHoliday.delete({
+      where: { id },
+    });
+
+    res.json({ success: true, message: "Public holiday deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting public holiday:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Public holiday not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete public holiday" });
+    }
+  }
+});
+
+export default router;
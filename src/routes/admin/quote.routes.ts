@@ -0,0 +1,221 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import { getQuoteStatus } from "../../services/quote.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+const quoteInclude = {
+  user: { select: { id: true, email: true, name: true } },
+  items: {
+    include: {
+      report: { select: { id: true, name: true, countryCode: true } },
+      company: { select: { id: true, nameEn: true } },
+    },
+    orderBy: { id: "asc" as const },
+  },
+};
+
+// GET /api/admin/quotes - Get all quotes with pagination
+router.get("/", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", search, status, userId } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { quoteNumber: { contains: search as string, mode: "insensitive" } },
+        { name: { contains: search as string, mode: "insensitive" } },
+        {
+          user: {
+            email: { contains: search as string, mode: "insensitive" },
+          },
+        },
+      ];
+    }
+
+    if (status === "EXPIRED") {
+      where.status = "OPEN";
+      where.expiresAt = { lte: new Date() };
+    } else if (status) {
+      where.status = status as string;
+    }
+
+    if (userId) {
+      where.userId = parseInt(userId as string);
+    }
+
+    const [quotes, total] = await Promise.all([
+      prisma.quote.findMany({
+        where,
+        include: quoteInclude,
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.quote.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: quotes.map((quote) => ({
+        ...quote,
+        status: getQuoteStatus(quote),
+      })),
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching quotes:", error);
+    res.status(500).json({ msg: "Failed to fetch quotes" });
+  }
+});
+
+// GET /api/admin/quotes/:id - Get a single quote
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const quote = await prisma.quote.findUnique({
+      where: { id },
+      include: quoteInclude,
+    });
+
+    if (!quote) {
+      return res.status(404).json({ msg: "Quote not found" });
+    }
+
+    res.json({
+      success: true,
+      data: { ...quote, status: getQuoteStatus(quote) },
+    });
+  } catch (error: any) {
+    console.error("Error fetching quote:", error);
+    res.status(500).json({ msg: "Failed to fetch quote" });
+  }
+});
+
+// PUT /api/admin/quotes/:id - Update the name, notes or expiry of a quote,
+// or cancel it ({"status":"CANCELLED"})
+router.put("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { name, notes, expiresAt, status } = req.body;
+
+    const existing = await prisma.quote.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ msg: "Quote not found" });
+    }
+
+    // Expired quotes may still be extended
+    if (existing.status !== "OPEN") {
+      return res.status(400).json({ msg: "Only open quotes can be changed" });
+    }
+
+    const data: any = {};
+
+    if (name !== undefined) {
+      if (!name || typeof name !== "string") {
+        return res.status(400).json({ msg: "name must be a non-empty string" });
+      }
+      data.name = name;
+    }
+
+    if (notes !== undefined) {
+      data.notes = notes || null;
+    }
+
+    if (expiresAt !== undefined) {
+      const date = new Date(expiresAt);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ msg: "Invalid expiresAt" });
+      }
+      data.expiresAt = date;
+    }
+
+    if (status !== undefined) {
+      if (status !== "CANCELLED") {
+        return res
+          .status(400)
+          .json({ msg: "status can only be changed to CANCELLED" });
+      }
+      data.status = status;
+    }
+
+    const quote = await prisma.quote.update({
+      where: { id },
+      data,
+      include: quoteInclude,
+    });
+
+    res.json({
+      success: true,
+      data: { ...quote, status: getQuoteStatus(quote) },
+    });
+  } catch (error: any) {
+    console.error("Error updating quote:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Quote not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to update quote" });
+    }
+  }
+});
+
+// PUT /api/admin/quotes/:id/items/:itemId - Adjust the quoted unit price of an item
+router.put("/:id/items/:itemId", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const itemId = parseInt(req.params.itemId);
+    const { price } = req.body;
+
+    if (!Number.isInteger(price) || price < 0) {
+      return res
+        .status(400)
+        .json({ msg: "price must be a non-negative integer in minor units" });
+    }
+
+    const item = await prisma.quoteItem.findFirst({
+      where: { id: itemId, quoteId: id },
+      include: { quote: true },
+    });
+
+    if (!item) {
+      return res.status(404).json({ msg: "Quote item not found" });
+    }
+
+    if (item.quote.status !== "OPEN") {
+      return res.status(400).json({ msg: "Only open quotes can be changed" });
+    }
+
+    const quoteItem = await prisma.quoteItem.update({
+      where: { id: itemId },
+      data: { price },
+    });
+
+    res.json({ success: true, data: quoteItem });
+  } catch (error: any) {
+    console.error("Error updating quote item:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Quote item not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to update quote item" });
+    }
+  }
+});
+
+export default router;
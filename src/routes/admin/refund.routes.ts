@@ -0,0 +1,265 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import {
+  refundOrderLines,
+  sendCreditNoteRefund,
+} from "../../services/refund.service";
+import { renderInvoicePdf } from "../../services/invoice-pdf.service";
+import { renderInvoiceXml } from "../../services/invoice-xml.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+async function findCreditNote(id: number) {
+  return prisma.creditNote.findUnique({
+    where: { id },
+    include: {
+      lines: { orderBy: { id: "asc" } },
+      invoice: { include: { lines: { orderBy: { id: "asc" } } } },
+      order: { select: { id: true, orderNumber: true, userId: true } },
+      createdBy: { select: { id: true, name: true, email: true } },
+    },
+  });
+}
+
+// GET /api/admin/refunds - Refund ledger: credit notes with pagination and
+// totals per currency for the whole filtered period
+router.get("/", async (req, res) => {
+  try {
+    const {
+      page = "1",
+      limit = "50",
+      search,
+      orderId,
+      sellerEntityId,
+      from,
+      to,
+    } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        {
+          creditNoteNumber: { contains: search as string, mode: "insensitive" },
+        },
+        { reason: { contains: search as string, mode: "insensitive" } },
+        {
+          order: {
+            orderNumber: { contains: search as string, mode: "insensitive" },
+          },
+        },
+      ];
+    }
+
+    if (orderId) {
+      where.orderId = parseInt(orderId as string);
+    }
+
+    if (sellerEntityId) {
+      where.sellerEntityId = parseInt(sellerEntityId as string);
+    }
+
+    if (from || to) {
+      where.issuedAt = {};
+      if (from) where.issuedAt.gte = new Date(from as string);
+      if (to) where.issuedAt.lt = new Date(to as string);
+
+      if (Object.values(where.issuedAt).some((d: any) => isNaN(d.getTime()))) {
+        return res.status(400).json({ msg: "from and to must be dates" });
+      }
+    }
+
+    const [creditNotes, total, totals] = await Promise.all([
+      prisma.creditNote.findMany({
+        where,
+        include: {
+          lines: { orderBy: { id: "asc" } },
+          invoice: { select: { id: true, invoiceNumber: true } },
+          order: { select: { id: true, orderNumber: true, userId: true } },
+          createdBy: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { issuedAt: "desc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.creditNote.count({ where }),
+      prisma.creditNote.groupBy({
+        by: ["currency"],
+        where,
+        _sum: { netAmount: true, tax: true, total: true },
+        _count: true,
+        orderBy: { currency: "asc" },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: creditNotes,
+      totals: totals.map((row) => ({
+        currency: row.currency,
+        creditNotes: row._count,
+        netAmount: row._sum.netAmount ?? 0,
+        tax: row._sum.tax ?? 0,
+        total: row._sum.total ?? 0,
+      })),
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching refunds:", error);
+    res.status(500).json({ msg: "Failed to fetch refunds" });
+  }
+});
+
+// GET /api/admin/refunds/:id - Get a single credit note
+router.get("/:id", async (req, res) => {
+  try {
+    const creditNote = await findCreditNote(parseInt(req.params.id));
+
+    if (!creditNote) {
+      return res.status(404).json({ msg: "Credit note not found" });
+    }
+
+    res.json({ success: true, data: creditNote });
+  } catch (error: any) {
+    console.error("Error fetching credit note:", error);
+    res.status(500).json({ msg: "Failed to fetch credit note" });
+  }
+});
+
+// GET /api/admin/refunds/:id/pdf - Regenerate the credit note PDF
+router.get("/:id/pdf", async (req, res) => {
+  try {
+    const creditNote = await findCreditNote(parseInt(req.params.id));
+
+    if (!creditNote) {
+      return res.status(404).json({ msg: "Credit note not found" });
+    }
+
+    const pdf = await renderInvoicePdf(creditNote.invoice, creditNote);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${creditNote.creditNoteNumber}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error: any) {
+    console.error("Error rendering credit note PDF:", error);
+    res.status(500).json({ msg: "Failed to render credit note" });
+  }
+});
+
+// GET /api/admin/refunds/:id/xml - Regenerate the UBL credit note XML
+router.get("/:id/xml", async (req, res) => {
+  try {
+    const creditNote = await findCreditNote(parseInt(req.params.id));
+
+    if (!creditNote) {
+      return res.status(404).json({ msg: "Credit note not found" });
+    }
+
+    res.setHeader("Content-Type", "application/xml; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${creditNote.creditNoteNumber}.xml"`
+    );
+    res.send(renderInvoiceXml(creditNote.invoice, creditNote));
+  } catch (error: any) {
+    console.error("Error rendering credit note XML:", error);
+    res.status(500).json({ msg: "Failed to render credit note" });
+  }
+});
+
+// POST /api/admin/refunds - Refund order lines and issue a credit note
+// Body: { orderId, reason, lines: [{ orderItemId, amount? }] }
+// Without an amount the rest of the line is refunded
+router.post("/", async (req, res) => {
+  try {
+    const { orderId, reason, lines } = req.body;
+
+    if (!Number.isInteger(orderId)) {
+      return res.status(400).json({ msg: "orderId is required" });
+    }
+
+    if (!reason || typeof reason !== "string" || !reason.trim()) {
+      return res.status(400).json({ msg: "reason is required" });
+    }
+
+    if (
+      !Array.isArray(lines) ||
+      lines.length === 0 ||
+      !lines.every(
+        (line: any) =>
+          Number.isInteger(line?.orderItemId) &&
+          (line.amount === undefined || Number.isInteger(line.amount))
+      )
+    ) {
+      return res.status(400).json({
+        msg: "lines must be a non-empty array of { orderItemId, amount? }",
+      });
+    }
+
+    const creditNote = await refundOrderLines({
+      orderId,
+      lines: lines.map((line: any) => ({
+        orderItemId: line.orderItemId,
+        amount: line.amount,
+      })),
+      reason: reason.trim(),
+      adminId: req.user!.id,
+    });
+
+    res.status(201).json({ success: true, data: creditNote });
+  } catch (error: any) {
+    console.error("Error refunding order:", error);
+    if (error.message === "Order not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (
+      error.message.startsWith("Cannot refund") ||
+      error.message.startsWith("Refund amount") ||
+      error.message.startsWith("Order line") ||
+      error.message.startsWith("Each order line") ||
+      error.message.startsWith("No captured payment") ||
+      error.message.startsWith("No seller entity") ||
+      error.message.startsWith("Reports from")
+    ) {
+      res.status(400).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to refund order" });
+    }
+  }
+});
+
+// POST /api/admin/refunds/:id/retry - Send a PENDING or FAILED provider
+// refund again; the provider never refunds a credit note twice
+router.post("/:id/retry", async (req, res) => {
+  try {
+    const creditNote = await sendCreditNoteRefund(parseInt(req.params.id));
+
+    res.json({ success: true, data: creditNote });
+  } catch (error: any) {
+    console.error("Error retrying refund:", error);
+    if (error.message === "Credit note not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (error.message === "Credit note has no pending provider refund") {
+      res.status(409).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to retry refund" });
+    }
+  }
+});
+
+export default router;
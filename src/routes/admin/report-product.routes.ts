@@ -0,0 +1,445 @@
+import { Router } from "express";
+import multer from "multer";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import {
+  deleteReportProductSample,
+  getReportProductSample,
+  rolloutReportProduct,
+  setReportProductSample,
+  updateReportProduct,
+  withdrawReportProduct,
+} from "../../services/report-product.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+// Configure multer for sample PDF uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === "application/pdf") {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only PDF files are allowed."));
+    }
+  },
+});
+
+const TURNAROUND_ERROR =
+  "turnaroundMinDays and turnaroundMaxDays must be whole business days with turnaroundMinDays <= turnaroundMaxDays";
+
+function isValidTurnaround(minDays: unknown, maxDays: unknown): boolean {
+  return (
+    Number.isInteger(minDays) &&
+    Number.isInteger(maxDays) &&
+    (minDays as number) >= 0 &&
+    (minDays as number) <= (maxDays as number)
+  );
+}
+
+function isValidSections(sections: unknown): sections is string[] {
+  return (
+    Array.isArray(sections) &&
+    sections.every((s) => typeof s === "string" && s.trim())
+  );
+}
+
+// GET /api/admin/report-products - Get all report products with pagination
+router.get("/", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", search, isActive } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search as string, mode: "insensitive" } },
+        { description: { contains: search as string, mode: "insensitive" } },
+      ];
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive === "true";
+    }
+
+    const [products, total] = await Promise.all([
+      prisma.reportProduct.findMany({
+        where,
+        include: {
+          reports: {
+            select: { id: true, countryCode: true, isActive: true },
+            orderBy: { countryCode: "asc" },
+          },
+        },
+        orderBy: { name: "asc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.reportProduct.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: products,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching report products:", error);
+    res.status(500).json({ msg: "Failed to fetch report products" });
+  }
+});
+
+// GET /api/admin/report-products/:id - Get a product with its offerings
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const product = await prisma.reportProduct.findUnique({
+      where: { id },
+      include: {
+        reports: {
+          include: {
+            country: { select: { code: true, nameEn: true, nameAr: true } },
+            languages: { orderBy: { id: "asc" } },
+          },
+          orderBy: { countryCode: "asc" },
+        },
+      },
+    });
+
+    if (!product) {
+      return res.status(404).json({ msg: "Report product not found" });
+    }
+
+    res.json({ success: true, data: product });
+  } catch (error: any) {
+    console.error("Error fetching report product:", error);
+    res.status(500).json({ msg: "Failed to fetch report product" });
+  }
+});
+
+// POST /api/admin/report-products - Create a report product
+router.post("/", async (req, res) => {
+  try {
+    const {
+      name,
+      description,
+      sections,
+      turnaroundMinDays,
+      turnaroundMaxDays,
+      isActive,
+    } = req.body;
+
+    // Validation
+    if (
+      !name ||
+      !description ||
+      turnaroundMinDays === undefined ||
+      turnaroundMaxDays === undefined
+    ) {
+      return res.status(400).json({
+        msg: "Missing required fields: name, description, turnaroundMinDays, turnaroundMaxDays",
+      });
+    }
+
+    if (!isValidTurnaround(turnaroundMinDays, turnaroundMaxDays)) {
+      return res.status(400).json({ msg: TURNAROUND_ERROR });
+    }
+
+    if (sections !== undefined && !isValidSections(sections)) {
+      return res
+        .status(400)
+        .json({ msg: "sections must be an array of section titles" });
+    }
+
+    const product = await prisma.reportProduct.create({
+      data: {
+        name,
+        description,
+        sections: sections?.map((s: string) => s.trim()),
+        turnaroundMinDays,
+        turnaroundMaxDays,
+        isActive: isActive !== undefined ? isActive : true,
+      },
+    });
+
+    res.status(201).json({ success: true, data: product });
+  } catch (error: any) {
+    console.error("Error creating report product:", error);
+    if (error.code === "P2002") {
+      res.status(400).json({ msg: "A report product with this name exists" });
+    } else {
+      res.status(500).json({ msg: "Failed to create report product" });
+    }
+  }
+});
+
+// PUT /api/admin/report-products/:id - Update a product
+// Name and description are copied to every offering; the turnaround to
+// offerings that had the product's turnaround
+router.put("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const {
+      name,
+      description,
+      sections,
+      turnaroundMinDays,
+      turnaroundMaxDays,
+      isActive,
+    } = req.body;
+
+    const updateData: any = {};
+
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+    if (sections !== undefined) {
+      if (!isValidSections(sections)) {
+        return res
+          .status(400)
+          .json({ msg: "sections must be an array of section titles" });
+      }
+      updateData.sections = sections.map((s) => s.trim());
+    }
+    if (turnaroundMinDays !== undefined || turnaroundMaxDays !== undefined) {
+      const current = await prisma.reportProduct.findUnique({
+        where: { id },
+        select: { turnaroundMinDays: true, turnaroundMaxDays: true },
+      });
+
+      if (!current) {
+        return res.status(404).json({ msg: "Report product not found" });
+      }
+
+      const minDays = turnaroundMinDays ?? current.turnaroundMinDays;
+      const maxDays = turnaroundMaxDays ?? current.turnaroundMaxDays;
+
+      if (!isValidTurnaround(minDays, maxDays)) {
+        return res.status(400).json({ msg: TURNAROUND_ERROR });
+      }
+      updateData.turnaroundMinDays = minDays;
+      updateData.turnaroundMaxDays = maxDays;
+    }
+    if (isActive !== undefined) updateData.isActive = isActive;
+
+    const product = await updateReportProduct(id, updateData);
+
+    res.json({ success: true, data: product });
+  } catch (error: any) {
+    console.error("Error updating report product:", error);
+    if (error.message === "Report product not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (error.code === "P2002") {
+      res.status(400).json({ msg: "A report product with this name exists" });
+    } else {
+      res.status(500).json({ msg: "Failed to update report product" });
+    }
+  }
+});
+
+// DELETE /api/admin/report-products/:id - Delete a product without offerings
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const offeringsCount = await prisma.report.count({
+      where: { productId: id },
+    });
+
+    if (offeringsCount > 0) {
+      return res.status(400).json({
+        msg: `Cannot delete report product: it is offered in ${offeringsCount} country(ies)`,
+      });
+    }
+
+    await deleteReportProductSample(id);
+    await prisma.reportProduct.delete({
+      where: { id },
+    });
+
+    res.json({ success: true, message: "Report product deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting report product:", error);
+    if (
+      error.code === "P2025" ||
+      error.message === "Report product not found"
+    ) {
+      res.status(404).json({ msg: "Report product not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete report product" });
+    }
+  }
+});
+
+// POST /api/admin/report-products/:id/rollout - Offer a product in several
+// countries at once, or change the price/turnaround of existing offerings
+// Body: { offerings: [{ countryCode, price, currency?, turnaroundMinDays?,
+// turnaroundMaxDays?, isActive? }] }
+router.post("/:id/rollout", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { offerings } = req.body;
+
+    if (
+      !Array.isArray(offerings) ||
+      offerings.length === 0 ||
+      !offerings.every(
+        (o: any) => typeof o?.countryCode === "string" && o.price !== undefined
+      )
+    ) {
+      return res.status(400).json({
+        msg: "offerings must be a non-empty array of { countryCode, price, currency?, turnaroundMinDays?, turnaroundMaxDays?, isActive? }",
+      });
+    }
+
+    const result = await rolloutReportProduct(
+      id,
+      offerings.map((o: any) => ({
+        countryCode: o.countryCode,
+        price: o.price,
+        currency: o.currency,
+        turnaroundMinDays: o.turnaroundMinDays,
+        turnaroundMaxDays: o.turnaroundMaxDays,
+        isActive: o.isActive,
+      }))
+    );
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Error rolling out report product:", error);
+    if (error.message === "Report product not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (
+      error.message.startsWith("Each country") ||
+      error.message.startsWith("Invalid country code") ||
+      error.message.startsWith("Price for") ||
+      error.message.startsWith("Unsupported currency") ||
+      error.message.startsWith("Turnaround for")
+    ) {
+      res.status(400).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to roll out report product" });
+    }
+  }
+});
+
+// POST /api/admin/report-products/:id/withdraw - Deactivate the offerings
+// in some countries
+// Body: { countryCodes? } (all countries when omitted)
+router.post("/:id/withdraw", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { countryCodes } = req.body;
+
+    if (
+      countryCodes !== undefined &&
+      (!Array.isArray(countryCodes) ||
+        !countryCodes.every((c: unknown) => typeof c === "string"))
+    ) {
+      return res
+        .status(400)
+        .json({ msg: "countryCodes must be an array of country codes" });
+    }
+
+    const product = await prisma.reportProduct.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!product) {
+      return res.status(404).json({ msg: "Report product not found" });
+    }
+
+    const deactivated = await withdrawReportProduct(id, countryCodes);
+
+    res.json({ success: true, data: { deactivated } });
+  } catch (error: any) {
+    console.error("Error withdrawing report product:", error);
+    res.status(500).json({ msg: "Failed to withdraw report product" });
+  }
+});
+
+// GET /api/admin/report-products/:id/sample - Download the sample PDF
+router.get("/:id/sample", async (req, res) => {
+  try {
+    const sample = await getReportProductSample(parseInt(req.params.id));
+
+    if (!sample) {
+      return res.status(404).json({ msg: "Report product has no sample" });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${encodeURIComponent(sample.fileName)}`
+    );
+    res.send(sample.body);
+  } catch (error: any) {
+    console.error("Error fetching report product sample:", error);
+    if (
+      error.message === "Report product not found" ||
+      error.message === "Stored file not found"
+    ) {
+      res.status(404).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to fetch sample" });
+    }
+  }
+});
+
+// PUT /api/admin/report-products/:id/sample - Upload or replace the sample
+// Multipart form: file (PDF)
+router.put("/:id/sample", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ msg: "No file uploaded" });
+    }
+
+    const product = await setReportProductSample(
+      parseInt(req.params.id),
+      req.file.originalname,
+      req.file.buffer
+    );
+
+    res.json({ success: true, data: product });
+  } catch (error: any) {
+    console.error("Error uploading report product sample:", error);
+    if (error.message === "Report product not found") {
+      res.status(404).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to upload sample" });
+    }
+  }
+});
+
+// DELETE /api/admin/report-products/:id/sample - Remove the sample
+router.delete("/:id/sample", async (req, res) => {
+  try {
+    const product = await deleteReportProductSample(parseInt(req.params.id));
+
+    res.json({ success: true, data: product });
+  } catch (error: any) {
+    console.error("Error deleting report product sample:", error);
+    if (error.message === "Report product not found") {
+      res.status(404).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to delete sample" });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,356 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import {
+  authenticate,
+  requireAdmin,
+  requireStaff,
+} from "../../middleware/auth";
+import {
+  REPORT_REQUEST_STATUSES,
+  isReportRequestStatus,
+  addReportRequestNote,
+  assignReportRequest,
+  getSlaAtRiskHours,
+  getSlaState,
+  updateReportRequestStatus,
+} from "../../services/report-request.service";
+
+const router = Router();
+
+// All routes require staff (research team) or admin authentication
+router.use(authenticate);
+router.use(requireStaff);
+
+const orderItemSelect = {
+  reportName: true,
+  turnaroundMinDays: true,
+  turnaroundMaxDays: true,
+  companyNameEn: true,
+  companyNameAr: true,
+  companyRegistrationNumber: true,
+  language: true,
+  quantity: true,
+};
+
+// GET /api/admin/report-requests - Fulfillment queue with pagination
+// Filters: status (comma separated), countryCode, reportId, assigneeId
+// ("me", "unassigned" or a user ID) and search (order number or company)
+router.get("/", async (req, res) => {
+  try {
+    const {
+      page = "1",
+      limit = "50",
+      search,
+      status,
+      countryCode,
+      reportId,
+      assigneeId,
+    } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = {};
+
+    if (status) {
+      const statuses = (status as string).toUpperCase().split(",");
+
+      if (!statuses.every(isReportRequestStatus)) {
+        return res.status(400).json({
+          msg: `status must be one of ${REPORT_REQUEST_STATUSES.join(", ")}`,
+        });
+      }
+
+      where.status = { in: statuses };
+    }
+
+    if (countryCode) {
+      where.countryCode = (countryCode as string).toUpperCase();
+    }
+
+    if (reportId) {
+      where.reportId = parseInt(reportId as string);
+    }
+
+    if (assigneeId === "me") {
+      where.assigneeId = req.user!.id;
+    } else if (assigneeId === "unassigned") {
+      where.assigneeId = null;
+    } else if (assigneeId) {
+      where.assigneeId = parseInt(assigneeId as string);
+    }
+
+    if (search) {
+      where.OR = [
+        {
+          order: {
+            orderNumber: { contains: search as string, mode: "insensitive" },
+          },
+        },
+        {
+          orderItem: {
+            companyNameEn: { contains: search as string, mode: "insensitive" },
+          },
+        },
+        {
+          orderItem: {
+            companyNameAr: { contains: search as string, mode: "insensitive" },
+          },
+        },
+      ];
+    }
+
+    const [reportRequests, total] = await Promise.all([
+      prisma.reportRequest.findMany({
+        where,
+        include: {
+          orderItem: { select: orderItemSelect },
+          order: { select: { id: true, orderNumber: true, userId: true } },
+          assignee: { select: { id: true, name: true, email: true } },
+          _count: { select: { notes: true } },
+        },
+        // Oldest first: the queue is worked in order of purchase
+        orderBy: { createdAt: "asc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.reportRequest.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: reportRequests,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching report requests:", error);
+    res.status(500).json({ msg: "Failed to fetch report requests" });
+  }
+});
+
+// GET /api/admin/report-requests/sla - Open requests whose due date is at
+// risk (within SLA_AT_RISK_HOURS) or already breached, most overdue first
+// Filters: state (AT_RISK or BREACHED), countryCode, assigneeId
+router.get("/sla", async (req, res) => {
+  try {
+    const { page = "1", limit = "50", countryCode, assigneeId } = req.query;
+    const state = req.query.state
+      ? (req.query.state as string).toUpperCase()
+      : undefined;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    if (state && state !== "AT_RISK" && state !== "BREACHED") {
+      return res
+        .status(400)
+        .json({ msg: "state must be one of AT_RISK, BREACHED" });
+    }
+
+    const now = new Date();
+    const atRiskHours = getSlaAtRiskHours();
+    const atRiskFrom = new Date(now.getTime() + atRiskHours * 60 * 60 * 1000);
+
+    const where: any = {
+      status: { notIn: ["DELIVERED", "CANCELLED"] },
+      dueAt:
+        state === "BREACHED"
+          ? { lte: now }
+          : state === "AT_RISK"
+            ? { gt: now, lte: atRiskFrom }
+            : { lte: atRiskFrom },
+    };
+
+    if (countryCode) {
+      where.countryCode = (countryCode as string).toUpperCase();
+    }
+
+    if (assigneeId === "me") {
+      where.assigneeId = req.user!.id;
+    } else if (assigneeId === "unassigned") {
+      where.assigneeId = null;
+    } else if (assigneeId) {
+      where.assigneeId = parseInt(assigneeId as string);
+    }
+
+    const [reportRequests, total, breached] = await Promise.all([
+      prisma.reportRequest.findMany({
+        where,
+        include: {
+          orderItem: { select: orderItemSelect },
+          order: { select: { id: true, orderNumber: true, userId: true } },
+          assignee: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { dueAt: "asc" },
+        skip,
+        take: limitNum,
+      }),
+      prisma.reportRequest.count({ where }),
+      prisma.reportRequest.count({
+        where: { ...where, dueAt: { ...where.dueAt, lte: now } },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: reportRequests.map((request) => ({
+        ...request,
+        slaState: getSlaState(request.dueAt, now, atRiskHours),
+      })),
+      summary: { atRisk: total - breached, breached, atRiskHours },
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching report request SLAs:", error);
+    res.status(500).json({ msg: "Failed to fetch report request SLAs" });
+  }
+});
+
+// GET /api/admin/report-requests/:id - Get a single report request with its notes
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const reportRequest = await prisma.reportRequest.findUnique({
+      where: { id },
+      include: {
+        orderItem: { select: orderItemSelect },
+        order: {
+          select: {
+            id: true,
+            orderNumber: true,
+            user: { select: { id: true, name: true, email: true } },
+          },
+        },
+        assignee: { select: { id: true, name: true, email: true } },
+        notes: {
+          include: {
+            author: { select: { id: true, name: true, email: true } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!reportRequest) {
+      return res.status(404).json({ msg: "Report request not found" });
+    }
+
+    res.json({ success: true, data: reportRequest });
+  } catch (error: any) {
+    console.error("Error fetching report request:", error);
+    res.status(500).json({ msg: "Failed to fetch report request" });
+  }
+});
+
+// PUT /api/admin/report-requests/:id/status - Move a request through the workflow
+// Body: { status, note? }
+router.put("/:id/status", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { note } = req.body;
+    const status =
+      typeof req.body.status === "string" ? req.body.status.toUpperCase() : null;
+
+    if (!status || !REPORT_REQUEST_STATUSES.includes(status)) {
+      return res.status(400).json({
+        msg: `status must be one of ${REPORT_REQUEST_STATUSES.join(", ")}`,
+      });
+    }
+
+    if (note !== undefined && typeof note !== "string") {
+      return res.status(400).json({ msg: "note must be a string" });
+    }
+
+    const reportRequest = await updateReportRequestStatus(
+      id,
+      status,
+      req.user!,
+      note
+    );
+
+    res.json({ success: true, data: reportRequest });
+  } catch (error: any) {
+    console.error("Error updating report request status:", error);
+    if (error.message === "Report request not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (
+      error.message === "Only admins can cancel report requests" ||
+      error.message === "Report request is assigned to another analyst" ||
+      error.message === "Report request must be assigned to you first"
+    ) {
+      res.status(403).json({ msg: error.message });
+    } else if (
+      error.message.startsWith("Cannot change") ||
+      error.message.startsWith("Report request was changed")
+    ) {
+      res.status(409).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to update report request" });
+    }
+  }
+});
+
+// PUT /api/admin/report-requests/:id/assignee - Assign a request (admin only)
+// Body: { assigneeId } (null to unassign)
+router.put("/:id/assignee", requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { assigneeId } = req.body;
+
+    if (assigneeId !== null && !Number.isInteger(assigneeId)) {
+      return res
+        .status(400)
+        .json({ msg: "assigneeId must be a user ID or null" });
+    }
+
+    const reportRequest = await assignReportRequest(id, assigneeId);
+
+    res.json({ success: true, data: reportRequest });
+  } catch (error: any) {
+    console.error("Error assigning report request:", error);
+    if (error.message === "Report request not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (error.message === "Assignee must be a staff member") {
+      res.status(400).json({ msg: error.message });
+    } else if (error.message.startsWith("Report request is")) {
+      res.status(409).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to assign report request" });
+    }
+  }
+});
+
+// POST /api/admin/report-requests/:id/notes - Add an internal note
+router.post("/:id/notes", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { body } = req.body;
+
+    if (!body || typeof body !== "string" || !body.trim()) {
+      return res.status(400).json({ msg: "body is required" });
+    }
+
+    const note = await addReportRequestNote(id, req.user!.id, body.trim());
+
+    res.status(201).json({ success: true, data: note });
+  } catch (error: any) {
+    console.error("Error adding report request note:", error);
+    if (error.message === "Report request not found") {
+      res.status(404).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to add note" });
+    }
+  }
+});
+
+export default router;
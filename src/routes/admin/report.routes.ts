@@ -1,6 +1,21 @@
 import { Router } from "express";
+import multer from "multer";
 import { prisma } from "../../config/db";
 import { authenticate, requireAdmin } from "../../middleware/auth";
+import {
+  getDefaultCurrency,
+  parseCurrency,
+} from "../../services/currency.service";
+import {
+  DEFAULT_REPORT_LANGUAGE,
+  REPORT_LANGUAGES,
+  parseLanguageOptions,
+} from "../../services/report-language.service";
+import {
+  SAMPLE_PAGE_CONTENT_TYPES,
+  deleteReportSamplePages,
+  setReportSamplePages,
+} from "../../services/report-sample.service";
 
 const router = Router();
 
@@ -8,6 +23,46 @@ const router = Router();
 router.use(authenticate);
 router.use(requireAdmin);
 
+// Configure multer for sample page uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit per page
+    files: 20,
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype in SAMPLE_PAGE_CONTENT_TYPES) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only PNG and JPEG images are allowed."));
+    }
+  },
+});
+
+const TURNAROUND_ERROR =
+  "turnaroundMinDays and turnaroundMaxDays must be whole business days with turnaroundMinDays <= turnaroundMaxDays";
+
+const TABLE_OF_CONTENTS_ERROR =
+  "tableOfContents must be an array of section titles";
+
+const LANGUAGES_ERROR = `languages must be a non-empty array of { language (${REPORT_LANGUAGES.join(", ")}), surcharge?, extraDays? } with each language once`;
+
+function isValidTableOfContents(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((section) => typeof section === "string" && section.trim())
+  );
+}
+
+function isValidTurnaround(minDays: unknown, maxDays: unknown): boolean {
+  return (
+    Number.isInteger(minDays) &&
+    Number.isInteger(maxDays) &&
+    (minDays as number) >= 0 &&
+    (minDays as number) <= (maxDays as number)
+  );
+}
+
 // GET /api/admin/reports - Get all reports with pagination
 router.get("/", async (req, res) => {
   try {
@@ -44,6 +99,8 @@ router.get("/", async (req, res) => {
         where,
         include: {
           country: true,
+          languages: { orderBy: { id: "asc" } },
+          product: { select: { id: true, name: true } },
         },
         orderBy: { createdAt: "desc" },
         skip,
@@ -76,6 +133,9 @@ router.get("/:id", async (req, res) => {
       where: { id },
       include: {
         country: true,
+        languages: { orderBy: { id: "asc" } },
+        product: { select: { id: true, name: true } },
+        samplePages: { orderBy: { position: "asc" } },
       },
     });
 
@@ -91,24 +151,58 @@ router.get("/:id", async (req, res) => {
 });
 
 // POST /api/admin/reports - Create a new report
+// price is an integer in minor units of currency (e.g. cents)
 router.post("/", async (req, res) => {
   try {
-    const { name, description, isActive, turnaround, price, countryCode } =
-      req.body;
+    const {
+      name,
+      description,
+      isActive,
+      isDefault,
+      tableOfContents,
+      turnaroundMinDays,
+      turnaroundMaxDays,
+      price,
+      currency,
+      countryCode,
+      languages,
+    } = req.body;
 
     // Validation
     if (
       !name ||
       !description ||
-      !turnaround ||
+      turnaroundMinDays === undefined ||
+      turnaroundMaxDays === undefined ||
       price === undefined ||
       !countryCode
     ) {
       return res.status(400).json({
-        msg: "Missing required fields: name, description, turnaround, price, countryCode",
+        msg: "Missing required fields: name, description, turnaroundMinDays, turnaroundMaxDays, price, countryCode",
       });
     }
 
+    if (!isValidTurnaround(turnaroundMinDays, turnaroundMaxDays)) {
+      return res.status(400).json({ msg: TURNAROUND_ERROR });
+    }
+
+    if (
+      tableOfContents !== undefined &&
+      !isValidTableOfContents(tableOfContents)
+    ) {
+      return res.status(400).json({ msg: TABLE_OF_CONTENTS_ERROR });
+    }
+
+    // Offered in the default language only unless told otherwise
+    const languageOptions =
+      languages !== undefined
+        ? parseLanguageOptions(languages)
+        : [{ language: DEFAULT_REPORT_LANGUAGE, surcharge: 0, extraDays: 0 }];
+
+    if (!languageOptions) {
+      return res.status(400).json({ msg: LANGUAGES_ERROR });
+    }
+
     // Validate country exists
     const country = await prisma.country.findUnique({
       where: { code: countryCode },
@@ -118,22 +212,36 @@ router.post("/", async (req, res) => {
       return res.status(400).json({ msg: "Invalid country code" });
     }
 
-    // Validate price is a positive number
-    if (typeof price !== "number" || price < 0) {
-      return res.status(400).json({ msg: "Price must be a positive number" });
+    // Validate price is a positive integer (minor units)
+    if (!Number.isInteger(price) || price < 0) {
+      return res
+        .status(400)
+        .json({ msg: "Price must be a positive integer in minor units" });
+    }
+
+    const reportCurrency =
+      currency !== undefined ? parseCurrency(currency) : getDefaultCurrency();
+    if (!reportCurrency) {
+      return res.status(400).json({ msg: "Unsupported currency" });
     }
 
     const report = await prisma.report.create({
       data: {
         name,
         description,
-        turnaround,
+        turnaroundMinDays,
+        turnaroundMaxDays,
         price,
+        currency: reportCurrency,
         countryCode,
         isActive: isActive !== undefined ? isActive : true,
+        isDefault: isDefault !== undefined ? isDefault : false,
+        tableOfContents: tableOfContents?.map((s: string) => s.trim()),
+        languages: { create: languageOptions },
       },
       include: {
         country: true,
+        languages: { orderBy: { id: "asc" } },
       },
     });
 
@@ -148,21 +256,77 @@ router.post("/", async (req, res) => {
 router.put("/:id", async (req, res) => {
   try {
     const id = parseInt(req.params.id);
-    const { name, description, isActive, turnaround, price, countryCode } =
-      req.body;
+    const {
+      name,
+      description,
+      isActive,
+      isDefault,
+      tableOfContents,
+      turnaroundMinDays,
+      turnaroundMaxDays,
+      price,
+      currency,
+      countryCode,
+      languages,
+    } = req.body;
 
     const updateData: any = {};
 
     if (name !== undefined) updateData.name = name;
     if (description !== undefined) updateData.description = description;
-    if (turnaround !== undefined) updateData.turnaround = turnaround;
+    if (turnaroundMinDays !== undefined || turnaroundMaxDays !== undefined) {
+      // Either bound can change alone; check it against the current other one
+      const current = await prisma.report.findUnique({
+        where: { id },
+        select: { turnaroundMinDays: true, turnaroundMaxDays: true },
+      });
+
+      if (!current) {
+        return res.status(404).json({ msg: "Report not found" });
+      }
+
+      const minDays = turnaroundMinDays ?? current.turnaroundMinDays;
+      const maxDays = turnaroundMaxDays ?? current.turnaroundMaxDays;
+
+      if (!isValidTurnaround(minDays, maxDays)) {
+        return res.status(400).json({ msg: TURNAROUND_ERROR });
+      }
+      updateData.turnaroundMinDays = minDays;
+      updateData.turnaroundMaxDays = maxDays;
+    }
     if (price !== undefined) {
-      if (typeof price !== "number" || price < 0) {
-        return res.status(400).json({ msg: "Price must be a positive number" });
+      if (!Number.isInteger(price) || price < 0) {
+        return res
+          .status(400)
+          .json({ msg: "Price must be a positive integer in minor units" });
       }
       updateData.price = price;
     }
+    if (currency !== undefined) {
+      const reportCurrency = parseCurrency(currency);
+      if (!reportCurrency) {
+        return res.status(400).json({ msg: "Unsupported currency" });
+      }
+      updateData.currency = reportCurrency;
+    }
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (isDefault !== undefined) updateData.isDefault = isDefault;
+    if (tableOfContents !== undefined) {
+      // An empty list falls back to the product's sections
+      if (!isValidTableOfContents(tableOfContents)) {
+        return res.status(400).json({ msg: TABLE_OF_CONTENTS_ERROR });
+      }
+      updateData.tableOfContents = tableOfContents.map((s) => s.trim());
+    }
+    if (languages !== undefined) {
+      // Replaces the whole set; carts holding a dropped language get an issue
+      const languageOptions = parseLanguageOptions(languages);
+
+      if (!languageOptions) {
+        return res.status(400).json({ msg: LANGUAGES_ERROR });
+      }
+      updateData.languages = { deleteMany: {}, create: languageOptions };
+    }
     if (countryCode !== undefined) {
       // Validate country exists
       const country = await prisma.country.findUnique({
@@ -180,6 +344,7 @@ router.put("/:id", async (req, res) => {
       data: updateData,
       include: {
         country: true,
+        languages: { orderBy: { id: "asc" } },
       },
     });
 
@@ -219,6 +384,8 @@ router.delete("/:id", async (req, res) => {
       });
     }
 
+    // Stored page files don't go away with the rows
+    await deleteReportSamplePages(id);
     await prisma.report.delete({
       where: { id },
     });
@@ -234,4 +401,44 @@ router.delete("/:id", async (req, res) => {
   }
 });
 
+// PUT /api/admin/reports/:id/sample - Replace the sample pages of a report
+// Multipart form: pages (PNG or JPEG images, in order, already redacted)
+router.put("/:id/sample", upload.array("pages"), async (req, res) => {
+  try {
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    if (files.length === 0) {
+      return res.status(400).json({ msg: "No pages uploaded" });
+    }
+
+    const pages = await setReportSamplePages(
+      parseInt(req.params.id),
+      files.map((file) => ({ contentType: file.mimetype, body: file.buffer }))
+    );
+
+    res.json({ success: true, data: pages });
+  } catch (error: any) {
+    console.error("Error uploading report sample:", error);
+    if (error.message === "Report not found") {
+      res.status(404).json({ msg: error.message });
+    } else if (error.message.startsWith("Sample pages must be")) {
+      res.status(400).json({ msg: error.message });
+    } else {
+      res.status(500).json({ msg: "Failed to upload sample" });
+    }
+  }
+});
+
+// DELETE /api/admin/reports/:id/sample - Remove the sample pages of a report
+router.delete("/:id/sample", async (req, res) => {
+  try {
+    const deleted = await deleteReportSamplePages(parseInt(req.params.id));
+
+    res.json({ success: true, data: { deleted } });
+  } catch (error: any) {
+    console.error("Error deleting report sample:", error);
+    res.status(500).json({ msg: "Failed to delete sample" });
+  }
+});
+
 export default router;
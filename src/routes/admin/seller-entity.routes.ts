@@ -0,0 +1,287 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+import type { Prisma, SellerEntity } from "../../../generated/prisma/client";
+import { QR_FIELD_MAX_BYTES } from "../../services/invoice.service";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+type SellerValidation =
+  | { data: Prisma.SellerEntityCreateInput; error: null }
+  | { data: null; error: string };
+
+function isRequiredString(value: unknown): value is string {
+  return typeof value === "string" && value !== "";
+}
+
+function isOptionalString(value: unknown): value is string | null {
+  return value === null || typeof value === "string";
+}
+
+function isCodeList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((code) => typeof code === "string")
+  );
+}
+
+/**
+ * Build the seller entity fields from a request body
+ * Fields missing from the body keep their current value (or the default).
+ * nextInvoiceNumber is not editable: the sequence must stay gapless
+ */
+function buildSellerData(
+  body: Record<string, unknown>,
+  existing: Partial<SellerEntity> = {}
+) {
+  const pick = (key: keyof SellerEntity, fallback: unknown = null): unknown =>
+    body[key] !== undefined ? body[key] : existing[key] ?? fallback;
+
+  const countryCode = pick("countryCode");
+  const countryCodes = pick("countryCodes", []);
+
+  return {
+    name: pick("name"),
+    nameAr: pick("nameAr"),
+    vatNumber: pick("vatNumber"),
+    crNumber: pick("crNumber"),
+    address: pick("address"),
+    addressAr: pick("addressAr"),
+    city: pick("city"),
+    postalCode: pick("postalCode"),
+    countryCode:
+      typeof countryCode === "string" ? countryCode.toUpperCase() : countryCode,
+    email: pick("email"),
+    // Anything but a list of codes is left for validation to reject
+    countryCodes: isCodeList(countryCodes)
+      ? countryCodes.map((code) => code.toUpperCase())
+      : countryCodes,
+    isDefault: pick("isDefault", false),
+    invoicePrefix: pick("invoicePrefix"),
+    isActive: pick("isActive", true),
+  };
+}
+
+/**
+ * Validate a seller entity as it will be stored
+ * @returns The entity's fields, or an error message if the entity is invalid
+ */
+function validateSeller(
+  seller: ReturnType<typeof buildSellerData>
+): SellerValidation {
+  const invalid = (error: string): SellerValidation => ({ data: null, error });
+
+  if (!isRequiredString(seller.name)) return invalid("name is required");
+  if (!isRequiredString(seller.address)) return invalid("address is required");
+  if (!isRequiredString(seller.city)) return invalid("city is required");
+  if (!isRequiredString(seller.countryCode)) {
+    return invalid("countryCode is required");
+  }
+
+  if (
+    !isOptionalString(seller.nameAr) ||
+    !isOptionalString(seller.vatNumber) ||
+    !isOptionalString(seller.crNumber) ||
+    !isOptionalString(seller.addressAr) ||
+    !isOptionalString(seller.postalCode) ||
+    !isOptionalString(seller.email)
+  ) {
+    return invalid(
+      "nameAr, vatNumber, crNumber, addressAr, postalCode and email must be strings"
+    );
+  }
+
+  // Both go into the invoice QR code
+  for (const [field, value] of [
+    ["name", seller.name],
+    ["vatNumber", seller.vatNumber],
+  ]) {
+    if (value && Buffer.byteLength(value, "utf8") > QR_FIELD_MAX_BYTES) {
+      return invalid(
+        `${field} must be at most ${QR_FIELD_MAX_BYTES} bytes (UTF-8)`
+      );
+    }
+  }
+
+  if (
+    !isRequiredString(seller.invoicePrefix) ||
+    !/^[A-Z0-9-]+$/.test(seller.invoicePrefix)
+  ) {
+    return invalid(
+      "invoicePrefix is required (upper-case letters, digits and dashes)"
+    );
+  }
+
+  if (!isCodeList(seller.countryCodes)) {
+    return invalid("countryCodes must be an array of country codes");
+  }
+
+  if (
+    typeof seller.isDefault !== "boolean" ||
+    typeof seller.isActive !== "boolean"
+  ) {
+    return invalid("isDefault and isActive must be true or false");
+  }
+
+  return {
+    data: {
+      name: seller.name,
+      nameAr: seller.nameAr,
+      vatNumber: seller.vatNumber,
+      crNumber: seller.crNumber,
+      address: seller.address,
+      addressAr: seller.addressAr,
+      city: seller.city,
+      postalCode: seller.postalCode,
+      countryCode: seller.countryCode,
+      email: seller.email,
+      countryCodes: seller.countryCodes,
+      isDefault: seller.isDefault,
+      invoicePrefix: seller.invoicePrefix,
+      isActive: seller.isActive,
+    },
+    error: null,
+  };
+}
+
+// GET /api/admin/seller-entities - Get all seller entities
+router.get("/", async (req, res) => {
+  try {
+    const sellerEntities = await prisma.sellerEntity.findMany({
+      include: { _count: { select: { invoices: true } } },
+      orderBy: { name: "asc" },
+    });
+
+    res.json({ success: true, data: sellerEntities });
+  } catch (error: any) {
+    console.error("Error fetching seller entities:", error);
+    res.status(500).json({ msg: "Failed to fetch seller entities" });
+  }
+});
+
+// GET /api/admin/seller-entities/:id - Get a single seller entity
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const sellerEntity = await prisma.sellerEntity.findUnique({
+      where: { id },
+      include: { _count: { select: { invoices: true } } },
+    });
+
+    if (!sellerEntity) {
+      return res.status(404).json({ msg: "Seller entity not found" });
+    }
+
+    res.json({ success: true, data: sellerEntity });
+  } catch (error: any) {
+    console.error("Error fetching seller entity:", error);
+    res.status(500).json({ msg: "Failed to fetch seller entity" });
+  }
+});
+
+// POST /api/admin/seller-entities - Create a new seller entity
+router.post("/", async (req, res) => {
+  try {
+    const { data, error } = validateSeller(buildSellerData(req.body));
+
+    if (error !== null) {
+      return res.status(400).json({ msg: error });
+    }
+
+    const sellerEntity = await prisma.sellerEntity.create({ data });
+
+    res.status(201).json({ success: true, data: sellerEntity });
+  } catch (error: any) {
+    console.error("Error creating seller entity:", error);
+    if (error.code === "P2002") {
+      res.status(400).json({ msg: "Invoice prefix already exists" });
+    } else {
+      res.status(500).json({ msg: "Failed to create seller entity" });
+    }
+  }
+});
+
+// PUT /api/admin/seller-entities/:id - Update a seller entity
+// Issued invoices keep the details they were issued with
+router.put("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const existing = await prisma.sellerEntity.findUnique({
+      where: { id },
+      include: { _count: { select: { invoices: true } } },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ msg: "Seller entity not found" });
+    }
+
+    const { data, error } = validateSeller(
+      buildSellerData(req.body, existing)
+    );
+
+    if (error !== null) {
+      return res.status(400).json({ msg: error });
+    }
+
+    if (
+      existing._count.invoices > 0 &&
+      data.invoicePrefix !== existing.invoicePrefix
+    ) {
+      return res.status(400).json({
+        msg: "invoicePrefix cannot change once invoices have been issued",
+      });
+    }
+
+    const sellerEntity = await prisma.sellerEntity.update({
+      where: { id },
+      data,
+    });
+
+    res.json({ success: true, data: sellerEntity });
+  } catch (error: any) {
+    console.error("Error updating seller entity:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Seller entity not found" });
+    } else if (error.code === "P2002") {
+      res.status(400).json({ msg: "Invoice prefix already exists" });
+    } else {
+      res.status(500).json({ msg: "Failed to update seller entity" });
+    }
+  }
+});
+
+// DELETE /api/admin/seller-entities/:id - Delete a seller entity without invoices
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const invoices = await prisma.invoice.count({
+      where: { sellerEntityId: id },
+    });
+
+    if (invoices > 0) {
+      return res.status(400).json({
+        msg: "Seller entity has issued invoices and cannot be deleted; deactivate it instead",
+      });
+    }
+
+    await prisma.sellerEntity.delete({
+      where: { id },
+    });
+
+    res.json({ success: true, message: "Seller entity deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting seller entity:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Seller entity not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete seller entity" });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,244 @@
+import { Router } from "express";
+import { prisma } from "../../config/db";
+import { authenticate, requireAdmin } from "../../middleware/auth";
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * Check whether another rule for the same country overlaps the given period
+ */
+async function hasOverlappingRule(
+  countryCode: string,
+  effectiveFrom: Date,
+  effectiveTo: Date | null,
+  excludeId?: number
+): Promise<boolean> {
+  const overlapping = await prisma.taxRule.findFirst({
+    where: {
+      countryCode,
+      id: excludeId ? { not: excludeId } : undefined,
+      // Existing rule starts before the new one ends...
+      ...(effectiveTo ? { effectiveFrom: { lt: effectiveTo } } : {}),
+      // ...and ends after the new one starts
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: effectiveFrom } }],
+    },
+  });
+
+  return !!overlapping;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/admin/tax-rules - Get all tax rules
+router.get("/", async (req, res) => {
+  try {
+    const { countryCode } = req.query;
+
+    const where: any = {};
+
+    if (countryCode) {
+      where.countryCode = (countryCode as string).toUpperCase();
+    }
+
+    const taxRules = await prisma.taxRule.findMany({
+      where,
+      include: {
+        country: { select: { code: true, nameEn: true, nameAr: true } },
+      },
+      orderBy: [{ countryCode: "asc" }, { effectiveFrom: "desc" }],
+    });
+
+    res.json({ success: true, data: taxRules });
+  } catch (error: any) {
+    console.error("Error fetching tax rules:", error);
+    res.status(500).json({ msg: "Failed to fetch tax rules" });
+  }
+});
+
+// GET /api/admin/tax-rules/:id - Get a single tax rule
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const taxRule = await prisma.taxRule.findUnique({
+      where: { id },
+      include: { country: true },
+    });
+
+    if (!taxRule) {
+      return res.status(404).json({ msg: "Tax rule not found" });
+    }
+
+    res.json({ success: true, data: taxRule });
+  } catch (error: any) {
+    console.error("Error fetching tax rule:", error);
+    res.status(500).json({ msg: "Failed to fetch tax rule" });
+  }
+});
+
+// POST /api/admin/tax-rules - Create a new tax rule
+router.post("/", async (req, res) => {
+  try {
+    const { countryCode, name, rate, isInclusive, effectiveFrom, effectiveTo } =
+      req.body;
+
+    // Validation
+    if (!countryCode || !name || rate === undefined || !effectiveFrom) {
+      return res.status(400).json({
+        msg: "Missing required fields: countryCode, name, rate, effectiveFrom",
+      });
+    }
+
+    if (typeof rate !== "number" || rate < 0 || rate >= 1) {
+      return res.status(400).json({
+        msg: "Rate must be a fraction between 0 and 1 (e.g. 0.05 for 5%)",
+      });
+    }
+
+    const from = parseDate(effectiveFrom);
+    const to = parseDate(effectiveTo);
+
+    if (!from || (effectiveTo && !to)) {
+      return res.status(400).json({ msg: "Invalid effective dates" });
+    }
+
+    if (to && to <= from) {
+      return res
+        .status(400)
+        .json({ msg: "effectiveTo must be after effectiveFrom" });
+    }
+
+    const code = countryCode.toUpperCase();
+
+    // Validate country exists
+    const country = await prisma.country.findUnique({
+      where: { code },
+    });
+
+    if (!country) {
+      return res.status(400).json({ msg: "Invalid country code" });
+    }
+
+    if (await hasOverlappingRule(code, from, to)) {
+      return res.status(400).json({
+        msg: "Another tax rule for this country overlaps the given period",
+      });
+    }
+
+    const taxRule = await prisma.taxRule.create({
+      data: {
+        countryCode: code,
+        name,
+        rate,
+        isInclusive: isInclusive !== undefined ? isInclusive : false,
+        effectiveFrom: from,
+        effectiveTo: to,
+      },
+      include: { country: true },
+    });
+
+    res.status(201).json({ success: true, data: taxRule });
+  } catch (error: any) {
+    console.error("Error creating tax rule:", error);
+    res.status(500).json({ msg: "Failed to create tax rule" });
+  }
+});
+
+// PUT /api/admin/tax-rules/:id - Update a tax rule
+router.put("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { name, rate, isInclusive, effectiveFrom, effectiveTo } = req.body;
+
+    const existing = await prisma.taxRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ msg: "Tax rule not found" });
+    }
+
+    const updateData: any = {};
+
+    if (name !== undefined) updateData.name = name;
+    if (rate !== undefined) {
+      if (typeof rate !== "number" || rate < 0 || rate >= 1) {
+        return res.status(400).json({
+          msg: "Rate must be a fraction between 0 and 1 (e.g. 0.05 for 5%)",
+        });
+      }
+      updateData.rate = rate;
+    }
+    if (isInclusive !== undefined) updateData.isInclusive = isInclusive;
+
+    const from =
+      effectiveFrom !== undefined
+        ? parseDate(effectiveFrom)
+        : existing.effectiveFrom;
+    const to =
+      effectiveTo !== undefined ? parseDate(effectiveTo) : existing.effectiveTo;
+
+    if (!from || (effectiveTo && !to)) {
+      return res.status(400).json({ msg: "Invalid effective dates" });
+    }
+
+    if (to && to <= from) {
+      return res
+        .status(400)
+        .json({ msg: "effectiveTo must be after effectiveFrom" });
+    }
+
+    if (await hasOverlappingRule(existing.countryCode, from, to, id)) {
+      return res.status(400).json({
+        msg: "Another tax rule for this country overlaps the given period",
+      });
+    }
+
+    updateData.effectiveFrom = from;
+    updateData.effectiveTo = to;
+
+    const taxRule = await prisma.taxRule.update({
+      where: { id },
+      data: updateData,
+      include: { country: true },
+    });
+
+    res.json({ success: true, data: taxRule });
+  } catch (error: any) {
+    console.error("Error updating tax rule:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Tax rule not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to update tax rule" });
+    }
+  }
+});
+
+// DELETE /api/admin/tax-rules/:id - Delete a tax rule
+router.delete("/:id", async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    await prisma.taxRule.delete({
+      where: { id },
+    });
+
+    res.json({ success: true, message: "Tax rule deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting tax rule:", error);
+    if (error.code === "P2025") {
+      res.status(404).json({ msg: "Tax rule not found" });
+    } else {
+      res.status(500).json({ msg: "Failed to delete tax rule" });
+    }
+  }
+});
+
+export default router;
@@ -208,6 +208,17 @@ router.delete("/:id", async (req, res) => {
   try {
     const id = parseInt(req.params.id);
 
+    // Orders are kept for accounting, so users who placed any cannot be deleted
+    const ordersCount = await prisma.order.count({
+      where: { userId: id },
+    });
+
+    if (ordersCount > 0) {
+      return res.status(400).json({
+        error: `Cannot delete user: ${ordersCount} order(s) belong to this user`,
+      });
+    }
+
     await prisma.user.delete({
       where: { id },
     });
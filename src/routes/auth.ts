@@ -17,6 +17,11 @@ import {
   getUserAgent,
 } from "../utils/security";
 import { sendPasswordResetEmail } from "../services/email.service";
+import {
+  GUEST_CART_COOKIE,
+  mergeGuestCart,
+  verifyGuestCartToken,
+} from "../services/guest-cart.service";
 import { generatePasswordSetupToken } from "../utils/jwt";
 import {
   loginRateLimit,
@@ -235,6 +240,26 @@ router.post("/login", loginRateLimit, async (req: Request, res: Response) => {
     // });
     res.cookie("refreshToken", refreshToken, cookieOptions);
 
+    // Move anything added to the cart before login into the user's cart
+    const guestCartToken = req.cookies?.[GUEST_CART_COOKIE];
+    if (guestCartToken) {
+      const guestId = verifyGuestCartToken(guestCartToken);
+
+      if (guestId) {
+        try {
+          await mergeGuestCart(guestId, user.id);
+        } catch (error) {
+          // Don't fail the login; the guest cart stays until it expires
+          console.error("Failed to merge guest cart:", error);
+        }
+      }
+
+      res.clearCookie(GUEST_CART_COOKIE, {
+        path: "/",
+        domain: process.env.COOKIE_DOMAIN || undefined,
+      });
+    }
+
     // Return tokens (also in response body for clients that don't use cookies)
     res.json({
       message: "Login successful",
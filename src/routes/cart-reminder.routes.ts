@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { unsubscribeFromCartReminders } from "../services/abandoned-cart.service.js";
+
+const router = Router();
+
+/**
+ * Unsubscribe from abandoned cart reminder emails
+ * Public endpoint - the signed token from the email identifies the user
+ */
+router.post("/unsubscribe", async (req, res) => {
+  try {
+    const token = req.body.token || req.query.token;
+
+    if (!token || typeof token !== "string") {
+      return res.status(400).json({
+        error: "Token is required",
+        code: "MISSING_TOKEN",
+      });
+    }
+
+    const unsubscribed = await unsubscribeFromCartReminders(token);
+
+    if (!unsubscribed) {
+      return res.status(400).json({
+        error: "Invalid unsubscribe token",
+        code: "INVALID_TOKEN",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "You will no longer receive cart reminder emails.",
+    });
+  } catch (error: any) {
+    console.error("Cart reminder unsubscribe error:", error);
+    res.status(500).json({ error: "Failed to unsubscribe" });
+  }
+});
+
+export default router;
@@ -5,27 +5,62 @@ import {
   updateCartItemHandler,
   removeFromCartHandler,
   clearCartHandler,
+  applyCouponHandler,
+  removeCouponHandler,
+  repriceCartHandler,
 } from "../controllers/cart.controller";
-import { authenticate } from "../middleware/auth";
+import { creditCheckoutHandler } from "../controllers/order.controller";
+import { createPaymentIntentHandler } from "../controllers/payment.controller";
+import {
+  authenticate,
+  authenticateIfPresent,
+  requireVerified,
+} from "../middleware/auth";
 
 const router = Router();
 
-// All cart routes require authentication
-router.use(authenticate);
+// Basic cart routes also work for guests: without a token, the cart is the
+// one identified by the signed guest cart cookie (merged on login)
 
-// GET /api/cart - Get user's cart
-router.get("/", getCartHandler);
+// GET /api/cart - Get the cart
+router.get("/", authenticateIfPresent, getCartHandler);
 
 // POST /api/cart - Add item to cart
-router.post("/", addToCartHandler);
+router.post("/", authenticateIfPresent, addToCartHandler);
 
 // PUT /api/cart/items/:itemId - Update cart item quantity
-router.put("/items/:itemId", updateCartItemHandler);
+router.put("/items/:itemId", authenticateIfPresent, updateCartItemHandler);
 
 // DELETE /api/cart/items/:itemId - Remove item from cart
-router.delete("/items/:itemId", removeFromCartHandler);
+router.delete("/items/:itemId", authenticateIfPresent, removeFromCartHandler);
 
 // DELETE /api/cart - Clear cart
-router.delete("/", clearCartHandler);
+router.delete("/", authenticateIfPresent, clearCartHandler);
+
+// POST /api/cart/reprice - Accept current prices before checkout
+router.post("/reprice", authenticateIfPresent, repriceCartHandler);
+
+// POST /api/cart/coupon - Apply a coupon code
+router.post("/coupon", authenticate, applyCouponHandler);
+
+// DELETE /api/cart/coupon - Remove the applied coupon
+router.delete("/coupon", authenticate, removeCouponHandler);
+
+// POST /api/cart/checkout - Freeze the cart into an order and start paying
+// (same as POST /api/payments/intent)
+router.post(
+  "/checkout",
+  authenticate,
+  requireVerified,
+  createPaymentIntentHandler
+);
+
+// POST /api/cart/checkout/credits - Pay for the cart with prepaid credit
+router.post(
+  "/checkout/credits",
+  authenticate,
+  requireVerified,
+  creditCheckoutHandler
+);
 
 export default router;
@@ -1,15 +1,18 @@
 import { Router } from "express";
 import {
   searchCompaniesHandler,
+  suggestCompaniesHandler,
   getCompanyHandler,
   getCompanyReportsHandler,
 } from "../controllers/company.controller";
 import { optionalAuth } from "../middleware/auth";
+import { suggestRateLimit } from "../middleware/rate-limit";
 
 const router = Router();
 
 // Public routes
 router.get("/search", searchCompaniesHandler);
+router.get("/suggest", suggestRateLimit, suggestCompaniesHandler);
 router.get("/:id", optionalAuth, getCompanyHandler);
 
 // Reports - optional auth to see full pricing
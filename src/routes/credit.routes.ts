@@ -0,0 +1,19 @@
+import { Router } from "express";
+import {
+  getCreditBalancesHandler,
+  getCreditLedgerHandler,
+} from "../controllers/credit.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+// All credit routes require authentication
+router.use(authenticate);
+
+// GET /api/credits - Get user's credit balance per currency
+router.get("/", getCreditBalancesHandler);
+
+// GET /api/credits/ledger - Get user's credit ledger entries
+router.get("/ledger", getCreditLedgerHandler);
+
+export default router;
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import {
+  getInvoicesHandler,
+  getInvoiceHandler,
+  downloadInvoicePdfHandler,
+  downloadInvoiceXmlHandler,
+  downloadCreditNotePdfHandler,
+  downloadCreditNoteXmlHandler,
+} from "../controllers/invoice.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+// All invoice routes require authentication
+router.use(authenticate);
+
+// GET /api/invoices - Get user's invoices
+router.get("/", getInvoicesHandler);
+
+// GET /api/invoices/credit-notes/:creditNoteNumber/pdf - Download a credit note PDF
+router.get("/credit-notes/:creditNoteNumber/pdf", downloadCreditNotePdfHandler);
+
+// GET /api/invoices/credit-notes/:creditNoteNumber/xml - Download the UBL credit note XML
+router.get("/credit-notes/:creditNoteNumber/xml", downloadCreditNoteXmlHandler);
+
+// GET /api/invoices/:invoiceNumber - Get a single invoice
+router.get("/:invoiceNumber", getInvoiceHandler);
+
+// GET /api/invoices/:invoiceNumber/pdf - Download the invoice PDF
+router.get("/:invoiceNumber/pdf", downloadInvoicePdfHandler);
+
+// GET /api/invoices/:invoiceNumber/xml - Download the UBL e-invoice XML
+router.get("/:invoiceNumber/xml", downloadInvoiceXmlHandler);
+
+export default router;
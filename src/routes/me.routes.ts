@@ -0,0 +1,17 @@
+import { Router } from "express";
+import {
+  downloadDeliverableHandler,
+  getMyDeliverablesHandler,
+} from "../controllers/deliverable.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+// GET /api/me/deliverables - Get the report files the user bought
+router.get("/deliverables", authenticate, getMyDeliverablesHandler);
+
+// GET /api/me/deliverables/:id/download - Download a file (signed URL, no
+// authentication header needed)
+router.get("/deliverables/:id/download", downloadDeliverableHandler);
+
+export default router;
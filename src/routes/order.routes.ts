@@ -0,0 +1,19 @@
+import { Router } from "express";
+import {
+  getOrdersHandler,
+  getOrderHandler,
+} from "../controllers/order.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+// All order routes require authentication
+router.use(authenticate);
+
+// GET /api/orders - Get user's orders
+router.get("/", getOrdersHandler);
+
+// GET /api/orders/:orderNumber - Get a single order
+router.get("/:orderNumber", getOrderHandler);
+
+export default router;
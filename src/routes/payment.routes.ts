@@ -0,0 +1,26 @@
+import { Router } from "express";
+import {
+  createPaymentIntentHandler,
+  paymentWebhookHandler,
+  simulateMockPaymentHandler,
+} from "../controllers/payment.controller";
+import { authenticate, requireVerified } from "../middleware/auth";
+
+const router = Router();
+
+// POST /api/payments/intent - Freeze the cart into an order and start paying
+router.post("/intent", authenticate, requireVerified, createPaymentIntentHandler);
+
+// POST /api/payments/webhook/:provider - Signed provider webhook (raw body)
+router.post("/webhook/:provider", paymentWebhookHandler);
+
+// POST /api/payments/mock/:intentId/simulate - Complete a mock payment (development only)
+if (process.env.NODE_ENV !== "production") {
+  router.post(
+    "/mock/:intentId/simulate",
+    authenticate,
+    simulateMockPaymentHandler
+  );
+}
+
+export default router;
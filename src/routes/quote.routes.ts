@@ -0,0 +1,35 @@
+import { Router } from "express";
+import {
+  createQuoteHandler,
+  getQuotesHandler,
+  getQuoteHandler,
+  downloadQuoteHandler,
+  acceptQuoteHandler,
+  cancelQuoteHandler,
+} from "../controllers/quote.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+// All quote routes require authentication
+router.use(authenticate);
+
+// GET /api/quotes - Get user's quotes
+router.get("/", getQuotesHandler);
+
+// POST /api/quotes - Create a quote from the cart
+router.post("/", createQuoteHandler);
+
+// GET /api/quotes/:quoteNumber - Get a single quote
+router.get("/:quoteNumber", getQuoteHandler);
+
+// GET /api/quotes/:quoteNumber/download - Download a quote as Excel
+router.get("/:quoteNumber/download", downloadQuoteHandler);
+
+// POST /api/quotes/:quoteNumber/accept - Put the quoted items in the cart
+router.post("/:quoteNumber/accept", acceptQuoteHandler);
+
+// DELETE /api/quotes/:quoteNumber - Cancel an open quote
+router.delete("/:quoteNumber", cancelQuoteHandler);
+
+export default router;
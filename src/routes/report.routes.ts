@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getReportSampleHandler } from "../controllers/report.controller";
+
+const router = Router();
+
+// Public routes
+// GET /api/reports/:id/sample - Watermarked sample PDF of a report
+router.get("/:id/sample", getReportSampleHandler);
+
+export default router;
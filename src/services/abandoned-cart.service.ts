@@ -0,0 +1,326 @@
+import crypto from "crypto";
+import { prisma } from "../config/db.js";
+import { sendAbandonedCartEmail } from "./email.service.js";
+import {
+  convertTotal,
+  createCurrencyConverter,
+  getDefaultCurrency,
+  sumByCurrency,
+  type CurrencyAmount,
+} from "./currency.service.js";
+
+// Carts whose items have not been touched for this long are considered abandoned
+const DEFAULT_IDLE_HOURS = 24;
+
+export interface AbandonedCart {
+  cartId: number;
+  user: {
+    id: number;
+    email: string;
+    name: string;
+    cartRemindersOptOut: boolean;
+  };
+  items: Array<{
+    reportId: number;
+    reportName: string;
+    countryCode: string;
+    companyId: number;
+    companyName: string;
+    quantity: number;
+    price: number;
+    currency: string;
+  }>;
+  itemCount: number;
+  values: CurrencyAmount[]; // Cart value per pricing currency
+  currency: string; // Reporting currency (DEFAULT_CURRENCY)
+  value: number | null; // Converted to currency; null if a rate is missing
+  lastActivityAt: Date;
+}
+
+export interface ReminderRunResult {
+  found: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface AbandonedCartCountryValue {
+  countryCode: string;
+  countryName: string;
+  cartCount: number;
+  itemCount: number;
+  values: CurrencyAmount[];
+  currency: string;
+  value: number | null; // Null if a rate is missing; see values
+}
+
+/**
+ * Idle threshold in hours (configurable via ABANDONED_CART_IDLE_HOURS)
+ */
+export function getIdleThresholdHours(): number {
+  const hours = parseFloat(process.env.ABANDONED_CART_IDLE_HOURS || "");
+  return hours > 0 ? hours : DEFAULT_IDLE_HOURS;
+}
+
+// Unsubscribe links signed with an empty key could be forged
+function getUnsubscribeSecret(): string {
+  const secret =
+    process.env.CART_REMINDER_SECRET || process.env.ACCESS_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error("CART_REMINDER_SECRET is not configured");
+  }
+
+  return secret;
+}
+
+function signUserId(userId: number): string {
+  return crypto
+    .createHmac("sha256", getUnsubscribeSecret())
+    .update(`cart-reminders:${userId}`)
+    .digest("hex");
+}
+
+/**
+ * Generate a stateless unsubscribe token for cart reminder emails
+ */
+export function generateUnsubscribeToken(userId: number): string {
+  return `${userId}.${signUserId(userId)}`;
+}
+
+/**
+ * Verify an unsubscribe token
+ * @returns The user ID if the token is valid, null otherwise
+ */
+export function verifyUnsubscribeToken(token: string): number | null {
+  const [id, signature] = token.split(".");
+  const userId = parseInt(id);
+
+  if (isNaN(userId) || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signUserId(userId));
+  const actual = Buffer.from(signature);
+
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  return userId;
+}
+
+/**
+ * Find user carts that have items but none updated within the idle threshold
+ * Guest carts have no one to remind and are left out
+ */
+export async function findAbandonedCarts(
+  idleHours: number = getIdleThresholdHours()
+): Promise<AbandonedCart[]> {
+  const cutoff = new Date(Date.now() - idleHours * 60 * 60 * 1000);
+
+  const carts = await prisma.cart.findMany({
+    where: {
+      userId: { not: null },
+      items: {
+        some: {},
+        none: { updatedAt: { gte: cutoff } },
+      },
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          cartRemindersOptOut: true,
+        },
+      },
+      items: {
+        include: {
+          report: { select: { id: true, name: true, countryCode: true } },
+          company: { select: { id: true, nameEn: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  const convert = await createCurrencyConverter();
+  const currency = getDefaultCurrency();
+
+  return carts.map((cart) => {
+    const amounts = cart.items.map((item) => ({
+      currency: item.currency,
+      amount: item.price * item.quantity,
+    }));
+
+    return {
+      cartId: cart.id,
+      user: cart.user!,
+      items: cart.items.map((item) => ({
+        reportId: item.reportId,
+        reportName: item.report.name,
+        countryCode: item.report.countryCode,
+        companyId: item.companyId,
+        companyName: item.company.nameEn,
+        quantity: item.quantity,
+        price: item.price,
+        currency: item.currency,
+      })),
+      itemCount: cart.items.reduce((sum, item) => sum + item.quantity, 0),
+      values: sumByCurrency(amounts),
+      currency,
+      // One cart priced in a currency without a rate mustn't stop the run
+      value: convertTotal(convert, amounts, currency),
+      lastActivityAt: new Date(
+        Math.max(...cart.items.map((item) => item.updatedAt.getTime()))
+      ),
+    };
+  });
+}
+
+/**
+ * Send reminder emails for abandoned carts
+ * Each cart is reminded at most once per idle period; opted-out users are skipped
+ */
+export async function sendAbandonedCartReminders(
+  idleHours: number = getIdleThresholdHours()
+): Promise<ReminderRunResult> {
+  const carts = await findAbandonedCarts(idleHours);
+
+  const result: ReminderRunResult = {
+    found: carts.length,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const cart of carts) {
+    if (cart.user.cartRemindersOptOut) {
+      result.skipped++;
+      continue;
+    }
+
+    const alreadyReminded = await prisma.cartReminder.findFirst({
+      where: {
+        cartId: cart.cartId,
+        lastActivityAt: { gte: cart.lastActivityAt },
+      },
+    });
+
+    if (alreadyReminded) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      await sendAbandonedCartEmail(
+        cart.user.email,
+        cart.user.name,
+        cart.items,
+        generateUnsubscribeToken(cart.user.id)
+      );
+
+      await prisma.cartReminder.create({
+        data: {
+          cartId: cart.cartId,
+          userId: cart.user.id,
+          lastActivityAt: cart.lastActivityAt,
+          itemCount: cart.itemCount,
+          cartValue: cart.value,
+          currency: cart.currency,
+        },
+      });
+
+      result.sent++;
+    } catch (error) {
+      console.error(
+        `Failed to send abandoned cart reminder for cart ${cart.cartId}:`,
+        error
+      );
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Abandoned cart value grouped by the country each report is sold in
+ * Values are kept per pricing currency and also summed in DEFAULT_CURRENCY,
+ * unless one of them has no exchange rate to it
+ */
+export async function getAbandonedCartValueByCountry(
+  idleHours: number = getIdleThresholdHours()
+): Promise<AbandonedCartCountryValue[]> {
+  const carts = await findAbandonedCarts(idleHours);
+  const convert = await createCurrencyConverter();
+  const currency = getDefaultCurrency();
+
+  const byCountry = new Map<
+    string,
+    {
+      cartIds: Set<number>;
+      itemCount: number;
+      amounts: CurrencyAmount[];
+    }
+  >();
+
+  for (const cart of carts) {
+    for (const item of cart.items) {
+      const entry = byCountry.get(item.countryCode) || {
+        cartIds: new Set<number>(),
+        itemCount: 0,
+        amounts: [],
+      };
+      const amount = item.price * item.quantity;
+      entry.cartIds.add(cart.cartId);
+      entry.itemCount += item.quantity;
+      entry.amounts.push({ currency: item.currency, amount });
+      byCountry.set(item.countryCode, entry);
+    }
+  }
+
+  const countries = await prisma.country.findMany({
+    where: { code: { in: Array.from(byCountry.keys()) } },
+    select: { code: true, nameEn: true },
+  });
+  const countryNames = new Map(countries.map((c) => [c.code, c.nameEn]));
+
+  return Array.from(byCountry.entries())
+    .map(([countryCode, entry]) => ({
+      countryCode,
+      countryName: countryNames.get(countryCode) || countryCode,
+      cartCount: entry.cartIds.size,
+      itemCount: entry.itemCount,
+      values: sumByCurrency(entry.amounts),
+      currency,
+      value: convertTotal(convert, entry.amounts, currency),
+    }))
+    // Countries whose value can't be converted come last
+    .sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+}
+
+/**
+ * Opt a user out of cart reminder emails
+ */
+export async function unsubscribeFromCartReminders(
+  token: string
+): Promise<boolean> {
+  const userId = verifyUnsubscribeToken(token);
+
+  if (!userId) {
+    return false;
+  }
+
+  const updated = await prisma.user.updateMany({
+    where: { id: userId },
+    data: { cartRemindersOptOut: true },
+  });
+
+  return updated.count > 0;
+}
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addBusinessDays,
+  isBusinessDay,
+  type BusinessCalendar,
+} from "./business-calendar.service.js";
+
+const calendar = (
+  weekendDays: number[],
+  holidays: string[] = []
+): BusinessCalendar => ({ weekendDays, holidays: new Set(holidays) });
+
+const GULF = calendar([5, 6]); // Friday/Saturday
+const WESTERN = calendar([0, 6]); // Saturday/Sunday
+
+const noon = (day: string) => new Date(`${day}T12:00:00Z`);
+const endOf = (day: string) => new Date(`${day}T23:59:59.999Z`);
+
+// 2026-03-05 is a Thursday
+const THURSDAY = new Date("2026-03-05T09:30:00Z");
+
+describe("isBusinessDay", () => {
+  it("skips the country's weekend days", () => {
+    assert.equal(isBusinessDay(noon("2026-03-06"), GULF), false);
+    assert.equal(isBusinessDay(noon("2026-03-08"), GULF), true);
+    assert.equal(isBusinessDay(noon("2026-03-08"), WESTERN), false);
+  });
+
+  it("skips public holidays", () => {
+    const withHoliday = calendar([5, 6], ["2026-03-09"]);
+
+    assert.equal(isBusinessDay(noon("2026-03-09"), withHoliday), false);
+    assert.equal(isBusinessDay(noon("2026-03-10"), withHoliday), true);
+  });
+});
+
+describe("addBusinessDays", () => {
+  it("is due at the end of the last business day counted", () => {
+    // The start day itself is not counted
+    assert.deepEqual(
+      addBusinessDays(THURSDAY, 1, WESTERN),
+      endOf("2026-03-06")
+    );
+  });
+
+  it("skips the weekend", () => {
+    assert.deepEqual(addBusinessDays(THURSDAY, 1, GULF), endOf("2026-03-08"));
+    assert.deepEqual(addBusinessDays(THURSDAY, 5, GULF), endOf("2026-03-12"));
+  });
+
+  it("skips public holidays", () => {
+    const withHoliday = calendar([5, 6], ["2026-03-08", "2026-03-09"]);
+
+    assert.deepEqual(
+      addBusinessDays(THURSDAY, 1, withHoliday),
+      endOf("2026-03-10")
+    );
+  });
+
+  it("counts from the start's UTC day", () => {
+    assert.deepEqual(
+      addBusinessDays(new Date("2026-03-05T23:30:00Z"), 3, GULF),
+      endOf("2026-03-10")
+    );
+  });
+
+  it("counts orders placed on a weekend from the next business day", () => {
+    assert.deepEqual(
+      addBusinessDays(new Date("2026-03-06T10:00:00Z"), 1, GULF),
+      endOf("2026-03-08")
+    );
+  });
+
+  it("is due at the end of the start day for a zero-day turnaround", () => {
+    assert.deepEqual(addBusinessDays(THURSDAY, 0, GULF), endOf("2026-03-05"));
+  });
+
+  it("falls back to calendar days when no day is ever worked", () => {
+    const closed = calendar([0, 1, 2, 3, 4, 5, 6]);
+
+    // A year of skipped days, then one calendar day per day
+    assert.deepEqual(addBusinessDays(THURSDAY, 2, closed), endOf("2027-03-08"));
+  });
+});
@@ -0,0 +1,101 @@
+import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Friday/Saturday, for countries missing from the database
+const DEFAULT_WEEKEND_DAYS = [5, 6];
+
+export interface BusinessCalendar {
+  weekendDays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: Set<string>; // YYYY-MM-DD (UTC)
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Load the business calendar (weekend days and public holidays) of each
+ * country, keyed by country code
+ * Holidays are loaded from `from` onwards; older ones are never needed to
+ * compute a due date.
+ */
+export async function loadBusinessCalendars(
+  countryCodes: string[],
+  from: Date = new Date(),
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<Map<string, BusinessCalendar>> {
+  const codes = Array.from(new Set(countryCodes));
+
+  const [countries, holidays] = await Promise.all([
+    client.country.findMany({
+      where: { code: { in: codes } },
+      select: { code: true, weekendDays: true },
+    }),
+    client.publicHoliday.findMany({
+      where: {
+        countryCode: { in: codes },
+        date: { gte: new Date(toDateKey(from)) },
+      },
+      select: { countryCode: true, date: true },
+    }),
+  ]);
+
+  const result = new Map<string, BusinessCalendar>();
+  for (const code of codes) {
+    const country = countries.find((c) => c.code === code);
+    result.set(code, {
+      weekendDays: country?.weekendDays ?? DEFAULT_WEEKEND_DAYS,
+      holidays: new Set(
+        holidays
+          .filter((h) => h.countryCode === code)
+          .map((h) => toDateKey(h.date))
+      ),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Whether a (UTC) day is a working day in the calendar
+ */
+export function isBusinessDay(date: Date, calendar: BusinessCalendar): boolean {
+  return (
+    !calendar.weekendDays.includes(date.getUTCDay()) &&
+    !calendar.holidays.has(toDateKey(date))
+  );
+}
+
+/**
+ * Date by which work started at `start` is due after a number of business
+ * days: the end (UTC) of the last business day counted. The day of `start`
+ * itself is not counted, so an order placed on a Thursday with a 1-day
+ * turnaround in a Friday/Saturday weekend is due at the end of Sunday.
+ */
+export function addBusinessDays(
+  start: Date,
+  days: number,
+  calendar: BusinessCalendar
+): Date {
+  let day = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())
+  );
+
+  // A calendar with every weekday off would never finish; give up after a year
+  // of skipped days and count calendar days instead
+  let remaining = days;
+  let skipped = 0;
+  while (remaining > 0) {
+    day = new Date(day.getTime() + DAY_MS);
+
+    if (isBusinessDay(day, calendar) || skipped >= 366) {
+      remaining--;
+    } else {
+      skipped++;
+    }
+  }
+
+  return new Date(day.getTime() + DAY_MS - 1);
+}
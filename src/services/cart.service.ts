@@ -1,7 +1,39 @@
 import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+import {
+  calculateTax,
+  type TaxCalculation,
+  type TaxLineBreakdown,
+} from "./tax.service.js";
+import {
+  convertTotal,
+  createCurrencyConverter,
+  getDefaultCurrency,
+} from "./currency.service.js";
+import {
+  applyPricingRules,
+  type AppliedPricingRule,
+} from "./pricing.service.js";
+import {
+  evaluateCoupon,
+  normalizeCouponCode,
+  type CouponDefinition,
+} from "./coupon.service.js";
+import {
+  addBusinessDays,
+  loadBusinessCalendars,
+} from "./business-calendar.service.js";
+import {
+  getReportLanguageOptions,
+  normalizeLanguage,
+  resolveLanguageOption,
+} from "./report-language.service.js";
+
+// A cart is owned by a user, or by a guest identified by the cart cookie
+export type CartOwner = { userId: number } | { guestToken: string };
 
 export interface AddToCartInput {
-  userId: number;
+  owner: CartOwner;
   reportId: number;
   companyId: number;
   quantity?: number;
@@ -15,7 +47,9 @@ export interface CartItemResponse {
     id: number;
     name: string;
     description: string;
-    turnaround: string;
+    turnaroundMinDays: number; // Business days
+    turnaroundMaxDays: number;
+    countryCode: string;
   };
   companyId: number;
   company: {
@@ -24,31 +58,360 @@ export interface CartItemResponse {
     nameAr: string | null;
   };
   quantity: number;
-  price: number;
+  price: number; // Minor units of currency
+  currency: string;
   language: string | null;
   createdAt: Date;
+  pricingRule: AppliedPricingRule | null; // Volume/bundle rule that applies
+  // If ordered now: the report's maximum turnaround in business days of the
+  // report country's calendar
+  estimatedDeliveryDate: Date;
 }
 
-export interface CartResponse {
-  id: number;
-  items: CartItemResponse[];
+export type CartItemIssueType =
+  | "PRICE_CHANGED"
+  | "REPORT_INACTIVE"
+  | "REPORT_UNASSIGNED"
+  | "LANGUAGE_UNAVAILABLE";
+
+export interface CartItemIssue {
+  type: CartItemIssueType;
+  message: string;
+  // PRICE_CHANGED only: what the report costs now
+  currentPrice?: number;
+  currentCurrency?: string;
+}
+
+export interface CartLineResponse extends CartItemResponse {
+  issues: CartItemIssue[]; // Must be resolved (POST /api/cart/reprice) before checkout
+  lineTotal: number; // price * quantity
+  discount: number; // Pricing rule + coupon discount on the line
+  tax: TaxLineBreakdown; // Calculated on lineTotal - discount
+  // Only present when a display currency was requested
+  display?: {
+    currency: string;
+    price: number;
+    lineTotal: number;
+  };
+}
+
+export interface CurrencyTotals {
+  currency: string;
   subtotal: number;
+  discount: number;
   tax: number;
   total: number;
   itemCount: number;
 }
 
+export interface CartCouponResponse {
+  code: string;
+  description: string | null;
+  type: string;
+  percentOff: number | null;
+  amountOff: number | null;
+  currency: string | null;
+  discount: number | null; // Coupon part of the discount, in display currency
+  error: string | null; // Set when the coupon no longer applies to the cart
+}
+
+export interface CartResponse {
+  id: number;
+  items: CartLineResponse[];
+  coupon: CartCouponResponse | null;
+  // Currency of subtotal, discount, tax and total; these are null when a
+  // currency in the cart has no exchange rate to it
+  currency: string | null;
+  subtotal: number | null;
+  discount: number | null;
+  tax: number | null;
+  total: number | null;
+  itemCount: number;
+  // What checkout actually charges: one entry per currency in the cart
+  settlement: CurrencyTotals[];
+  hasIssues: boolean; // Any item has issues; checkout is blocked until repriced
+}
+
+export interface RepriceResult {
+  repriced: number; // Items updated to the current report price
+  removed: number; // Items dropped because they can no longer be bought
+  cart: CartResponse;
+}
+
+export interface CartPricing extends TaxCalculation {
+  rules: Array<AppliedPricingRule | null>; // Per line
+  couponDiscounts: number[]; // Per line
+  couponError: string | null;
+  discounts: number[]; // Per line: pricing rule + coupon
+  discount: number;
+}
+
 /**
- * Get or create cart for user
+ * Price a set of cart lines
+ * Volume/bundle pricing rules apply first, the coupon (if any) to what is
+ * left, and each line is then taxed by the rules of the country its report
+ * is sold in. subtotal is before discount.
+ * Coupons only apply to user carts (userId null for guests).
+ * Shared by getCart and checkout so both always agree on the amounts
  */
-async function getOrCreateCart(userId: number) {
+export async function priceCartItems(
+  items: Array<{
+    reportId: number;
+    companyId: number;
+    price: number;
+    quantity: number;
+    currency: string;
+    report: { countryCode: string };
+  }>,
+  userId: number | null,
+  coupon: CouponDefinition | null,
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<CartPricing> {
+  const rules = await applyPricingRules(
+    items.map((item) => ({
+      reportId: item.reportId,
+      companyId: item.companyId,
+      countryCode: item.report.countryCode,
+      currency: item.currency,
+      price: item.price,
+      quantity: item.quantity,
+    })),
+    client
+  );
+  const amounts = items.map(
+    (item, index) => item.price * item.quantity - (rules[index]?.discount || 0)
+  );
+
+  const evaluation =
+    coupon && userId !== null
+      ? await evaluateCoupon(
+          coupon,
+          userId,
+          items.map((item, index) => ({
+            reportId: item.reportId,
+            countryCode: item.report.countryCode,
+            currency: item.currency,
+            amount: amounts[index],
+          })),
+          client
+        )
+      : null;
+  const couponDiscounts = evaluation?.discounts || items.map(() => 0);
+
+  const discounts = items.map(
+    (_, index) => (rules[index]?.discount || 0) + couponDiscounts[index]
+  );
+  const discount = discounts.reduce((sum, amount) => sum + amount, 0);
+
+  const calculation = await calculateTax(
+    items.map((item, index) => ({
+      countryCode: item.report.countryCode,
+      amount: amounts[index] - couponDiscounts[index],
+    }))
+  );
+
+  return {
+    ...calculation,
+    subtotal: calculation.subtotal + discount,
+    rules,
+    couponDiscounts,
+    couponError: evaluation?.error || null,
+    discounts,
+    discount,
+  };
+}
+
+/**
+ * Why a cart item can no longer have its quoted price, if it can't
+ */
+function findQuotedPriceIssue(
+  item: { quantity: number; price: number; currency: string },
+  quoteItem: {
+    quantity: number;
+    price: number;
+    currency: string;
+    quote: { expiresAt: Date };
+  },
+  now: Date
+): string | null {
+  if (quoteItem.quote.expiresAt <= now) {
+    return "The quoted price has expired";
+  }
+
+  if (item.quantity !== quoteItem.quantity) {
+    return `The quoted price only applies to a quantity of ${quoteItem.quantity}`;
+  }
+
+  if (item.price !== quoteItem.price || item.currency !== quoteItem.currency) {
+    return "The price of this report has changed";
+  }
+
+  return null;
+}
+
+/**
+ * Compare cart items with the current catalogue
+ * Flags items whose report price (or currency, or the surcharge of the
+ * item's language) changed since it was added, whose report was
+ * deactivated or is no longer offered in the item's language, or whose
+ * company no longer has the report.
+ * Items from an accepted quote keep the quoted price until the quote expires,
+ * for the quoted quantity only
+ * @returns The issues of each item, in the same order
+ */
+export async function findCartItemIssues(
+  items: Array<{
+    reportId: number;
+    companyId: number;
+    quantity: number;
+    price: number;
+    currency: string;
+    language: string | null;
+    quoteItemId: number | null;
+  }>,
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<CartItemIssue[][]> {
+  const reports = await client.report.findMany({
+    where: { id: { in: Array.from(new Set(items.map((i) => i.reportId))) } },
+    select: {
+      id: true,
+      price: true,
+      currency: true,
+      isActive: true,
+      languages: {
+        select: { language: true, surcharge: true, extraDays: true },
+      },
+      companies: {
+        where: {
+          id: { in: Array.from(new Set(items.map((i) => i.companyId))) },
+        },
+        select: { id: true },
+      },
+    },
+  });
+  const reportsById = new Map(reports.map((report) => [report.id, report]));
+
+  const quoteItemIds = items
+    .map((item) => item.quoteItemId)
+    .filter((id): id is number => id !== null);
+  const quoteItems = quoteItemIds.length
+    ? await client.quoteItem.findMany({
+        where: { id: { in: quoteItemIds } },
+        include: { quote: { select: { expiresAt: true } } },
+      })
+    : [];
+  const quoteItemsById = new Map(quoteItems.map((q) => [q.id, q]));
+  const now = new Date();
+
+  return items.map((item) => {
+    const report = reportsById.get(item.reportId);
+    const issues: CartItemIssue[] = [];
+
+    if (!report || !report.isActive) {
+      issues.push({
+        type: "REPORT_INACTIVE",
+        message: "This report is no longer available",
+      });
+      return issues;
+    }
+
+    if (!report.companies.some((company) => company.id === item.companyId)) {
+      issues.push({
+        type: "REPORT_UNASSIGNED",
+        message: "This report is no longer offered for this company",
+      });
+    }
+
+    const languageOption = resolveLanguageOption(
+      report.languages,
+      item.language
+    );
+
+    if (!languageOption) {
+      issues.push({
+        type: "LANGUAGE_UNAVAILABLE",
+        message: `This report is no longer offered in ${item.language || "any language"}`,
+      });
+      return issues;
+    }
+
+    const currentPrice = report.price + languageOption.surcharge;
+    const quoteItem =
+      item.quoteItemId !== null ? quoteItemsById.get(item.quoteItemId) : null;
+
+    if (quoteItem) {
+      const quoteIssue = findQuotedPriceIssue(item, quoteItem, now);
+
+      if (quoteIssue) {
+        issues.push({
+          type: "PRICE_CHANGED",
+          message: quoteIssue,
+          currentPrice,
+          currentCurrency: report.currency,
+        });
+      }
+    } else if (
+      currentPrice !== item.price ||
+      report.currency !== item.currency
+    ) {
+      issues.push({
+        type: "PRICE_CHANGED",
+        message: "The price of this report has changed",
+        currentPrice,
+        currentCurrency: report.currency,
+      });
+    }
+
+    return issues;
+  });
+}
+
+/**
+ * Split cart totals by the currency each line is priced in
+ */
+export function totalsByCurrency(
+  items: Array<{ currency: string; price: number; quantity: number }>,
+  lines: TaxLineBreakdown[],
+  discounts: number[]
+): CurrencyTotals[] {
+  const totals = new Map<string, CurrencyTotals>();
+
+  items.forEach((item, index) => {
+    const entry = totals.get(item.currency) || {
+      currency: item.currency,
+      subtotal: 0,
+      discount: 0,
+      tax: 0,
+      total: 0,
+      itemCount: 0,
+    };
+    const lineTotal = item.price * item.quantity;
+    const discount = discounts[index];
+    const line = lines[index];
+
+    entry.subtotal += lineTotal;
+    entry.discount += discount;
+    entry.tax += line.amount;
+    entry.total +=
+      lineTotal - discount + (line.isInclusive ? 0 : line.amount);
+    entry.itemCount += item.quantity;
+    totals.set(item.currency, entry);
+  });
+
+  return Array.from(totals.values());
+}
+
+/**
+ * Get or create cart for a user or guest
+ */
+async function getOrCreateCart(owner: CartOwner) {
   let cart = await prisma.cart.findUnique({
-    where: { userId },
+    where: owner,
   });
 
   if (!cart) {
     cart = await prisma.cart.create({
-      data: { userId },
+      data: owner,
     });
   }
 
@@ -56,10 +419,78 @@ async function getOrCreateCart(userId: number) {
 }
 
 /**
- * Get user's cart with all items
+ * Find the pricing rule that applies to one item, given the rest of its cart
  */
-export async function getCart(userId: number): Promise<CartResponse> {
-  const cart = await getOrCreateCart(userId);
+async function findPricingRule(
+  cartId: number,
+  itemId: number
+): Promise<AppliedPricingRule | null> {
+  const items = await prisma.cartItem.findMany({
+    where: { cartId },
+    include: { report: { select: { countryCode: true } } },
+  });
+
+  const rules = await applyPricingRules(
+    items.map((item) => ({
+      reportId: item.reportId,
+      companyId: item.companyId,
+      countryCode: item.report.countryCode,
+      currency: item.currency,
+      price: item.price,
+      quantity: item.quantity,
+    }))
+  );
+
+  return rules[items.findIndex((item) => item.id === itemId)] || null;
+}
+
+/**
+ * Estimated delivery date of each cart item if it were ordered now,
+ * including the extra days of its language
+ */
+async function estimateDeliveryDates(
+  items: Array<{
+    reportId: number;
+    language: string | null;
+    report: { countryCode: string; turnaroundMaxDays: number };
+  }>
+): Promise<Date[]> {
+  const now = new Date();
+  const [calendars, languageOptions] = await Promise.all([
+    loadBusinessCalendars(
+      items.map((item) => item.report.countryCode),
+      now
+    ),
+    getReportLanguageOptions(items.map((item) => item.reportId)),
+  ]);
+
+  return items.map((item) => {
+    const option = resolveLanguageOption(
+      languageOptions.get(item.reportId)!,
+      item.language
+    );
+
+    return addBusinessDays(
+      now,
+      item.report.turnaroundMaxDays + (option?.extraDays ?? 0),
+      calendars.get(item.report.countryCode)!
+    );
+  });
+}
+
+/**
+ * Get a user's or guest's cart with all items
+ * Amounts are settled in each report's own currency; when displayCurrency is
+ * given, lines and totals are also converted into it for display
+ */
+export async function getCart(
+  owner: CartOwner,
+  displayCurrency?: string
+): Promise<CartResponse> {
+  const cart = await getOrCreateCart(owner);
+  const coupon = cart.couponId
+    ? await prisma.coupon.findUnique({ where: { id: cart.couponId } })
+    : null;
 
   const items = await prisma.cartItem.findMany({
     where: { cartId: cart.id },
@@ -69,7 +500,9 @@ export async function getCart(userId: number): Promise<CartResponse> {
           id: true,
           name: true,
           description: true,
-          turnaround: true,
+          turnaroundMinDays: true,
+          turnaroundMaxDays: true,
+          countryCode: true,
         },
       },
       company: {
@@ -83,17 +516,37 @@ export async function getCart(userId: number): Promise<CartResponse> {
     orderBy: { createdAt: "desc" },
   });
 
-  const TAX_RATE = 0.05;
-  const subtotal = items.reduce(
-    (sum, item) => sum + item.price * item.quantity,
-    0
-  );
-  const tax = subtotal * TAX_RATE;
-  const total = subtotal + tax;
+  const { lines, rules, discounts, couponDiscounts, couponError } =
+    await priceCartItems(items, cart.userId, coupon);
+  const issues = await findCartItemIssues(items);
+  const deliveryDates = await estimateDeliveryDates(items);
+  const settlement = totalsByCurrency(items, lines, discounts);
+
+  // Without an explicit display currency, a single-currency cart is shown
+  // as-is and a mixed cart is converted to the default currency
+  const currency =
+    displayCurrency ||
+    (settlement.length === 1 ? settlement[0].currency : getDefaultCurrency());
+  const needsConversion =
+    !!displayCurrency || settlement.some((s) => s.currency !== currency);
+  const convert = needsConversion
+    ? await createCurrencyConverter()
+    : (amount: number) => amount;
+  const displayTotal = (key: "subtotal" | "discount" | "tax" | "total") =>
+    convertTotal(
+      convert,
+      settlement.map((s) => ({ currency: s.currency, amount: s[key] })),
+      currency
+    );
+
+  // A currency without an exchange rate can't be shown in the display
+  // currency: the cart is still returned, with its totals per currency in
+  // settlement only
+  const converted = displayTotal("total") !== null;
 
   return {
     id: cart.id,
-    items: items.map((item) => ({
+    items: items.map((item, index) => ({
       id: item.id,
       reportId: item.reportId,
       report: item.report,
@@ -101,33 +554,110 @@ export async function getCart(userId: number): Promise<CartResponse> {
       company: item.company,
       quantity: item.quantity,
       price: item.price,
+      currency: item.currency,
       language: item.language,
       createdAt: item.createdAt,
+      lineTotal: item.price * item.quantity,
+      issues: issues[index],
+      pricingRule: rules[index],
+      estimatedDeliveryDate: deliveryDates[index],
+      discount: discounts[index],
+      tax: lines[index],
+      display:
+        displayCurrency && converted
+          ? {
+              currency,
+              price: convert(item.price, item.currency, currency),
+              lineTotal: convert(
+                item.price * item.quantity,
+                item.currency,
+                currency
+              ),
+            }
+          : undefined,
     })),
-    subtotal,
-    tax,
-    total,
+    coupon: coupon
+      ? {
+          code: coupon.code,
+          description: coupon.description,
+          type: coupon.type,
+          percentOff: coupon.percentOff,
+          amountOff: coupon.amountOff,
+          currency: coupon.currency,
+          discount: convertTotal(
+            convert,
+            items.map((item, index) => ({
+              currency: item.currency,
+              amount: couponDiscounts[index],
+            })),
+            currency
+          ),
+          error: couponError,
+        }
+      : null,
+    currency: converted ? currency : null,
+    subtotal: displayTotal("subtotal"),
+    discount: displayTotal("discount"),
+    tax: displayTotal("tax"),
+    total: displayTotal("total"),
     itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    settlement,
+    hasIssues: issues.some((itemIssues) => itemIssues.length > 0),
   };
 }
 
 /**
  * Add item to cart
+ * The price includes the surcharge of the chosen language; without a
+ * language the report's default one is used
  */
 export async function addToCart(
   input: AddToCartInput
 ): Promise<CartItemResponse> {
-  const cart = await getOrCreateCart(input.userId);
+  // Checkout charges price * quantity as stored
+  const quantity = input.quantity ?? 1;
+
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error("Quantity must be a positive integer");
+  }
+
+  const cart = await getOrCreateCart(input.owner);
 
   // Get report to get current price
   const report = await prisma.report.findUnique({
     where: { id: input.reportId },
+    include: {
+      companies: { where: { id: input.companyId }, select: { id: true } },
+      languages: true,
+    },
   });
 
   if (!report) {
     throw new Error("Report not found");
   }
 
+  if (!report.isActive) {
+    throw new Error("Report is no longer available");
+  }
+
+  if (report.companies.length === 0) {
+    throw new Error("Report is not available for this company");
+  }
+
+  const language = input.language ? normalizeLanguage(input.language) : null;
+
+  if (input.language && !language) {
+    throw new Error(`Unsupported language: ${input.language}`);
+  }
+
+  const languageOption = resolveLanguageOption(report.languages, language);
+
+  if (!languageOption) {
+    throw new Error(`Report is not available in ${language || "any language"}`);
+  }
+
+  const price = report.price + languageOption.surcharge;
+
   // Check if item already exists in cart
   const existingItem = await prisma.cartItem.findUnique({
     where: {
@@ -140,13 +670,21 @@ export async function addToCart(
   });
 
   if (existingItem) {
-    // Update quantity
+    // Update quantity; the price stays as the user saw it until they reprice,
+    // unless another language is chosen: that is priced now
+    const languageChanged = !!language && language !== existingItem.language;
     const updatedItem = await prisma.cartItem.update({
       where: { id: existingItem.id },
       data: {
-        quantity: existingItem.quantity + (input.quantity || 1),
-        price: report.price, // Update to current price
-        language: input.language || existingItem.language,
+        quantity: existingItem.quantity + quantity,
+        ...(languageChanged
+          ? {
+              language,
+              price,
+              currency: report.currency,
+              quoteItemId: null,
+            }
+          : {}),
       },
       include: {
         report: {
@@ -154,7 +692,9 @@ export async function addToCart(
             id: true,
             name: true,
             description: true,
-            turnaround: true,
+            turnaroundMinDays: true,
+            turnaroundMaxDays: true,
+            countryCode: true,
           },
         },
         company: {
@@ -175,8 +715,11 @@ export async function addToCart(
       company: updatedItem.company,
       quantity: updatedItem.quantity,
       price: updatedItem.price,
+      currency: updatedItem.currency,
       language: updatedItem.language,
       createdAt: updatedItem.createdAt,
+      pricingRule: await findPricingRule(cart.id, updatedItem.id),
+      estimatedDeliveryDate: (await estimateDeliveryDates([updatedItem]))[0],
     };
   }
 
@@ -186,9 +729,10 @@ export async function addToCart(
       cartId: cart.id,
       reportId: input.reportId,
       companyId: input.companyId,
-      quantity: input.quantity || 1,
-      price: report.price,
-      language: input.language,
+      quantity,
+      price,
+      currency: report.currency,
+      language: languageOption.language,
     },
     include: {
       report: {
@@ -196,7 +740,9 @@ export async function addToCart(
           id: true,
           name: true,
           description: true,
-          turnaround: true,
+          turnaroundMinDays: true,
+          turnaroundMaxDays: true,
+          countryCode: true,
         },
       },
       company: {
@@ -217,8 +763,11 @@ export async function addToCart(
     company: cartItem.company,
     quantity: cartItem.quantity,
     price: cartItem.price,
+    currency: cartItem.currency,
     language: cartItem.language,
     createdAt: cartItem.createdAt,
+    pricingRule: await findPricingRule(cart.id, cartItem.id),
+    estimatedDeliveryDate: (await estimateDeliveryDates([cartItem]))[0],
   };
 }
 
@@ -226,15 +775,15 @@ export async function addToCart(
  * Update cart item quantity
  */
 export async function updateCartItem(
-  userId: number,
+  owner: CartOwner,
   itemId: number,
   quantity: number
 ): Promise<CartItemResponse> {
-  if (quantity <= 0) {
-    throw new Error("Quantity must be greater than 0");
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error("Quantity must be a positive integer");
   }
 
-  const cart = await getOrCreateCart(userId);
+  const cart = await getOrCreateCart(owner);
 
   const cartItem = await prisma.cartItem.findFirst({
     where: {
@@ -247,28 +796,19 @@ export async function updateCartItem(
     throw new Error("Cart item not found");
   }
 
-  // Get current report price
-  const report = await prisma.report.findUnique({
-    where: { id: cartItem.reportId },
-  });
-
-  if (!report) {
-    throw new Error("Report not found");
-  }
-
+  // Only the quantity changes; price changes are accepted via repriceCart
   const updatedItem = await prisma.cartItem.update({
     where: { id: itemId },
-    data: {
-      quantity,
-      price: report.price, // Update to current price
-    },
+    data: { quantity },
     include: {
       report: {
         select: {
           id: true,
           name: true,
           description: true,
-          turnaround: true,
+          turnaroundMinDays: true,
+          turnaroundMaxDays: true,
+          countryCode: true,
         },
       },
       company: {
@@ -289,8 +829,11 @@ export async function updateCartItem(
     company: updatedItem.company,
     quantity: updatedItem.quantity,
     price: updatedItem.price,
+    currency: updatedItem.currency,
     language: updatedItem.language,
     createdAt: updatedItem.createdAt,
+    pricingRule: await findPricingRule(cart.id, updatedItem.id),
+    estimatedDeliveryDate: (await estimateDeliveryDates([updatedItem]))[0],
   };
 }
 
@@ -298,10 +841,10 @@ export async function updateCartItem(
  * Remove item from cart
  */
 export async function removeFromCart(
-  userId: number,
+  owner: CartOwner,
   itemId: number
 ): Promise<void> {
-  const cart = await getOrCreateCart(userId);
+  const cart = await getOrCreateCart(owner);
 
   const cartItem = await prisma.cartItem.findFirst({
     where: {
@@ -322,10 +865,127 @@ export async function removeFromCart(
 /**
  * Clear cart
  */
-export async function clearCart(userId: number): Promise<void> {
-  const cart = await getOrCreateCart(userId);
+export async function clearCart(owner: CartOwner): Promise<void> {
+  const cart = await getOrCreateCart(owner);
 
   await prisma.cartItem.deleteMany({
     where: { cartId: cart.id },
   });
 }
+
+/**
+ * Apply a coupon code to the user's cart
+ * The coupon must currently give a discount on the cart's items
+ */
+export async function applyCouponToCart(
+  userId: number,
+  code: string
+): Promise<CartResponse> {
+  const cart = await getOrCreateCart({ userId });
+
+  const coupon = await prisma.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) },
+  });
+
+  if (!coupon) {
+    throw new Error("Coupon not found");
+  }
+
+  const items = await prisma.cartItem.findMany({
+    where: { cartId: cart.id },
+    include: { report: { select: { countryCode: true } } },
+  });
+
+  if (items.length === 0) {
+    throw new Error("Cart is empty");
+  }
+
+  const { couponError } = await priceCartItems(items, userId, coupon);
+
+  if (couponError) {
+    throw new Error(couponError);
+  }
+
+  await prisma.cart.update({
+    where: { id: cart.id },
+    data: { couponId: coupon.id },
+  });
+
+  return getCart({ userId });
+}
+
+/**
+ * Remove the coupon from the user's cart
+ */
+export async function removeCouponFromCart(
+  userId: number
+): Promise<CartResponse> {
+  const cart = await getOrCreateCart({ userId });
+
+  await prisma.cart.update({
+    where: { id: cart.id },
+    data: { couponId: null },
+  });
+
+  return getCart({ userId });
+}
+
+/**
+ * Accept the current catalogue for every item in the cart
+ * Items whose price changed take the report's current price (dropping any
+ * quoted price); items that can no longer be bought (inactive or unassigned
+ * report) are removed
+ */
+export async function repriceCart(
+  owner: CartOwner
+): Promise<RepriceResult> {
+  const cart = await getOrCreateCart(owner);
+
+  const items = await prisma.cartItem.findMany({
+    where: { cartId: cart.id },
+  });
+  const issues = await findCartItemIssues(items);
+
+  const removeIds: number[] = [];
+  const updates: Array<{ id: number; price: number; currency: string }> = [];
+
+  items.forEach((item, index) => {
+    const itemIssues = issues[index];
+
+    if (itemIssues.some((issue) => issue.type !== "PRICE_CHANGED")) {
+      removeIds.push(item.id);
+      return;
+    }
+
+    const priceChange = itemIssues.find(
+      (issue) => issue.type === "PRICE_CHANGED"
+    );
+    if (priceChange) {
+      updates.push({
+        id: item.id,
+        price: priceChange.currentPrice!,
+        currency: priceChange.currentCurrency!,
+      });
+    }
+  });
+
+  await prisma.$transaction([
+    prisma.cartItem.deleteMany({ where: { id: { in: removeIds } } }),
+    ...updates.map((update) =>
+      prisma.cartItem.update({
+        where: { id: update.id },
+        data: {
+          price: update.price,
+          currency: update.currency,
+          quoteItemId: null,
+        },
+      })
+    ),
+  ]);
+
+  return {
+    repriced: updates.length,
+    removed: removeIds.length,
+    cart: await getCart(owner),
+  };
+}
@@ -1,12 +1,121 @@
 import { prisma } from "../config/db.js";
+import { Prisma } from "../../generated/prisma/client";
+import { normalizeCompanyName, normalizeSearchText } from "../utils/arabic.js";
+import { createLruCache } from "../utils/lru-cache.js";
+import { phoneticKey } from "../utils/transliteration.js";
+import { createCurrencyConverter } from "./currency.service.js";
+import { sortLanguageOptions } from "./report-language.service.js";
+import { getTableOfContents } from "./report-sample.service.js";
 
+// Companies re-normalised per query when rebuilding the search index
+const SEARCH_INDEX_BATCH_SIZE = 500;
+
+// Shorter phonetic keys of a query match too many names to be useful
+const MIN_PHONETIC_QUERY_LENGTH = 3;
+
+// Relevance of a phonetic match relative to a spelling match
+const PHONETIC_MATCH_WEIGHT = 0.8;
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Largest company ID (Postgres integer)
+const MAX_INT = 2147483647;
+
+// Values returned per facet, most common first
+const FACET_LIMIT = 20;
+
+export const COMPANY_SEARCH_FACETS = [
+  "country",
+  "industry",
+  "city",
+  "legalForm",
+] as const;
+
+export type CompanySearchFacet = (typeof COMPANY_SEARCH_FACETS)[number];
+
+// "newest" is the order without a query; "relevance" without a query falls
+// back to it
+export const COMPANY_SEARCH_SORTS = [
+  "relevance",
+  "name",
+  "founded",
+  "updated",
+  "newest",
+] as const;
+
+export type CompanySearchSort = (typeof COMPANY_SEARCH_SORTS)[number];
+
+// Direction of each sort unless one is given
+const DEFAULT_SORT_ORDERS: Record<CompanySearchSort, "asc" | "desc"> = {
+  relevance: "desc",
+  name: "asc",
+  founded: "desc",
+  updated: "desc",
+  newest: "desc",
+};
+
+// Each list matches any of its values; filters are combined with AND
 export interface CompanySearchFilters {
-  countryCode?: string;
+  countryCodes?: string[];
+  industries?: string[]; // As returned in facets
+  cities?: string[];
+  legalForms?: string[];
+  sizes?: string[];
+  services?: string[]; // Companies offering any of them
+  foundedFrom?: number; // Year, inclusive
+  foundedTo?: number; // Year, inclusive
   query?: string; // Search in company names or registration number
+  sort?: CompanySearchSort; // Default relevance with a query, else newest
+  order?: "asc" | "desc";
   limit?: number;
   offset?: number;
+  cursor?: string; // nextCursor of the previous page, instead of offset
+  count?: "exact" | "estimated"; // Estimated: from the query planner
+  facets?: boolean; // Count results per facet value (default true)
+}
+
+// Position after the last company of a page: its sort value (as text, so
+// it compares exactly) and ID, for the sort it was taken in
+interface SearchCursor {
+  sort: CompanySearchSort;
+  order: "asc" | "desc";
+  value: string;
+  id: number;
+}
+
+export interface CompanySuggestion {
+  id: number;
+  nameEn: string;
+  nameAr: string | null;
+  registrationNumber: string;
+  countryCode: string;
+  // Matched parts of each field, as [start, end) character offsets
+  highlights: {
+    nameEn: Array<[number, number]>;
+    nameAr: Array<[number, number]>;
+    registrationNumber: Array<[number, number]>;
+  };
 }
 
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 20;
+
+// Shorter queries match too much to suggest anything useful
+const MIN_SUGGESTION_QUERY_LENGTH = 2;
+
+// Suggestions are cached briefly: typing the same prefix again, or another
+// visitor typing it, doesn't hit the database
+const suggestionCache = createLruCache<CompanySuggestion[]>({
+  maxEntries: 1000,
+  ttlMs: 60 * 1000,
+});
+
+export type CompanySearchFacets = Record<
+  CompanySearchFacet,
+  Array<{ value: string; count: number }>
+>;
+
 export interface CompanyPublicData {
   id: number;
   nameEn: string;
@@ -32,59 +141,613 @@ export interface CompanyPublicData {
 }
 
 /**
- * Search companies
+ * The search columns of a company, kept in step with its names
+ * namePhonetic holds the phonetic keys of the words of both names, so a
+ * Latin spelling finds an Arabic name and vice versa.
  */
-export async function searchCompanies(filters: CompanySearchFilters) {
-  const where: any = {};
+export function getCompanySearchFields(
+  nameEn: string,
+  nameAr: string | null
+): {
+  nameEnNormalized: string;
+  nameArNormalized: string;
+  namePhonetic: string;
+} {
+  const nameEnNormalized = normalizeCompanyName(nameEn);
+  const nameArNormalized = nameAr ? normalizeCompanyName(nameAr) : "";
+  const keys = `${phoneticKey(nameEnNormalized)} ${phoneticKey(nameArNormalized)}`;
 
-  if (filters.countryCode) {
-    where.countryCode = filters.countryCode.toUpperCase();
-  }
+  return {
+    nameEnNormalized,
+    nameArNormalized,
+    namePhonetic: Array.from(new Set(keys.split(" ").filter(Boolean))).join(
+      " "
+    ),
+  };
+}
 
-  // Search in company names or registration number
-  if (filters.query) {
-    where.OR = [
-      {
-        nameEn: {
-          contains: filters.query,
-          mode: "insensitive",
-        },
-      },
-      {
-        nameAr: {
-          contains: filters.query,
-          mode: "insensitive",
-        },
-      },
-      {
-        registrationNumber: {
-          contains: filters.query,
-          mode: "insensitive",
-        },
+/**
+ * Recompute the normalised name columns of every company, e.g. after the
+ * normalisation rules change
+ * @returns The number of companies updated
+ */
+export async function rebuildCompanySearchIndex(): Promise<number> {
+  let updated = 0;
+  let cursor = 0;
+
+  for (;;) {
+    const companies = await prisma.company.findMany({
+      where: { id: { gt: cursor } },
+      select: {
+        id: true,
+        nameEn: true,
+        nameAr: true,
+        nameEnNormalized: true,
+        nameArNormalized: true,
+        namePhonetic: true,
       },
+      orderBy: { id: "asc" },
+      take: SEARCH_INDEX_BATCH_SIZE,
+    });
+
+    if (companies.length === 0) {
+      return updated;
+    }
+
+    for (const company of companies) {
+      const fields = getCompanySearchFields(company.nameEn, company.nameAr);
+
+      if (
+        fields.nameEnNormalized !== company.nameEnNormalized ||
+        fields.nameArNormalized !== company.nameArNormalized ||
+        fields.namePhonetic !== company.namePhonetic
+      ) {
+        await prisma.company.update({
+          where: { id: company.id },
+          data: fields,
+        });
+        updated++;
+      }
+    }
+
+    cursor = companies[companies.length - 1].id;
+  }
+}
+
+// Escape LIKE wildcards in user input
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+interface ParsedSearchQuery {
+  text: string; // As typed, trimmed
+  normalized: string; // normalizeCompanyName
+  phonetic: string | null; // phoneticKey, when long enough to be useful
+}
+
+/**
+ * Parse a search query into the forms it is matched in
+ */
+function parseSearchQuery(query: string): ParsedSearchQuery {
+  const normalized = normalizeCompanyName(query);
+  const phonetic = phoneticKey(normalized);
+
+  return {
+    text: query.trim(),
+    normalized,
+    phonetic:
+      phonetic.replace(/ /g, "").length >= MIN_PHONETIC_QUERY_LENGTH
+        ? phonetic
+        : null,
+  };
+}
+
+// foundedDate is free text ("1998", "1998-03-01"): its first 4-digit year
+const FOUNDED_YEAR = Prisma.sql`substring(c."foundedDate" from '[0-9]{4}')::int`;
+
+/**
+ * SQL conditions on "Company" c for the search filters, each tagged with
+ * the facet it filters on
+ */
+function buildSearchConditions(
+  filters: CompanySearchFilters,
+  query: ParsedSearchQuery | null
+): Array<{ facet?: CompanySearchFacet; sql: Prisma.Sql }> {
+  const conditions: Array<{ facet?: CompanySearchFacet; sql: Prisma.Sql }> =
+    [];
+
+  if (filters.countryCodes?.length) {
+    conditions.push({
+      facet: "country",
+      sql: Prisma.sql`c."countryCode" IN (${Prisma.join(
+        filters.countryCodes.map((code) => code.toUpperCase())
+      )})`,
+    });
+  }
+
+  if (filters.industries?.length) {
+    conditions.push({
+      facet: "industry",
+      sql: Prisma.sql`c."industry" IN (${Prisma.join(filters.industries)})`,
+    });
+  }
+
+  if (filters.cities?.length) {
+    conditions.push({
+      facet: "city",
+      sql: Prisma.sql`c."city" IN (${Prisma.join(filters.cities)})`,
+    });
+  }
+
+  if (filters.legalForms?.length) {
+    conditions.push({
+      facet: "legalForm",
+      sql: Prisma.sql`c."legalForm"::text IN (${Prisma.join(filters.legalForms)})`,
+    });
+  }
+
+  if (filters.sizes?.length) {
+    conditions.push({
+      sql: Prisma.sql`c."size" IN (${Prisma.join(filters.sizes)})`,
+    });
+  }
+
+  if (filters.services?.length) {
+    conditions.push({
+      sql: Prisma.sql`c."services" && ${filters.services}::text[]`,
+    });
+  }
+
+  if (filters.foundedFrom !== undefined) {
+    conditions.push({
+      sql: Prisma.sql`${FOUNDED_YEAR} >= ${filters.foundedFrom}`,
+    });
+  }
+
+  if (filters.foundedTo !== undefined) {
+    conditions.push({
+      sql: Prisma.sql`${FOUNDED_YEAR} <= ${filters.foundedTo}`,
+    });
+  }
+
+  if (query) {
+    const matches = [
+      Prisma.sql`c."registrationNumber" ILIKE ${`%${escapeLike(query.text)}%`}`,
     ];
+
+    // Names match when the query is similar to a word sequence in them
+    // (pg_trgm) or appears in them; in the other script, when it sounds
+    // like one (phonetic keys)
+    if (query.normalized) {
+      matches.push(
+        Prisma.sql`${query.normalized} <% c."nameEnNormalized"`,
+        Prisma.sql`${query.normalized} <% c."nameArNormalized"`,
+        Prisma.sql`c."nameEnNormalized" LIKE ${`%${query.normalized}%`}`,
+        Prisma.sql`c."nameArNormalized" LIKE ${`%${query.normalized}%`}`
+      );
+    }
+
+    if (query.phonetic) {
+      matches.push(Prisma.sql`${query.phonetic} <% c."namePhonetic"`);
+    }
+
+    conditions.push({ sql: Prisma.sql`(${Prisma.join(matches, " OR ")})` });
+  }
+
+  return conditions;
+}
+
+function toWhereClause(conditions: Array<{ sql: Prisma.Sql }>): Prisma.Sql {
+  return conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(
+        conditions.map((condition) => condition.sql),
+        " AND "
+      )}`
+    : Prisma.empty;
+}
+
+/**
+ * Count the results per value of each facet
+ * A facet's own filter is left out of its counts, so selecting a country
+ * still shows how many results the other countries have.
+ */
+async function getSearchFacets(
+  conditions: Array<{ facet?: CompanySearchFacet; sql: Prisma.Sql }>
+): Promise<CompanySearchFacets> {
+  const columns: Record<CompanySearchFacet, Prisma.Sql> = {
+    country: Prisma.sql`c."countryCode"`,
+    industry: Prisma.sql`c."industry"`,
+    city: Prisma.sql`c."city"`,
+    legalForm: Prisma.sql`c."legalForm"::text`,
+  };
+
+  const counts = await Promise.all(
+    COMPANY_SEARCH_FACETS.map(
+      (facet) => prisma.$queryRaw<Array<{ value: string; count: number }>>`
+        SELECT ${columns[facet]} AS "value", count(*)::int AS "count"
+        FROM "Company" c
+        ${toWhereClause(conditions.filter((c) => c.facet !== facet))}
+        GROUP BY 1
+        ORDER BY 2 DESC, 1
+        LIMIT ${FACET_LIMIT}
+      `
+    )
+  );
+
+  return Object.fromEntries(
+    COMPANY_SEARCH_FACETS.map((facet, i) => [facet, counts[i]])
+  ) as CompanySearchFacets;
+}
+
+/**
+ * SQL relevance of a company for a query: how closely a name matches, with
+ * a bonus for whole-name and prefix matches and for the registration number
+ * A match on sound alone ranks below a similar spelling.
+ */
+function buildRankExpression(query: ParsedSearchQuery) {
+  return Prisma.sql`(
+    GREATEST(
+      word_similarity(${query.normalized}, c."nameEnNormalized"),
+      word_similarity(${query.normalized}, c."nameArNormalized"),
+      ${
+        query.phonetic
+          ? Prisma.sql`${PHONETIC_MATCH_WEIGHT} * word_similarity(${query.phonetic}, c."namePhonetic")`
+          : Prisma.sql`0`
+      }
+    )
+    + CASE
+        WHEN c."nameEnNormalized" = ${query.normalized}
+          OR c."nameArNormalized" = ${query.normalized} THEN 1
+        WHEN c."nameEnNormalized" LIKE ${`${query.normalized}%`}
+          OR c."nameArNormalized" LIKE ${`${query.normalized}%`} THEN 0.5
+        ELSE 0
+      END
+    + CASE WHEN lower(c."registrationNumber") = ${query.text.toLowerCase()}
+        THEN 2 ELSE 0 END
+  )`;
+}
+
+type SortKeyType = "float8" | "int" | "text" | "timestamp";
+
+/**
+ * SQL sort key of a search: an expression ordered together with c."id" as
+ * a tie-breaker, and the type its cursor values are cast back to
+ * Companies without a founding year come last either way.
+ */
+function buildSortKey(
+  sort: CompanySearchSort,
+  order: "asc" | "desc",
+  query: ParsedSearchQuery | null
+): { key: Prisma.Sql; type: SortKeyType } {
+  switch (sort) {
+    case "relevance":
+      return query
+        ? {
+            key: Prisma.sql`${buildRankExpression(query)}::float8`,
+            type: "float8",
+          }
+        : buildSortKey("newest", order, query);
+    case "name":
+      return { key: Prisma.sql`c."nameEn"`, type: "text" };
+    case "founded":
+      return {
+        key: Prisma.sql`COALESCE(${FOUNDED_YEAR}, ${order === "asc" ? 9999 : 0})`,
+        type: "int",
+      };
+    case "updated":
+      return { key: Prisma.sql`c."updatedAt"`, type: "timestamp" };
+    case "newest":
+      return { key: Prisma.sql`c."createdAt"`, type: "timestamp" };
+  }
+}
+
+/**
+ * Whether a cursor's sort value casts to its sort key's type, so a tampered
+ * cursor is rejected before it reaches the database
+ */
+function isValidSortValue(type: SortKeyType, value: string): boolean {
+  switch (type) {
+    case "float8":
+      return (
+        /^-?\d+(\.\d+)?(e[-+]?\d+)?$/i.test(value) &&
+        isFinite(Number(value))
+      );
+    case "int":
+      return /^-?\d{1,9}$/.test(value);
+    case "text":
+      return true;
+    case "timestamp": {
+      // As Postgres prints a timestamp(3): "2025-06-01 09:30:00.123"
+      const iso = value.replace(" ", "T");
+      const date = new Date(`${iso}Z`);
+      return (
+        /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,3})?$/.test(value) &&
+        !isNaN(date.getTime()) &&
+        date.toISOString().startsWith(iso.slice(0, 19))
+      );
+    }
   }
+}
+
+function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
 
-  const companies = await prisma.company.findMany({
-    where,
+/**
+ * Read a cursor returned with a previous page
+ * @throws "Invalid cursor" if it isn't one, or was taken in another sort
+ */
+function decodeSearchCursor(
+  value: string,
+  sort: CompanySearchSort,
+  order: "asc" | "desc"
+): SearchCursor {
+  let cursor: Partial<SearchCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (
+    !cursor ||
+    cursor.sort !== sort ||
+    cursor.order !== order ||
+    typeof cursor.value !== "string" ||
+    typeof cursor.id !== "number" ||
+    !Number.isInteger(cursor.id) ||
+    cursor.id < 0 ||
+    cursor.id > MAX_INT
+  ) {
+    throw new Error("Invalid cursor");
+  }
+
+  return cursor as SearchCursor;
+}
+
+/**
+ * The query planner's estimate of the number of matching companies
+ * Much cheaper than counting when many companies match, but can be far off
+ * for selective filters.
+ */
+async function estimateSearchTotal(where: Prisma.Sql): Promise<number> {
+  const [row] = await prisma.$queryRaw<
+    Array<{ "QUERY PLAN": Array<{ Plan: { "Plan Rows": number } }> }>
+  >`EXPLAIN (FORMAT JSON) SELECT 1 FROM "Company" c ${where}`;
+
+  return Math.round(row["QUERY PLAN"][0].Plan["Plan Rows"]);
+}
+
+/**
+ * Search companies
+ * With a query, names are matched in both scripts after normalisation (see
+ * src/utils/arabic.ts) and across scripts by sound (see
+ * src/utils/transliteration.ts), and results are ordered by relevance;
+ * otherwise the newest companies come first. Facet counts cover all
+ * matching companies, not just the page.
+ *
+ * Pages are taken by offset or, from the second page on, by the cursor
+ * returned with the previous page: cursors don't skip or repeat companies
+ * when companies are added in between, and stay fast on deep pages.
+ */
+export async function searchCompanies(filters: CompanySearchFilters) {
+  const limit = Math.min(
+    Math.max(filters.limit || DEFAULT_SEARCH_LIMIT, 1),
+    MAX_SEARCH_LIMIT
+  );
+  const offset = filters.cursor ? 0 : Math.max(filters.offset || 0, 0);
+  const query = filters.query?.trim() ? parseSearchQuery(filters.query) : null;
+  const sort = filters.sort || (query ? "relevance" : "newest");
+  const order = filters.order || DEFAULT_SORT_ORDERS[sort];
+  const cursor = filters.cursor
+    ? decodeSearchCursor(filters.cursor, sort, order)
+    : null;
+  const conditions = buildSearchConditions(filters, query);
+  const where = toWhereClause(conditions);
+
+  const { key, type } = buildSortKey(sort, order, query);
+  if (cursor && !isValidSortValue(type, cursor.value)) {
+    throw new Error("Invalid cursor");
+  }
+  const direction = order === "asc" ? Prisma.sql`ASC` : Prisma.sql`DESC`;
+  const pageConditions = cursor
+    ? [
+        ...conditions,
+        {
+          sql: Prisma.sql`(${key}, c."id") ${order === "asc" ? Prisma.sql`>` : Prisma.sql`<`} (${cursor.value}::${Prisma.raw(type)}, ${cursor.id})`,
+        },
+      ]
+    : conditions;
+
+  // One more row than the page tells whether there is a next page
+  const [rows, total, facets] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: number; sortValue: string }>>`
+      SELECT c."id", (${key})::text AS "sortValue" FROM "Company" c
+      ${toWhereClause(pageConditions)}
+      ORDER BY ${key} ${direction}, c."id" ${direction}
+      LIMIT ${limit + 1} OFFSET ${offset}
+    `,
+    filters.count === "estimated"
+      ? estimateSearchTotal(where)
+      : prisma.$queryRaw<Array<{ total: number }>>`
+          SELECT count(*)::int AS "total" FROM "Company" c ${where}
+        `.then(([row]) => row.total),
+    filters.facets !== false ? getSearchFacets(conditions) : null,
+  ]);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  // Load the page and put it back in sorted order
+  const found = await prisma.company.findMany({
+    where: { id: { in: page.map((row) => row.id) } },
     include: {
       country: true,
     },
-    take: filters.limit || 50,
-    skip: filters.offset || 0,
-    orderBy: { createdAt: "desc" },
   });
+  const byId = new Map(found.map((company) => [company.id, company]));
+  const companies = page
+    .map((row) => byId.get(row.id))
+    .filter((company) => company !== undefined);
 
-  const total = await prisma.company.count({ where });
+  const last = page[page.length - 1];
+
+  // Without a cursor the companies seen so far are known: an estimate
+  // can't be below them, and is exact on the last page
+  let reportedTotal = total;
+  let totalIsEstimate = filters.count === "estimated";
+  if (totalIsEstimate && !cursor) {
+    if (hasMore) {
+      reportedTotal = Math.max(total, offset + limit + 1);
+    } else if (page.length > 0 || offset === 0) {
+      reportedTotal = offset + page.length;
+      totalIsEstimate = false;
+    }
+  }
 
   return {
     companies,
-    total,
-    limit: filters.limit || 50,
-    offset: filters.offset || 0,
+    total: reportedTotal,
+    totalIsEstimate,
+    limit,
+    offset: cursor ? null : offset,
+    sort,
+    order,
+    hasMore,
+    nextCursor: hasMore
+      ? encodeSearchCursor({ sort, order, value: last.sortValue, id: last.id })
+      : null,
+    facets,
   };
 }
 
+// Words of a name as typed, with their offsets
+const WORD = /[^\s\-_.,;:()[\]/&'"]+/g;
+
+/**
+ * Find the words of a field that start with one of the query's words
+ * A word spelled the same way as typed has just the typed part highlighted;
+ * one that only matches after normalisation (diacritics, "ال") is
+ * highlighted whole.
+ */
+function highlightMatches(
+  text: string | null,
+  queryWords: string[]
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  if (!text) {
+    return ranges;
+  }
+
+  WORD.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = WORD.exec(text))) {
+    const word = match[0];
+    const normalized = normalizeSearchText(word).split(" ");
+    const queryWord = queryWords.find((q) =>
+      normalized.some((n) => n.startsWith(q))
+    );
+
+    if (queryWord) {
+      const length = word.toLowerCase().startsWith(queryWord)
+        ? queryWord.length
+        : word.length;
+      ranges.push([match.index, match.index + length]);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Suggest companies as a name or registration number is typed
+ * Names match when they, or one of their words, start with the query; whole
+ * name prefixes come first, then shorter names. Results are cached for a
+ * minute.
+ */
+export async function suggestCompanies(
+  query: string,
+  options: { limit?: number; countryCode?: string } = {}
+): Promise<CompanySuggestion[]> {
+  const limit = Math.min(
+    options.limit || DEFAULT_SUGGESTION_LIMIT,
+    MAX_SUGGESTION_LIMIT
+  );
+  const countryCode = options.countryCode?.toUpperCase();
+  const text = query.trim();
+  const normalized = normalizeCompanyName(text);
+
+  if (
+    normalized.length < MIN_SUGGESTION_QUERY_LENGTH &&
+    text.length < MIN_SUGGESTION_QUERY_LENGTH
+  ) {
+    return [];
+  }
+
+  const cacheKey = `${countryCode || ""}:${limit}:${normalized}:${text.toUpperCase()}`;
+  const cached = suggestionCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  // Prefix matches use the text_pattern_ops indexes, word prefixes the
+  // trigram ones
+  const prefix = `${normalized}%`;
+  const wordPrefix = `% ${normalized}%`;
+  const registrationPrefix = `${escapeLike(text.toUpperCase())}%`;
+
+  const registrationMatch = Prisma.sql`c."registrationNumber" LIKE ${registrationPrefix}`;
+  const namePrefixMatch = normalized
+    ? Prisma.sql`(c."nameEnNormalized" LIKE ${prefix}
+        OR c."nameArNormalized" LIKE ${prefix})`
+    : Prisma.sql`FALSE`;
+
+  const matches = [registrationMatch, namePrefixMatch];
+  if (normalized) {
+    matches.push(
+      Prisma.sql`c."nameEnNormalized" LIKE ${wordPrefix}`,
+      Prisma.sql`c."nameArNormalized" LIKE ${wordPrefix}`
+    );
+  }
+
+  const rows = await prisma.$queryRaw<
+    Array<Omit<CompanySuggestion, "highlights">>
+  >`
+    SELECT c."id", c."nameEn", c."nameAr", c."registrationNumber",
+      c."countryCode"
+    FROM "Company" c
+    WHERE (${Prisma.join(matches, " OR ")})
+    ${countryCode ? Prisma.sql`AND c."countryCode" = ${countryCode}` : Prisma.empty}
+    ORDER BY
+      CASE
+        WHEN ${namePrefixMatch} THEN 0
+        WHEN ${registrationMatch} THEN 1
+        ELSE 2
+      END,
+      length(c."nameEn"),
+      c."id"
+    LIMIT ${limit}
+  `;
+
+  const queryWords = normalized.split(" ").filter(Boolean);
+  const suggestions = rows.map((row) => ({
+    ...row,
+    highlights: {
+      nameEn: highlightMatches(row.nameEn, queryWords),
+      nameAr: highlightMatches(row.nameAr, queryWords),
+      registrationNumber: row.registrationNumber
+        .toUpperCase()
+        .startsWith(text.toUpperCase())
+        ? [[0, text.length] as [number, number]]
+        : [],
+    },
+  }));
+
+  suggestionCache.set(cacheKey, suggestions);
+  return suggestions;
+}
+
 /**
  * Get company public data
  * Guest users can access this
@@ -134,7 +797,8 @@ export async function getCompanyPublicData(
  */
 export async function getCompanyReports(
   companyId: number,
-  isUserVerified: boolean = false
+  isUserVerified: boolean = false,
+  displayCurrency?: string
 ) {
   const company = await prisma.company.findUnique({
     where: { id: companyId },
@@ -144,6 +808,13 @@ export async function getCompanyReports(
         where: {
           isActive: true,
         },
+        include: {
+          languages: {
+            select: { language: true, surcharge: true, extraDays: true },
+          },
+          product: { select: { sections: true } },
+          _count: { select: { samplePages: true } },
+        },
         orderBy: { createdAt: "desc" },
       },
     },
@@ -156,25 +827,69 @@ export async function getCompanyReports(
   // Get only reports assigned to this company (filtered by isActive)
   const reports = company.reports;
 
+  // What the report contains, and its public sample if there is one
+  const preview = (report: (typeof reports)[number]) => {
+    const tableOfContents = getTableOfContents(report);
+
+    return {
+      tableOfContents,
+      sampleUrl:
+        tableOfContents.length > 0 || report._count.samplePages > 0
+          ? `/api/reports/${report.id}/sample`
+          : null,
+    };
+  };
+
   // For unverified users, return metadata only (no pricing details)
   if (!isUserVerified) {
     return reports.map((report) => ({
       id: report.id,
       name: report.name,
       description: report.description,
-      turnaround: report.turnaround,
+      turnaroundMinDays: report.turnaroundMinDays,
+      turnaroundMaxDays: report.turnaroundMaxDays,
+      languages: sortLanguageOptions(report.languages).map(
+        ({ language, extraDays }) => ({ language, extraDays })
+      ),
+      ...preview(report),
       // Don't include price for unverified users
       canPurchase: false,
     }));
   }
 
+  const convert = displayCurrency ? await createCurrencyConverter() : null;
+
   // For verified users, return full details including price
+  // (minor units of the report's currency, plus a converted display price)
   return reports.map((report) => ({
     id: report.id,
     name: report.name,
     description: report.description,
-    turnaround: report.turnaround,
+    turnaroundMinDays: report.turnaroundMinDays,
+    turnaroundMaxDays: report.turnaroundMaxDays,
     price: report.price,
+    currency: report.currency,
+    ...(convert && displayCurrency
+      ? {
+          displayPrice: convert(report.price, report.currency, displayCurrency),
+          displayCurrency,
+        }
+      : {}),
+    // Delivery languages; surcharge is added to price, extraDays to the
+    // turnaround
+    languages: sortLanguageOptions(report.languages).map((option) => ({
+      ...option,
+      ...(convert && displayCurrency
+        ? {
+            displaySurcharge: convert(
+              option.surcharge,
+              report.currency,
+              displayCurrency
+            ),
+          }
+        : {}),
+    })),
+    ...preview(report),
     canPurchase: true,
   }));
 }
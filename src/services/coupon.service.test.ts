@@ -0,0 +1,204 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  evaluateCoupon,
+  normalizeCouponCode,
+  NO_ELIGIBLE_ITEMS,
+  type CouponClient,
+  type CouponDefinition,
+  type CouponLineInput,
+} from "./coupon.service.js";
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+const coupon = (
+  overrides: Partial<CouponDefinition> = {}
+): CouponDefinition => ({
+  id: 1,
+  code: "WELCOME",
+  description: null,
+  type: "PERCENTAGE",
+  percentOff: 0.1,
+  amountOff: null,
+  currency: null,
+  minSubtotal: null,
+  validFrom: null,
+  validTo: null,
+  maxRedemptions: null,
+  perUserLimit: null,
+  countryCodes: [],
+  reportIds: [],
+  isActive: true,
+  ...overrides,
+});
+
+const line = (
+  amount: number,
+  overrides: Partial<CouponLineInput> = {}
+): CouponLineInput => ({
+  reportId: 7,
+  countryCode: "AE",
+  currency: "AED",
+  amount,
+  ...overrides,
+});
+
+// Redemptions of orders that were not cancelled: in total, and by the user
+function withRedemptions(total: number, byUser: number): CouponClient {
+  const couponRedemption = {
+    count: async (args: {
+      where: { userId?: number; order: { status: { not: string } } };
+    }) => {
+      assert.equal(args.where.order.status.not, "CANCELLED");
+      return args.where.userId === undefined ? total : byUser;
+    },
+  };
+
+  return { couponRedemption } as unknown as CouponClient;
+}
+
+const evaluate = (
+  definition: CouponDefinition,
+  lines: CouponLineInput[],
+  client: CouponClient = withRedemptions(0, 0)
+) => evaluateCoupon(definition, 42, lines, client, NOW);
+
+describe("normalizeCouponCode", () => {
+  it("trims and upper-cases codes", () => {
+    assert.equal(normalizeCouponCode("  welcome10 "), "WELCOME10");
+  });
+});
+
+describe("evaluateCoupon", () => {
+  it("discounts every eligible line by a percentage", async () => {
+    assert.deepEqual(await evaluate(coupon(), [line(10000), line(2504)]), {
+      discounts: [1000, 250],
+      error: null,
+    });
+  });
+
+  it("spreads a fixed amount over eligible lines in proportion", async () => {
+    const result = await evaluate(
+      coupon({ type: "FIXED_AMOUNT", amountOff: 1000, currency: "AED" }),
+      [line(3000), line(6000, { currency: "SAR" }), line(1000)]
+    );
+
+    assert.deepEqual(result.discounts, [750, 0, 250]);
+  });
+
+  it("never discounts more than the eligible lines", async () => {
+    const result = await evaluate(
+      coupon({ type: "FIXED_AMOUNT", amountOff: 5000, currency: "AED" }),
+      [line(1200), line(800)]
+    );
+
+    assert.deepEqual(result.discounts, [1200, 800]);
+  });
+
+  it("rejects amounts without a currency to compare them in", async () => {
+    const fixed = await evaluate(
+      coupon({ type: "FIXED_AMOUNT", amountOff: 1000 }),
+      [line(10000)]
+    );
+    const minimum = await evaluate(coupon({ minSubtotal: 20000 }), [
+      line(30000),
+    ]);
+
+    assert.deepEqual(fixed, {
+      discounts: [0],
+      error: "Coupon has no currency set",
+    });
+    assert.equal(minimum.error, "Coupon has no currency set");
+  });
+
+  it("rejects inactive coupons", async () => {
+    const result = await evaluate(coupon({ isActive: false }), [line(10000)]);
+
+    assert.deepEqual(result, {
+      discounts: [0],
+      error: "Coupon is not active",
+    });
+  });
+
+  it("only applies within its validity period", async () => {
+    const early = await evaluate(
+      coupon({ validFrom: new Date("2026-03-02T00:00:00Z") }),
+      [line(10000)]
+    );
+    const late = await evaluate(coupon({ validTo: NOW }), [line(10000)]);
+
+    assert.equal(early.error, "Coupon is not valid yet");
+    assert.equal(late.error, "Coupon has expired");
+  });
+
+  it("stops at its total redemption limit", async () => {
+    const definition = coupon({ maxRedemptions: 100 });
+
+    const under = await evaluate(
+      definition,
+      [line(10000)],
+      withRedemptions(99, 0)
+    );
+    const reached = await evaluate(
+      definition,
+      [line(10000)],
+      withRedemptions(100, 0)
+    );
+
+    assert.equal(under.error, null);
+    assert.deepEqual(reached, {
+      discounts: [0],
+      error: "Coupon has reached its redemption limit",
+    });
+  });
+
+  it("stops at its per-user limit", async () => {
+    const definition = coupon({ maxRedemptions: 100, perUserLimit: 1 });
+
+    const first = await evaluate(
+      definition,
+      [line(10000)],
+      withRedemptions(50, 0)
+    );
+    const second = await evaluate(
+      definition,
+      [line(10000)],
+      withRedemptions(50, 1)
+    );
+
+    assert.equal(first.error, null);
+    assert.equal(second.error, "Coupon usage limit reached for this account");
+  });
+
+  it("only discounts lines for its countries and reports", async () => {
+    const result = await evaluate(
+      coupon({ countryCodes: ["AE"], reportIds: [7] }),
+      [
+        line(10000),
+        line(10000, { countryCode: "SA" }),
+        line(10000, { reportId: 8 }),
+      ]
+    );
+
+    assert.deepEqual(result.discounts, [1000, 0, 0]);
+  });
+
+  it("explains when no line is eligible", async () => {
+    const result = await evaluate(coupon({ reportIds: [8] }), [line(10000)]);
+
+    assert.equal(result.error, NO_ELIGIBLE_ITEMS);
+  });
+
+  it("requires the minimum subtotal on eligible lines", async () => {
+    const definition = coupon({ minSubtotal: 20000, currency: "AED" });
+
+    const below = await evaluate(definition, [
+      line(15000),
+      line(10000, { currency: "SAR" }),
+    ]);
+    const reached = await evaluate(definition, [line(15000), line(5000)]);
+
+    assert.equal(below.error, "Coupon requires a minimum subtotal of 200 AED");
+    assert.equal(reached.error, null);
+  });
+});
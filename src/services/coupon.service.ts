@@ -0,0 +1,222 @@
+import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+import { toMajorUnits } from "./currency.service.js";
+
+export type CouponClient = Prisma.TransactionClient | typeof prisma;
+
+export interface CouponDefinition {
+  id: number;
+  code: string;
+  description: string | null;
+  type: "PERCENTAGE" | "FIXED_AMOUNT";
+  percentOff: number | null;
+  amountOff: number | null;
+  currency: string | null;
+  minSubtotal: number | null;
+  validFrom: Date | null;
+  validTo: Date | null;
+  maxRedemptions: number | null;
+  perUserLimit: number | null;
+  countryCodes: string[];
+  reportIds: number[];
+  isActive: boolean;
+}
+
+export interface CouponLineInput {
+  reportId: number;
+  countryCode: string;
+  currency: string;
+  amount: number; // Line amount before discount (minor units)
+}
+
+export interface CouponEvaluation {
+  discounts: number[]; // Discount per line, in the line's currency
+  error: string | null; // Why the coupon currently gives no discount
+}
+
+export const NO_ELIGIBLE_ITEMS = "Coupon does not apply to any items in the cart";
+
+/**
+ * Coupon codes are case-insensitive and stored upper-cased
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Fixed amounts and minimum subtotals are in minor units of the coupon's
+ * currency, so those coupons need one
+ */
+export function requiresCouponCurrency(
+  coupon: Pick<CouponDefinition, "type" | "minSubtotal">
+): boolean {
+  return coupon.type === "FIXED_AMOUNT" || coupon.minSubtotal !== null;
+}
+
+function isEligibleLine(coupon: CouponDefinition, line: CouponLineInput) {
+  return (
+    (!coupon.currency || line.currency === coupon.currency) &&
+    (coupon.countryCodes.length === 0 ||
+      coupon.countryCodes.includes(line.countryCode)) &&
+    (coupon.reportIds.length === 0 || coupon.reportIds.includes(line.reportId))
+  );
+}
+
+/**
+ * Count redemptions towards the coupon's limits
+ * Orders that were cancelled give their redemption back
+ */
+async function countRedemptions(
+  client: CouponClient,
+  couponId: number,
+  userId?: number
+): Promise<number> {
+  return client.couponRedemption.count({
+    where: {
+      couponId,
+      userId,
+      order: { status: { not: "CANCELLED" } },
+    },
+  });
+}
+
+/**
+ * Split a discount over the eligible lines
+ * Percentage coupons discount each line; fixed amounts are spread in proportion
+ * to the line amounts, with the rounding remainder on the last line
+ */
+function distributeDiscount(
+  coupon: CouponDefinition,
+  lines: CouponLineInput[],
+  eligible: number[]
+): number[] {
+  const discounts = lines.map(() => 0);
+
+  if (coupon.type === "PERCENTAGE") {
+    for (const index of eligible) {
+      discounts[index] = Math.round(
+        lines[index].amount * (coupon.percentOff || 0)
+      );
+    }
+    return discounts;
+  }
+
+  const eligibleTotal = eligible.reduce(
+    (sum, index) => sum + lines[index].amount,
+    0
+  );
+  const amount = Math.min(coupon.amountOff || 0, eligibleTotal);
+  let remaining = amount;
+
+  eligible.forEach((index, position) => {
+    const share =
+      position === eligible.length - 1
+        ? remaining
+        : Math.round((amount * lines[index].amount) / eligibleTotal);
+    discounts[index] = share;
+    remaining -= share;
+  });
+
+  return discounts;
+}
+
+/**
+ * Work out what a coupon is worth for a set of cart lines
+ * Never throws for an unusable coupon: the reason is returned in `error`
+ * and every line gets a zero discount
+ */
+export async function evaluateCoupon(
+  coupon: CouponDefinition,
+  userId: number,
+  lines: CouponLineInput[],
+  client: CouponClient = prisma,
+  at: Date = new Date()
+): Promise<CouponEvaluation> {
+  const none = (error: string): CouponEvaluation => ({
+    discounts: lines.map(() => 0),
+    error,
+  });
+
+  if (!coupon.isActive) {
+    return none("Coupon is not active");
+  }
+
+  if (requiresCouponCurrency(coupon) && !coupon.currency) {
+    return none("Coupon has no currency set");
+  }
+
+  if (coupon.validFrom && coupon.validFrom > at) {
+    return none("Coupon is not valid yet");
+  }
+
+  if (coupon.validTo && coupon.validTo <= at) {
+    return none("Coupon has expired");
+  }
+
+  if (
+    coupon.maxRedemptions !== null &&
+    (await countRedemptions(client, coupon.id)) >= coupon.maxRedemptions
+  ) {
+    return none("Coupon has reached its redemption limit");
+  }
+
+  if (
+    coupon.perUserLimit !== null &&
+    (await countRedemptions(client, coupon.id, userId)) >= coupon.perUserLimit
+  ) {
+    return none("Coupon usage limit reached for this account");
+  }
+
+  const eligible = lines
+    .map((line, index) => (isEligibleLine(coupon, line) ? index : -1))
+    .filter((index) => index >= 0);
+
+  if (eligible.length === 0) {
+    return none(NO_ELIGIBLE_ITEMS);
+  }
+
+  const eligibleSubtotal = eligible.reduce(
+    (sum, index) => sum + lines[index].amount,
+    0
+  );
+
+  if (coupon.minSubtotal !== null && eligibleSubtotal < coupon.minSubtotal) {
+    const currency = coupon.currency!;
+    return none(
+      `Coupon requires a minimum subtotal of ${toMajorUnits(coupon.minSubtotal, currency)} ${currency}`
+    );
+  }
+
+  return {
+    discounts: distributeDiscount(coupon, lines, eligible),
+    error: null,
+  };
+}
+
+/**
+ * Record that an order used a coupon
+ * Runs inside the checkout transaction
+ */
+export async function recordCouponRedemption(
+  tx: Prisma.TransactionClient,
+  input: {
+    couponId: number;
+    userId: number;
+    orderId: number;
+    discount: number;
+    currency: string;
+  }
+): Promise<void> {
+  await tx.couponRedemption.create({ data: input });
+}
+
+/**
+ * Lock a coupon row until the end of the transaction, so concurrent checkouts
+ * can't both take the last redemption
+ */
+export async function lockCoupon(
+  tx: Prisma.TransactionClient,
+  couponId: number
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM "Coupon" WHERE id = ${couponId} FOR UPDATE`;
+}
@@ -0,0 +1,220 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  CreditEntryType,
+  Prisma,
+} from "../../generated/prisma/client";
+import {
+  debitCreditsForOrder,
+  getCreditRefundableForOrder,
+  getCreditValidityDays,
+  refundCreditsForOrder,
+} from "./credit.service.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+interface LedgerEntry {
+  id: number;
+  type: CreditEntryType;
+  amount: number;
+  expiresAt: Date | null;
+  sourceEntryId: number | null;
+  orderId: number | null;
+}
+
+type SeedEntry = Pick<LedgerEntry, "type" | "amount"> &
+  Partial<Omit<LedgerEntry, "id" | "type" | "amount">>;
+
+// One account's ledger held in memory, served through the queries the
+// service makes inside its transaction
+function createLedger(seed: SeedEntry[]) {
+  const entries: LedgerEntry[] = [];
+  const account = { id: 1, balance: 0 };
+
+  const append = (data: SeedEntry) => {
+    const entry: LedgerEntry = {
+      id: entries.length + 1,
+      expiresAt: null,
+      sourceEntryId: null,
+      orderId: null,
+      ...data,
+    };
+    entries.push(entry);
+    return entry;
+  };
+
+  for (const data of seed) {
+    account.balance += append(data).amount;
+  }
+
+  const tx = {
+    creditAccount: {
+      upsert: async () => account,
+      update: async (args: { data: { balance: number } }) => {
+        account.balance = args.data.balance;
+        return account;
+      },
+    },
+    $queryRaw: async () => [{ ...account }],
+    creditLedgerEntry: {
+      findMany: async () => [...entries],
+      create: async (args: { data: SeedEntry }) => append(args.data),
+      aggregate: async (args: {
+        where: { orderId: number; type: { in: CreditEntryType[] } };
+      }) => ({
+        _sum: {
+          amount: entries
+            .filter(
+              (entry) =>
+                entry.orderId === args.where.orderId &&
+                args.where.type.in.includes(entry.type)
+            )
+            .reduce((sum, entry) => sum + entry.amount, 0),
+        },
+      }),
+    },
+  };
+
+  return {
+    tx: tx as unknown as Prisma.TransactionClient,
+    entries,
+    account,
+  };
+}
+
+const order = { id: 10, userId: 1, currency: "AED", total: 0 };
+
+describe("getCreditValidityDays", () => {
+  afterEach(() => {
+    delete process.env.CREDIT_VALIDITY_DAYS;
+  });
+
+  it("defaults to a year", () => {
+    assert.equal(getCreditValidityDays(), 365);
+  });
+
+  it("reads CREDIT_VALIDITY_DAYS", () => {
+    process.env.CREDIT_VALIDITY_DAYS = "90";
+    assert.equal(getCreditValidityDays(), 90);
+  });
+
+  it("ignores invalid values", () => {
+    process.env.CREDIT_VALIDITY_DAYS = "-5";
+    assert.equal(getCreditValidityDays(), 365);
+  });
+});
+
+describe("debitCreditsForOrder", () => {
+  it("writes off expired credit before paying", async () => {
+    const { tx, entries, account } = createLedger([
+      { type: "TOP_UP", amount: 5000, expiresAt: daysFromNow(-1) },
+      { type: "TOP_UP", amount: 3000, expiresAt: daysFromNow(30) },
+    ]);
+
+    await debitCreditsForOrder(tx, { ...order, total: 2000 });
+
+    assert.deepEqual(
+      entries.slice(2).map((e) => [e.type, e.amount, e.sourceEntryId]),
+      [
+        ["EXPIRY", -5000, 1],
+        ["DEBIT", -2000, null],
+      ]
+    );
+    assert.equal(account.balance, 1000);
+  });
+
+  it("cannot spend expired credit", async () => {
+    const { tx } = createLedger([
+      { type: "TOP_UP", amount: 5000, expiresAt: daysFromNow(-1) },
+    ]);
+
+    await assert.rejects(
+      debitCreditsForOrder(tx, { ...order, total: 1000 }),
+      /Insufficient credit balance/
+    );
+  });
+
+  it("has earlier spending use the credit that expires first", async () => {
+    const { tx, entries, account } = createLedger([
+      { type: "TOP_UP", amount: 3000, expiresAt: daysFromNow(30) },
+      { type: "TOP_UP", amount: 3000, expiresAt: daysFromNow(-1) },
+      { type: "DEBIT", amount: -2000, orderId: 9 },
+    ]);
+
+    await debitCreditsForOrder(tx, { ...order, total: 1000 });
+
+    // Only the part of the expired top-up the debit didn't use is written off
+    assert.deepEqual(
+      entries.slice(3).map((e) => [e.type, e.amount, e.sourceEntryId]),
+      [
+        ["EXPIRY", -1000, 2],
+        ["DEBIT", -1000, null],
+      ]
+    );
+    assert.equal(account.balance, 2000);
+  });
+
+  it("spends credit that never expires last", async () => {
+    const { tx, entries } = createLedger([
+      { type: "ADJUSTMENT", amount: 3000 },
+      { type: "TOP_UP", amount: 3000, expiresAt: daysFromNow(-1) },
+      { type: "DEBIT", amount: -4000, orderId: 9 },
+    ]);
+
+    await debitCreditsForOrder(tx, { ...order, total: 2000 });
+
+    assert.deepEqual(
+      entries.slice(3).map((e) => [e.type, e.amount]),
+      [["DEBIT", -2000]]
+    );
+  });
+
+  it("does not expire credit that was already written off", async () => {
+    const { tx, entries, account } = createLedger([
+      { type: "TOP_UP", amount: 3000, expiresAt: daysFromNow(30) },
+      { type: "TOP_UP", amount: 2000, expiresAt: daysFromNow(-1) },
+      { type: "EXPIRY", amount: -2000, sourceEntryId: 2 },
+    ]);
+
+    await debitCreditsForOrder(tx, { ...order, total: 3000 });
+
+    assert.deepEqual(
+      entries.slice(3).map((e) => [e.type, e.amount]),
+      [["DEBIT", -3000]]
+    );
+    assert.equal(account.balance, 0);
+  });
+});
+
+describe("refundCreditsForOrder", () => {
+  it("gives credit back with a fresh validity period", async () => {
+    const { tx, entries, account } = createLedger([
+      { type: "TOP_UP", amount: 5000, expiresAt: daysFromNow(1) },
+      { type: "DEBIT", amount: -5000, orderId: order.id },
+    ]);
+
+    await refundCreditsForOrder(tx, { order, creditNoteId: 3, amount: 2000 });
+
+    const refund = entries[2];
+    assert.equal(refund.type, "REFUND");
+    assert.equal(refund.amount, 2000);
+    assert.ok(refund.expiresAt! > daysFromNow(364));
+    assert.equal(account.balance, 2000);
+    assert.equal(await getCreditRefundableForOrder(tx, order.id), 3000);
+  });
+
+  it("never refunds more than the order took", async () => {
+    const { tx } = createLedger([
+      { type: "TOP_UP", amount: 5000, expiresAt: daysFromNow(30) },
+      { type: "DEBIT", amount: -3000, orderId: order.id },
+      { type: "REFUND", amount: 2000, orderId: order.id },
+    ]);
+
+    await assert.rejects(
+      refundCreditsForOrder(tx, { order, creditNoteId: 4, amount: 1500 }),
+      /Refund amount exceeds the credit paid for the order/
+    );
+  });
+});
@@ -0,0 +1,510 @@
+import { prisma } from "../config/db.js";
+import type {
+  CreditEntryType,
+  Prisma,
+} from "../../generated/prisma/client";
+
+// How long topped-up or refunded credit stays usable (CREDIT_VALIDITY_DAYS)
+const DEFAULT_VALIDITY_DAYS = 365;
+
+export interface CreditBalanceResponse {
+  currency: string;
+  balance: number; // Usable credit, minor units
+  nextExpiry: { amount: number; expiresAt: Date } | null;
+}
+
+export interface CreditEntryResponse {
+  id: number;
+  type: CreditEntryType;
+  currency: string;
+  amount: number; // Positive adds credit, negative uses it
+  balanceAfter: number;
+  expiresAt: Date | null;
+  orderNumber: string | null;
+  creditNoteNumber: string | null;
+  reason: string | null;
+  reference: string | null;
+  createdAt: Date;
+}
+
+export interface CreditOrderReconciliation {
+  orderId: number;
+  orderNumber: string;
+  userId: number;
+  currency: string;
+  status: string;
+  total: number;
+  debited: number; // Credit taken by DEBIT entries
+  refundedToCredit: number; // Credit given back by REFUND entries
+  creditNotesToCredit: number; // Credit notes of the order not refunded to a payment
+  balanced: boolean;
+}
+
+export interface CreditAccountReconciliation {
+  accountId: number;
+  userId: number;
+  currency: string;
+  balance: number;
+  ledgerBalance: number; // Sum of the account's entries
+  balanced: boolean;
+}
+
+interface CreditLot {
+  entryId: number;
+  remaining: number;
+  expiresAt: Date | null;
+}
+
+type LockedAccount = { id: number; balance: number };
+
+/**
+ * How long credit stays usable after a top-up or refund, in days
+ */
+export function getCreditValidityDays(): number {
+  const days = parseInt(process.env.CREDIT_VALIDITY_DAYS || "");
+  return days > 0 ? days : DEFAULT_VALIDITY_DAYS;
+}
+
+function defaultExpiry(): Date {
+  return new Date(Date.now() + getCreditValidityDays() * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Work out which credit-adding entries still have credit left
+ * Each EXPIRY uses up its own source entry; any other use takes the credit
+ * that expires first, and credit that never expires last.
+ */
+function getOpenLots(
+  entries: Array<{
+    id: number;
+    type: CreditEntryType;
+    amount: number;
+    expiresAt: Date | null;
+    sourceEntryId: number | null;
+  }>
+): CreditLot[] {
+  const lots: CreditLot[] = [];
+
+  for (const entry of entries) {
+    if (entry.amount > 0) {
+      lots.push({
+        entryId: entry.id,
+        remaining: entry.amount,
+        expiresAt: entry.expiresAt,
+      });
+      continue;
+    }
+
+    let toUse = -entry.amount;
+    const candidates =
+      entry.type === "EXPIRY"
+        ? lots.filter((lot) => lot.entryId === entry.sourceEntryId)
+        : lots
+            .filter((lot) => lot.remaining > 0)
+            .sort(
+              (a, b) =>
+                (a.expiresAt?.getTime() ?? Infinity) -
+                  (b.expiresAt?.getTime() ?? Infinity) || a.entryId - b.entryId
+            );
+
+    for (const lot of candidates) {
+      if (toUse === 0) break;
+      const used = Math.min(lot.remaining, toUse);
+      lot.remaining -= used;
+      toUse -= used;
+    }
+  }
+
+  return lots.filter((lot) => lot.remaining > 0);
+}
+
+/**
+ * Get (or open) the user's account in a currency and lock it until the end
+ * of the transaction, so concurrent entries queue and balances stay in order
+ */
+async function lockAccount(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  currency: string
+): Promise<LockedAccount> {
+  const account = await tx.creditAccount.upsert({
+    where: { userId_currency: { userId, currency } },
+    create: { userId, currency },
+    update: {},
+  });
+
+  const [locked] = await tx.$queryRaw<LockedAccount[]>`
+    SELECT id, balance FROM "CreditAccount" WHERE id = ${account.id} FOR UPDATE`;
+
+  return locked;
+}
+
+/**
+ * Append an entry to a locked account and move its balance
+ * The balance can never go negative
+ */
+async function appendEntry(
+  tx: Prisma.TransactionClient,
+  account: LockedAccount,
+  data: Omit<
+    Prisma.CreditLedgerEntryUncheckedCreateInput,
+    "accountId" | "balanceAfter"
+  >
+) {
+  const balanceAfter = account.balance + data.amount;
+
+  if (balanceAfter < 0) {
+    throw new Error("Insufficient credit balance");
+  }
+
+  const entry = await tx.creditLedgerEntry.create({
+    data: { ...data, accountId: account.id, balanceAfter },
+  });
+
+  await tx.creditAccount.update({
+    where: { id: account.id },
+    data: { balance: balanceAfter },
+  });
+
+  account.balance = balanceAfter;
+  return entry;
+}
+
+/**
+ * Record EXPIRY entries for the unused credit of expired entries
+ * @returns Number of entries whose credit expired
+ */
+async function expireLockedAccount(
+  tx: Prisma.TransactionClient,
+  account: LockedAccount,
+  now: Date = new Date()
+): Promise<number> {
+  const entries = await tx.creditLedgerEntry.findMany({
+    where: { accountId: account.id },
+    orderBy: { id: "asc" },
+  });
+
+  const expired = getOpenLots(entries).filter(
+    (lot) => lot.expiresAt && lot.expiresAt <= now
+  );
+
+  for (const lot of expired) {
+    await appendEntry(tx, account, {
+      type: "EXPIRY",
+      amount: -lot.remaining,
+      sourceEntryId: lot.entryId,
+    });
+  }
+
+  return expired.length;
+}
+
+/**
+ * Add prepaid credit to a user's account
+ * Expires after CREDIT_VALIDITY_DAYS unless an expiry is given
+ */
+export async function topUpCredits(input: {
+  userId: number;
+  currency: string;
+  amount: number;
+  expiresAt?: Date;
+  reference?: string;
+  adminId: number;
+}) {
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    throw new Error("Top-up amount must be a positive integer");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const account = await lockAccount(tx, input.userId, input.currency);
+
+    return appendEntry(tx, account, {
+      type: "TOP_UP",
+      amount: input.amount,
+      expiresAt: input.expiresAt ?? defaultExpiry(),
+      reference: input.reference,
+      createdById: input.adminId,
+    });
+  });
+}
+
+/**
+ * Correct a user's credit by hand; the reason is kept on the entry
+ * Positive adjustments only expire when an expiry is given
+ */
+export async function adjustCredits(input: {
+  userId: number;
+  currency: string;
+  amount: number;
+  reason: string;
+  expiresAt?: Date;
+  adminId: number;
+}) {
+  if (!Number.isInteger(input.amount) || input.amount === 0) {
+    throw new Error("Adjustment amount must be a non-zero integer");
+  }
+
+  if (!input.reason.trim()) {
+    throw new Error("Adjustment reason is required");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const account = await lockAccount(tx, input.userId, input.currency);
+
+    if (input.amount < 0) {
+      await expireLockedAccount(tx, account);
+    }
+
+    return appendEntry(tx, account, {
+      type: "ADJUSTMENT",
+      amount: input.amount,
+      expiresAt: input.amount > 0 ? input.expiresAt : undefined,
+      reason: input.reason.trim(),
+      createdById: input.adminId,
+    });
+  });
+}
+
+/**
+ * Pay an order with the user's credit in the order's currency
+ * Expired credit is written off first so it can't be spent.
+ * Runs inside the caller's transaction
+ */
+export async function debitCreditsForOrder(
+  tx: Prisma.TransactionClient,
+  order: { id: number; userId: number; currency: string; total: number }
+) {
+  const account = await lockAccount(tx, order.userId, order.currency);
+  await expireLockedAccount(tx, account);
+
+  return appendEntry(tx, account, {
+    type: "DEBIT",
+    amount: -order.total,
+    orderId: order.id,
+  });
+}
+
+/**
+ * Credit still refundable to the wallet for an order: what it debited
+ * less what was already given back
+ */
+export async function getCreditRefundableForOrder(
+  client: Prisma.TransactionClient | typeof prisma,
+  orderId: number
+): Promise<number> {
+  const { _sum } = await client.creditLedgerEntry.aggregate({
+    where: { orderId, type: { in: ["DEBIT", "REFUND"] } },
+    _sum: { amount: true },
+  });
+
+  return -(_sum.amount ?? 0);
+}
+
+/**
+ * Give credit back for refunded lines of an order paid with credit
+ * The refunded credit gets a fresh validity period.
+ * Runs inside the caller's transaction
+ */
+export async function refundCreditsForOrder(
+  tx: Prisma.TransactionClient,
+  input: {
+    order: { id: number; userId: number; currency: string };
+    creditNoteId: number;
+    amount: number;
+  }
+) {
+  const { order } = input;
+  const account = await lockAccount(tx, order.userId, order.currency);
+
+  if ((await getCreditRefundableForOrder(tx, order.id)) < input.amount) {
+    throw new Error("Refund amount exceeds the credit paid for the order");
+  }
+
+  return appendEntry(tx, account, {
+    type: "REFUND",
+    amount: input.amount,
+    expiresAt: defaultExpiry(),
+    orderId: order.id,
+    creditNoteId: input.creditNoteId,
+  });
+}
+
+/**
+ * Write off expired credit on every account that has some
+ * @returns Number of entries whose credit expired
+ */
+export async function expireCredits(now: Date = new Date()): Promise<number> {
+  const accounts = await prisma.creditAccount.findMany({
+    where: {
+      balance: { gt: 0 },
+      entries: { some: { amount: { gt: 0 }, expiresAt: { lte: now } } },
+    },
+    select: { userId: true, currency: true },
+  });
+
+  let expired = 0;
+  for (const { userId, currency } of accounts) {
+    expired += await prisma.$transaction(async (tx) =>
+      expireLockedAccount(tx, await lockAccount(tx, userId, currency), now)
+    );
+  }
+
+  return expired;
+}
+
+/**
+ * Get the user's usable credit per currency
+ * Credit past its expiry is left out even before the expiry job writes it off
+ */
+export async function getCreditBalances(
+  userId: number
+): Promise<CreditBalanceResponse[]> {
+  const accounts = await prisma.creditAccount.findMany({
+    where: { userId },
+    include: { entries: { orderBy: { id: "asc" } } },
+    orderBy: { currency: "asc" },
+  });
+
+  const now = new Date();
+
+  return accounts.map((account) => {
+    const lots = getOpenLots(account.entries).filter(
+      (lot) => !lot.expiresAt || lot.expiresAt > now
+    );
+    const expiring = lots
+      .filter((lot) => lot.expiresAt)
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime())[0];
+
+    return {
+      currency: account.currency,
+      balance: lots.reduce((sum, lot) => sum + lot.remaining, 0),
+      nextExpiry: expiring
+        ? { amount: expiring.remaining, expiresAt: expiring.expiresAt! }
+        : null,
+    };
+  });
+}
+
+/**
+ * Get a page of the user's ledger entries, newest first
+ */
+export async function getCreditLedger(
+  userId: number,
+  options: { currency?: string; page: number; limit: number }
+): Promise<{ entries: CreditEntryResponse[]; total: number }> {
+  const where: Prisma.CreditLedgerEntryWhereInput = {
+    account: { userId, currency: options.currency },
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.creditLedgerEntry.findMany({
+      where,
+      include: {
+        account: { select: { currency: true } },
+        order: { select: { orderNumber: true } },
+        creditNote: { select: { creditNoteNumber: true } },
+      },
+      orderBy: { id: "desc" },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+    }),
+    prisma.creditLedgerEntry.count({ where }),
+  ]);
+
+  return {
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      type: entry.type,
+      currency: entry.account.currency,
+      amount: entry.amount,
+      balanceAfter: entry.balanceAfter,
+      expiresAt: entry.expiresAt,
+      orderNumber: entry.order?.orderNumber ?? null,
+      creditNoteNumber: entry.creditNote?.creditNoteNumber ?? null,
+      reason: entry.reason,
+      reference: entry.reference,
+      createdAt: entry.createdAt,
+    })),
+    total,
+  };
+}
+
+/**
+ * Check the ledger against orders and account balances
+ * An order paid with credit is balanced when its debits equal its total and
+ * its refunds equal its credit notes that weren't refunded to a payment; an
+ * account when its balance equals the sum of its entries.
+ */
+export async function reconcileCredits(
+  options: { from?: Date; to?: Date } = {}
+): Promise<{
+  orders: CreditOrderReconciliation[];
+  accounts: CreditAccountReconciliation[];
+}> {
+  const createdAt =
+    options.from || options.to ? { gte: options.from, lt: options.to } : undefined;
+
+  const orderSums = await prisma.creditLedgerEntry.groupBy({
+    by: ["orderId", "type"],
+    where: { orderId: { not: null }, order: { createdAt } },
+    _sum: { amount: true },
+  });
+
+  const orderIds = Array.from(new Set(orderSums.map((row) => row.orderId!)));
+  const orders = await prisma.order.findMany({
+    where: { id: { in: orderIds } },
+    include: { creditNotes: { where: { paymentId: null } } },
+    orderBy: { id: "asc" },
+  });
+
+  const sumFor = (orderId: number, type: CreditEntryType) =>
+    orderSums.find((row) => row.orderId === orderId && row.type === type)?._sum
+      .amount ?? 0;
+
+  const [accounts, accountSums] = await Promise.all([
+    prisma.creditAccount.findMany({ orderBy: { id: "asc" } }),
+    prisma.creditLedgerEntry.groupBy({
+      by: ["accountId"],
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return {
+    orders: orders.map((order) => {
+      const debited = -sumFor(order.id, "DEBIT");
+      const refundedToCredit = sumFor(order.id, "REFUND");
+      const creditNotesToCredit = order.creditNotes.reduce(
+        (sum, note) => sum + note.total,
+        0
+      );
+
+      return {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        userId: order.userId,
+        currency: order.currency,
+        status: order.status,
+        total: order.total,
+        debited,
+        refundedToCredit,
+        creditNotesToCredit,
+        balanced:
+          debited === order.total && refundedToCredit === creditNotesToCredit,
+      };
+    }),
+    accounts: accounts.map((account) => {
+      const ledgerBalance =
+        accountSums.find((row) => row.accountId === account.id)?._sum.amount ??
+        0;
+
+      return {
+        accountId: account.id,
+        userId: account.userId,
+        currency: account.currency,
+        balance: account.balance,
+        ledgerBalance,
+        balanced: ledgerBalance === account.balance,
+      };
+    }),
+  };
+}
@@ -0,0 +1,167 @@
+import { prisma } from "../config/db.js";
+
+/**
+ * Currencies reports can be priced in, with the number of minor units
+ * per major unit expressed as a power of ten (ISO 4217 exponent)
+ */
+export const CURRENCY_EXPONENTS: Record<string, number> = {
+  USD: 2,
+  EUR: 2,
+  AED: 2,
+  SAR: 2,
+  QAR: 2,
+  EGP: 2,
+  MAD: 2,
+  LBP: 2,
+  KWD: 3,
+  BHD: 3,
+  OMR: 3,
+  JOD: 3,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_EXPONENTS);
+
+// Rates are stored against a pivot so any pair can be converted
+const PIVOT_CURRENCY = "USD";
+
+export interface CurrencyAmount {
+  currency: string;
+  amount: number; // Minor units
+}
+
+export type CurrencyConverter = (
+  amount: number,
+  from: string,
+  to: string
+) => number;
+
+export function getDefaultCurrency(): string {
+  return (process.env.DEFAULT_CURRENCY || PIVOT_CURRENCY).toUpperCase();
+}
+
+export function isSupportedCurrency(currency: unknown): currency is string {
+  return (
+    typeof currency === "string" &&
+    CURRENCY_EXPONENTS[currency.toUpperCase()] !== undefined
+  );
+}
+
+/**
+ * Parse a currency from user input (query string, body)
+ * @returns The upper-cased currency code, or null if missing or unsupported
+ */
+export function parseCurrency(value: unknown): string | null {
+  return isSupportedCurrency(value) ? value.toUpperCase() : null;
+}
+
+/**
+ * Convert a minor-unit integer to a decimal amount, e.g. 2550 USD -> 25.5
+ */
+export function toMajorUnits(amount: number, currency: string): number {
+  return amount / 10 ** (CURRENCY_EXPONENTS[currency] ?? 2);
+}
+
+/**
+ * Format a minor-unit integer with the currency's decimals, e.g. 2550 USD -> "25.50"
+ */
+export function formatMajorUnits(amount: number, currency: string): string {
+  return toMajorUnits(amount, currency).toFixed(
+    CURRENCY_EXPONENTS[currency] ?? 2
+  );
+}
+
+/**
+ * Convert a decimal amount to minor units, e.g. 25.5 USD -> 2550
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** (CURRENCY_EXPONENTS[currency] ?? 2));
+}
+
+/**
+ * Load the exchange-rate table and return a converter for minor-unit amounts
+ * Uses a direct rate when one exists, its inverse otherwise, and falls back
+ * to converting through the pivot currency (USD)
+ * @throws Error when no path between the two currencies exists
+ */
+export async function createCurrencyConverter(): Promise<CurrencyConverter> {
+  const rates = await prisma.exchangeRate.findMany();
+  const table = new Map<string, number>();
+
+  for (const rate of rates) {
+    table.set(`${rate.baseCurrency}:${rate.quoteCurrency}`, rate.rate);
+  }
+
+  function majorRate(from: string, to: string): number | null {
+    if (from === to) return 1;
+
+    const direct = table.get(`${from}:${to}`);
+    if (direct) return direct;
+
+    const inverse = table.get(`${to}:${from}`);
+    if (inverse) return 1 / inverse;
+
+    return null;
+  }
+
+  return (amount, from, to) => {
+    if (from === to) return amount;
+
+    let rate = majorRate(from, to);
+
+    if (rate === null) {
+      const toPivot = majorRate(from, PIVOT_CURRENCY);
+      const fromPivot = majorRate(PIVOT_CURRENCY, to);
+      if (toPivot !== null && fromPivot !== null) {
+        rate = toPivot * fromPivot;
+      }
+    }
+
+    if (rate === null) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+
+    return toMinorUnits(toMajorUnits(amount, from) * rate, to);
+  };
+}
+
+/**
+ * Group minor-unit amounts by currency
+ */
+export function sumByCurrency(amounts: CurrencyAmount[]): CurrencyAmount[] {
+  const totals = new Map<string, number>();
+
+  for (const { currency, amount } of amounts) {
+    totals.set(currency, (totals.get(currency) || 0) + amount);
+  }
+
+  return Array.from(totals.entries()).map(([currency, amount]) => ({
+    currency,
+    amount,
+  }));
+}
+
+/**
+ * Total minor-unit amounts in one currency
+ * @returns null when an amount's currency has no exchange rate to it, so the
+ * caller can fall back to the amounts per currency
+ */
+export function convertTotal(
+  convert: CurrencyConverter,
+  amounts: CurrencyAmount[],
+  to: string
+): number | null {
+  try {
+    return amounts.reduce(
+      (sum, { currency, amount }) => sum + convert(amount, currency, to),
+      0
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.startsWith("No exchange rate")
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,309 @@
+import crypto from "crypto";
+import path from "path";
+import { prisma } from "../config/db.js";
+import { generateSecureRandom } from "../utils/security.js";
+import { getStorageProvider } from "./storage-providers/index.js";
+import { getRefundableAmount } from "./refund.service.js";
+
+// File types analysts deliver, with the extension used for the stored file
+export const DELIVERABLE_CONTENT_TYPES: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    ".docx",
+};
+
+const DEFAULT_URL_TTL_MINUTES = 15;
+
+export const DEFAULT_DELIVERABLES_LIMIT = 50;
+export const MAX_DELIVERABLES_LIMIT = 100;
+
+// Orders whose customer may download what they bought
+const DELIVERABLE_ORDER_STATUSES = ["PAID", "PARTIALLY_REFUNDED"] as const;
+
+export interface UploadDeliverableInput {
+  userId: number;
+  reportId: number;
+  companyId: number;
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+  adminId: number;
+}
+
+export interface DeliverableResponse {
+  id: number;
+  fileName: string;
+  contentType: string;
+  size: number; // Bytes
+  checksum: string; // SHA-256 (hex)
+  orderNumber: string;
+  reportId: number | null;
+  reportName: string;
+  companyId: number | null;
+  companyNameEn: string;
+  companyNameAr: string | null;
+  downloadCount: number;
+  lastDownloadedAt: Date | null;
+  createdAt: Date;
+  downloadUrl: string; // Signed, valid until downloadUrlExpiresAt
+  downloadUrlExpiresAt: Date;
+}
+
+/**
+ * How long a signed download URL stays valid, in minutes
+ */
+export function getDownloadUrlTtlMinutes(): number {
+  const minutes = parseInt(process.env.DELIVERABLE_URL_TTL_MINUTES || "");
+  return minutes > 0 ? minutes : DEFAULT_URL_TTL_MINUTES;
+}
+
+// Without a key anyone could sign a download URL
+function getDownloadUrlSecret(): string {
+  const secret =
+    process.env.DELIVERABLE_URL_SECRET || process.env.ACCESS_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error("DELIVERABLE_URL_SECRET is not configured");
+  }
+
+  return secret;
+}
+
+function signDownload(deliverableId: number, expires: number): string {
+  return crypto
+    .createHmac("sha256", getDownloadUrlSecret())
+    .update(`deliverable:${deliverableId}:${expires}`)
+    .digest("hex");
+}
+
+/**
+ * Generate a time-limited download URL for a deliverable
+ * The URL itself is the credential: anyone holding it can download the file
+ * until it expires, so it is only handed to the customer who bought it.
+ */
+export function createDownloadUrl(deliverableId: number): {
+  url: string;
+  expiresAt: Date;
+} {
+  const expiresAt = new Date(
+    Date.now() + getDownloadUrlTtlMinutes() * 60 * 1000
+  );
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+
+  return {
+    url: `/api/me/deliverables/${deliverableId}/download?expires=${expires}&signature=${signDownload(deliverableId, expires)}`,
+    expiresAt,
+  };
+}
+
+/**
+ * Verify a signed download URL's parameters
+ * @throws Error if the signature is invalid or the URL has expired
+ */
+function verifyDownloadSignature(
+  deliverableId: number,
+  expires: number,
+  signature: string
+) {
+  const expected = Buffer.from(signDownload(deliverableId, expires));
+  const actual = Buffer.from(signature);
+
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    throw new Error("Invalid download link");
+  }
+
+  if (expires * 1000 < Date.now()) {
+    throw new Error("Download link has expired");
+  }
+}
+
+/**
+ * Store a finished report file for a customer's purchase
+ * The purchase is the user's most recent paid order line for the report and
+ * company that has not been refunded in full.
+ */
+export async function uploadDeliverable(input: UploadDeliverableInput) {
+  const extension = DELIVERABLE_CONTENT_TYPES[input.contentType];
+
+  if (!extension) {
+    throw new Error("Deliverables must be PDF or DOCX files");
+  }
+
+  const orderItems = await prisma.orderItem.findMany({
+    where: {
+      reportId: input.reportId,
+      companyId: input.companyId,
+      order: {
+        userId: input.userId,
+        status: { in: [...DELIVERABLE_ORDER_STATUSES] },
+      },
+    },
+    orderBy: { id: "desc" },
+  });
+  const orderItem = orderItems.find((item) => getRefundableAmount(item) > 0);
+
+  if (!orderItem) {
+    throw new Error("No paid purchase of this report for this company");
+  }
+
+  const storage = getStorageProvider();
+  const storageKey = `deliverables/${orderItem.id}/${generateSecureRandom(16)}${extension}`;
+
+  await storage.put(storageKey, input.body, input.contentType);
+
+  try {
+    return await prisma.deliverable.create({
+      data: {
+        orderItemId: orderItem.id,
+        userId: input.userId,
+        fileName: path.basename(input.fileName) || `report${extension}`,
+        contentType: input.contentType,
+        size: input.body.length,
+        checksum: crypto.createHash("sha256").update(input.body).digest("hex"),
+        storageProvider: storage.name,
+        storageKey,
+        uploadedById: input.adminId,
+      },
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind
+    await storage.delete(storageKey).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * The user's order lines that were refunded in full: their files are no
+ * longer theirs, even while the rest of the order stands
+ */
+async function getRefundedOrderItemIds(userId: number): Promise<number[]> {
+  const items = await prisma.orderItem.findMany({
+    where: { order: { userId }, refundedAmount: { gt: 0 } },
+  });
+
+  return items
+    .filter((item) => getRefundableAmount(item) <= 0)
+    .map((item) => item.id);
+}
+
+/**
+ * Get the files a user bought, newest first, each with a signed download URL
+ */
+export async function getUserDeliverables(
+  userId: number,
+  options: { page: number; limit: number }
+): Promise<{ deliverables: DeliverableResponse[]; total: number }> {
+  const where = {
+    userId,
+    orderItemId: { notIn: await getRefundedOrderItemIds(userId) },
+    orderItem: {
+      order: { userId, status: { in: [...DELIVERABLE_ORDER_STATUSES] } },
+    },
+  };
+
+  const [deliverables, total] = await Promise.all([
+    prisma.deliverable.findMany({
+      where,
+      include: {
+        orderItem: {
+          select: {
+            reportId: true,
+            reportName: true,
+            companyId: true,
+            companyNameEn: true,
+            companyNameAr: true,
+            order: { select: { orderNumber: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+    }),
+    prisma.deliverable.count({ where }),
+  ]);
+
+  return {
+    deliverables: deliverables.map((deliverable) => {
+      const { url, expiresAt } = createDownloadUrl(deliverable.id);
+
+      return {
+        id: deliverable.id,
+        fileName: deliverable.fileName,
+        contentType: deliverable.contentType,
+        size: deliverable.size,
+        checksum: deliverable.checksum,
+        orderNumber: deliverable.orderItem.order.orderNumber,
+        reportId: deliverable.orderItem.reportId,
+        reportName: deliverable.orderItem.reportName,
+        companyId: deliverable.orderItem.companyId,
+        companyNameEn: deliverable.orderItem.companyNameEn,
+        companyNameAr: deliverable.orderItem.companyNameAr,
+        downloadCount: deliverable.downloadCount,
+        lastDownloadedAt: deliverable.lastDownloadedAt,
+        createdAt: deliverable.createdAt,
+        downloadUrl: url,
+        downloadUrlExpiresAt: expiresAt,
+      };
+    }),
+    total,
+  };
+}
+
+/**
+ * Fetch a deliverable's file through a signed download URL and count the
+ * download
+ * @throws Error if the link is invalid or expired, or the file is gone
+ */
+export async function downloadDeliverable(
+  deliverableId: number,
+  expires: number,
+  signature: string
+) {
+  verifyDownloadSignature(deliverableId, expires, signature);
+
+  // Refunded since the link was issued: the file is no longer theirs
+  const deliverable = await prisma.deliverable.findFirst({
+    where: {
+      id: deliverableId,
+      orderItem: {
+        order: { status: { in: [...DELIVERABLE_ORDER_STATUSES] } },
+      },
+    },
+    include: { orderItem: true },
+  });
+
+  if (!deliverable || getRefundableAmount(deliverable.orderItem) <= 0) {
+    throw new Error("Deliverable not found");
+  }
+
+  const body = await getStorageProvider(deliverable.storageProvider).get(
+    deliverable.storageKey
+  );
+
+  await prisma.deliverable.update({
+    where: { id: deliverable.id },
+    data: {
+      downloadCount: { increment: 1 },
+      lastDownloadedAt: new Date(),
+    },
+  });
+
+  return { deliverable, body };
+}
+
+/**
+ * Delete a deliverable and its stored file
+ */
+export async function deleteDeliverable(id: number) {
+  const deliverable = await prisma.deliverable.delete({ where: { id } });
+
+  await getStorageProvider(deliverable.storageProvider).delete(
+    deliverable.storageKey
+  );
+
+  return deliverable;
+}
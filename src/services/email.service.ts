@@ -8,6 +8,15 @@ if (!process.env.RESEND_API_KEY) {
   );
 }
 
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 /**
  * Send password setup email to user
  */
@@ -195,3 +204,124 @@ This is an automated email. Please do not reply to this message.
     throw new Error(`Failed to send email: ${error.message}`);
   }
 }
+
+/**
+ * Send abandoned cart reminder email to user
+ */
+export async function sendAbandonedCartEmail(
+  email: string,
+  name: string,
+  items: Array<{ reportName: string; companyName: string; quantity: number }>,
+  unsubscribeToken: string
+): Promise<void> {
+  if (!process.env.RESEND_API_KEY) {
+    throw new Error("RESEND_API_KEY is not configured");
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+  const cartUrl = `${frontendUrl}/cart`;
+  const unsubscribeUrl = `${frontendUrl}/unsubscribe/cart-reminders?token=${unsubscribeToken}`;
+
+  const itemsHtml = items
+    .map(
+      (item) => `
+            <tr>
+              <td style="padding: 8px; border-bottom: 1px solid #ddd;">${escapeHtml(item.reportName)}</td>
+              <td style="padding: 8px; border-bottom: 1px solid #ddd;">${escapeHtml(item.companyName)}</td>
+              <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: center;">${escapeHtml(item.quantity)}</td>
+            </tr>`
+    )
+    .join("");
+
+  const itemsText = items
+    .map(
+      (item) =>
+        `- ${item.reportName} for ${item.companyName} (x${item.quantity})`
+    )
+    .join("\n");
+
+  const emailHtml = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Your Cart Is Waiting</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #f8f9fa; padding: 30px; border-radius: 8px;">
+          <h1 style="color: #2c3e50; margin-top: 0;">Your cart is waiting</h1>
+          
+          <p>Hello ${escapeHtml(name)},</p>
+          
+          <p>You left the following reports in your cart:</p>
+          
+          <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+            <thead>
+              <tr>
+                <th style="padding: 8px; border-bottom: 2px solid #ddd; text-align: left;">Report</th>
+                <th style="padding: 8px; border-bottom: 2px solid #ddd; text-align: left;">Company</th>
+                <th style="padding: 8px; border-bottom: 2px solid #ddd;">Qty</th>
+              </tr>
+            </thead>
+            <tbody>${itemsHtml}
+            </tbody>
+          </table>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(cartUrl)}" 
+              style="display: inline-block; background-color: #007bff; color: #ffffff; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+              Complete Your Order
+            </a>
+          </div>
+          
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+          
+          <p style="font-size: 12px; color: #999; margin: 0;">
+            You are receiving this email because you have items in your cart.
+            <a href="${escapeHtml(unsubscribeUrl)}" style="color: #999;">Unsubscribe from cart reminders</a>.
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+
+  const emailText = `
+Your cart is waiting
+
+Hello ${name},
+
+You left the following reports in your cart:
+
+${itemsText}
+
+Complete your order:
+${cartUrl}
+
+You are receiving this email because you have items in your cart.
+Unsubscribe from cart reminders: ${unsubscribeUrl}
+  `;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: process.env.RESEND_FROM_EMAIL || "onboarding@resend.dev",
+      to: email,
+      subject: "You left reports in your cart",
+      html: emailHtml,
+      text: emailText,
+      headers: {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      },
+    });
+
+    if (error) {
+      console.error("Resend error:", error);
+      throw new Error(`Failed to send email: ${error.message}`);
+    }
+
+    console.log("Abandoned cart email sent successfully:", data);
+  } catch (error: any) {
+    console.error("Error sending abandoned cart email:", error);
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
+}
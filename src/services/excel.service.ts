@@ -1,5 +1,9 @@
 import * as XLSX from "xlsx";
 import { prisma } from "../config/db.js";
+import { getCompanySearchFields } from "./company.service.js";
+import { toMajorUnits } from "./currency.service.js";
+import type { QuoteResponse } from "./quote.service.js";
+import { getDefaultReportIds } from "./report-assignment.service.js";
 
 interface ExcelRow {
   nameEn?: string;
@@ -30,6 +34,7 @@ interface ProcessResult {
 
 /**
  * Parse Excel/CSV file and create companies
+ * Each company is assigned its country's default reports.
  */
 export async function parseExcelAndCreateCompanies(
   fileBuffer: Buffer,
@@ -74,6 +79,9 @@ export async function parseExcelAndCreateCompanies(
     countries.map((c) => [c.nameEn.toLowerCase(), c.code])
   );
   const countryMapByCode = new Map(countries.map((c) => [c.code, c.code]));
+  const defaultReportIds = await getDefaultReportIds(
+    countries.map((c) => c.code)
+  );
 
   // Process each row
   for (let i = 0; i < rows.length; i++) {
@@ -160,10 +168,14 @@ export async function parseExcelAndCreateCompanies(
       }
 
       // Create company
+      const nameEn = String(row.nameEn).trim();
+      const nameAr = row.nameAr ? String(row.nameAr).trim() : null;
+
       await prisma.company.create({
         data: {
-          nameEn: String(row.nameEn).trim(),
-          nameAr: row.nameAr ? String(row.nameAr).trim() : null,
+          nameEn,
+          nameAr,
+          ...getCompanySearchFields(nameEn, nameAr),
           registrationNumber: String(row.registrationNumber).trim(),
           legalForm: legalForm as any,
           industry: String(row.industry).trim(),
@@ -177,6 +189,11 @@ export async function parseExcelAndCreateCompanies(
           website: row.website ? String(row.website).trim() : null,
           description: row.description ? String(row.description).trim() : null,
           services,
+          reports: {
+            connect: (defaultReportIds.get(countryCode) || []).map((id) => ({
+              id,
+            })),
+          },
         },
       });
 
@@ -199,3 +216,74 @@ export async function parseExcelAndCreateCompanies(
 
   return result;
 }
+
+/**
+ * Build an Excel workbook for a quote (one row per item, then totals per
+ * currency), e.g. for a procurement team's approval process
+ * Amounts are in major units of each line's currency
+ */
+export function generateQuoteWorkbook(quote: QuoteResponse): Buffer {
+  const rows: Array<Array<string | number | null>> = [
+    ["Quote", quote.quoteNumber],
+    ["Name", quote.name],
+    ["Status", quote.status],
+    ["Created", quote.createdAt.toISOString().slice(0, 10)],
+    ["Valid until", quote.expiresAt.toISOString().slice(0, 10)],
+    ["Notes", quote.notes],
+    [],
+    [
+      "Report",
+      "Country",
+      "Company",
+      "Language",
+      "Quantity",
+      "Unit price",
+      "Currency",
+      "Discount",
+      "Tax",
+      "Line total",
+    ],
+  ];
+
+  for (const item of quote.items) {
+    const net = item.lineTotal - item.discount;
+
+    rows.push([
+      item.report.name,
+      item.report.countryCode,
+      item.company.nameEn,
+      item.language,
+      item.quantity,
+      toMajorUnits(item.price, item.currency),
+      item.currency,
+      toMajorUnits(item.discount, item.currency),
+      toMajorUnits(item.tax.amount, item.currency),
+      toMajorUnits(
+        item.tax.isInclusive ? net : net + item.tax.amount,
+        item.currency
+      ),
+    ]);
+  }
+
+  rows.push([]);
+  rows.push(["Currency", "Subtotal", "Discount", "Tax", "Total"]);
+
+  for (const totals of quote.totals) {
+    rows.push([
+      totals.currency,
+      toMajorUnits(totals.subtotal, totals.currency),
+      toMajorUnits(totals.discount, totals.currency),
+      toMajorUnits(totals.tax, totals.currency),
+      toMajorUnits(totals.total, totals.currency),
+    ]);
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(rows),
+    "Quote"
+  );
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import { prisma } from "../config/db.js";
+
+export const GUEST_CART_COOKIE = "guestCart";
+
+// Guest carts (and their cookie) are kept this long after the last change
+export const GUEST_CART_MAX_AGE_DAYS = 30;
+
+export interface GuestCartMergeResult {
+  merged: number; // Guest items added to an item already in the user's cart
+  added: number; // Guest items moved over as new items
+}
+
+// Without a key anyone could forge a cookie for another guest's cart
+function getGuestCartSecret(): string {
+  const secret =
+    process.env.GUEST_CART_SECRET || process.env.ACCESS_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error("GUEST_CART_SECRET is not configured");
+  }
+
+  return secret;
+}
+
+function signGuestId(guestId: string): string {
+  return crypto
+    .createHmac("sha256", getGuestCartSecret())
+    .update(`guest-cart:${guestId}`)
+    .digest("hex");
+}
+
+/**
+ * Generate a new guest ID and its signed cookie value
+ * The random guest ID is what identifies the cart (Cart.guestToken)
+ */
+export function generateGuestCartToken(): { guestId: string; token: string } {
+  const guestId = crypto.randomBytes(16).toString("hex");
+  return { guestId, token: `${guestId}.${signGuestId(guestId)}` };
+}
+
+/**
+ * Verify a guest cart cookie value
+ * @returns The guest ID if the signature is valid, null otherwise
+ */
+export function verifyGuestCartToken(token: string): string | null {
+  const [guestId, signature] = token.split(".");
+
+  if (!guestId || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signGuestId(guestId));
+  const actual = Buffer.from(signature);
+
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  return guestId;
+}
+
+/**
+ * Move a guest cart into a user's cart after login
+ * An item the user already has (same report and company) gets the guest
+ * quantity added and keeps the user's price; other items keep the guest's
+ * price, so price changes still show up as cart issues. The guest cart is
+ * deleted afterwards.
+ */
+export async function mergeGuestCart(
+  guestId: string,
+  userId: number
+): Promise<GuestCartMergeResult> {
+  return prisma.$transaction(async (tx) => {
+    const guestCart = await tx.cart.findUnique({
+      where: { guestToken: guestId },
+      include: { items: true },
+    });
+
+    if (!guestCart) {
+      return { merged: 0, added: 0 };
+    }
+
+    const userCart = await tx.cart.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+    });
+
+    let merged = 0;
+    let added = 0;
+
+    for (const item of guestCart.items) {
+      const existingItem = await tx.cartItem.findUnique({
+        where: {
+          cartId_reportId_companyId: {
+            cartId: userCart.id,
+            reportId: item.reportId,
+            companyId: item.companyId,
+          },
+        },
+      });
+
+      if (existingItem) {
+        await tx.cartItem.update({
+          where: { id: existingItem.id },
+          data: {
+            quantity: existingItem.quantity + item.quantity,
+            language: existingItem.language || item.language,
+          },
+        });
+        merged++;
+      } else {
+        await tx.cartItem.create({
+          data: {
+            cartId: userCart.id,
+            reportId: item.reportId,
+            companyId: item.companyId,
+            quantity: item.quantity,
+            price: item.price,
+            currency: item.currency,
+            language: item.language,
+          },
+        });
+        added++;
+      }
+    }
+
+    await tx.cart.delete({ where: { id: guestCart.id } });
+
+    return { merged, added };
+  });
+}
+
+/**
+ * Delete guest carts that haven't changed within the cookie lifetime
+ * @returns Number of carts deleted
+ */
+export async function deleteStaleGuestCarts(
+  maxAgeDays: number = GUEST_CART_MAX_AGE_DAYS
+): Promise<number> {
+  const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
+
+  const result = await prisma.cart.deleteMany({
+    where: {
+      guestToken: { not: null },
+      updatedAt: { lt: cutoff },
+      items: { none: { updatedAt: { gte: cutoff } } },
+    },
+  });
+
+  return result.count;
+}
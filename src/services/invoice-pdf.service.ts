@@ -0,0 +1,263 @@
+import fs from "fs";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { formatMajorUnits } from "./currency.service.js";
+import {
+  buildInvoiceQrPayload,
+  type InvoiceWithLines,
+} from "./invoice.service.js";
+import type { CreditNoteWithLines } from "./refund.service.js";
+
+const PAGE_MARGIN = 40;
+const PAGE_WIDTH = 595.28; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+
+// Table columns: [x offset, width, align]
+const COLUMNS = {
+  description: [0, 205, "left"],
+  quantity: [205, 35, "right"],
+  unitPrice: [240, 65, "right"],
+  discount: [305, 55, "right"],
+  taxRate: [360, 40, "right"],
+  tax: [400, 55, "right"],
+  total: [455, 60, "right"],
+} as const;
+
+/**
+ * Path of a TTF/OTF font with Arabic glyphs (INVOICE_ARABIC_FONT_PATH)
+ * The built-in PDF fonts only cover Latin text, and an invoice without its
+ * Arabic text isn't a valid bilingual invoice
+ * @throws Error if the font is not configured or missing
+ */
+function getArabicFontPath(): string {
+  const fontPath = process.env.INVOICE_ARABIC_FONT_PATH;
+
+  if (!fontPath) {
+    throw new Error(
+      "INVOICE_ARABIC_FONT_PATH is not configured: invoice PDFs need a font with Arabic glyphs"
+    );
+  }
+
+  if (!fs.existsSync(fontPath)) {
+    throw new Error(`Arabic invoice font not found: ${fontPath}`);
+  }
+
+  return fontPath;
+}
+
+/**
+ * Render a bilingual (English/Arabic) tax invoice PDF with the ZATCA QR code
+ * Given a credit note, renders that credit note against the invoice instead
+ */
+export async function renderInvoicePdf(
+  invoice: InvoiceWithLines,
+  creditNote?: CreditNoteWithLines
+): Promise<Buffer> {
+  const arabicFont = getArabicFontPath();
+  const qrCode = await QRCode.toBuffer(
+    buildInvoiceQrPayload(invoice, creditNote),
+    { margin: 1, width: 240 }
+  );
+
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+  const chunks: Buffer[] = [];
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.registerFont("Arabic", arabicFont);
+
+  const currency = invoice.currency;
+  const amount = (value: number) => formatMajorUnits(value, currency);
+
+  // Arabic text is right-aligned on the same line as its English counterpart
+  const arabic = (
+    text: string | null,
+    y: number,
+    options: PDFKit.Mixins.TextOptions = {}
+  ) => {
+    if (!text) return;
+    doc
+      .font("Arabic")
+      .text(text, PAGE_MARGIN, y, {
+        width: CONTENT_WIDTH,
+        align: "right",
+        features: ["rtla"],
+        ...options,
+      })
+      .font("Helvetica");
+  };
+
+  // Title
+  let y = PAGE_MARGIN;
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(18)
+    .text(creditNote ? "Credit Note" : "Tax Invoice", PAGE_MARGIN, y);
+  arabic(creditNote ? "إشعار دائن" : "فاتورة ضريبية", y);
+  doc.font("Helvetica").fontSize(9);
+
+  // Seller
+  y += 34;
+  doc
+    .font("Helvetica-Bold")
+    .text(invoice.sellerName, PAGE_MARGIN, y)
+    .font("Helvetica");
+  arabic(invoice.sellerNameAr, y);
+  y += 13;
+  doc.text(
+    [invoice.sellerAddress, invoice.sellerCity, invoice.sellerPostalCode]
+      .filter(Boolean)
+      .join(", ") + `, ${invoice.sellerCountryCode}`,
+    PAGE_MARGIN,
+    y
+  );
+  arabic(invoice.sellerAddressAr, y);
+  if (invoice.sellerVatNumber) {
+    y += 13;
+    doc.text(`VAT number: ${invoice.sellerVatNumber}`, PAGE_MARGIN, y);
+    arabic(`الرقم الضريبي: ${invoice.sellerVatNumber}`, y);
+  }
+  if (invoice.sellerCrNumber) {
+    y += 13;
+    doc.text(`CR number: ${invoice.sellerCrNumber}`, PAGE_MARGIN, y);
+    arabic(`السجل التجاري: ${invoice.sellerCrNumber}`, y);
+  }
+
+  // Invoice details and buyer
+  y += 26;
+  const details: Array<[string, string, string]> = creditNote
+    ? [
+        ["Credit note number", "رقم الإشعار", creditNote.creditNoteNumber],
+        ["Invoice number", "رقم الفاتورة", invoice.invoiceNumber],
+        [
+          "Issue date",
+          "تاريخ الإصدار",
+          creditNote.issuedAt.toISOString().slice(0, 10),
+        ],
+        ["Reason", "السبب", creditNote.reason],
+      ]
+    : [
+        ["Invoice number", "رقم الفاتورة", invoice.invoiceNumber],
+        [
+          "Issue date",
+          "تاريخ الإصدار",
+          invoice.issuedAt.toISOString().slice(0, 10),
+        ],
+      ];
+  details.push(
+    ["Customer", "العميل", `${invoice.buyerName} <${invoice.buyerEmail}>`],
+    ["Currency", "العملة", currency]
+  );
+  for (const [label, labelAr, value] of details) {
+    doc.text(`${label}: ${value}`, PAGE_MARGIN, y);
+    arabic(labelAr, y);
+    y += 13;
+  }
+
+  // Line table
+  y += 13;
+  const cell = (
+    column: keyof typeof COLUMNS,
+    text: string,
+    rowY: number
+  ) => {
+    const [x, width, align] = COLUMNS[column];
+    doc.text(text, PAGE_MARGIN + x, rowY, { width, align });
+  };
+
+  doc.font("Helvetica-Bold");
+  cell("description", "Description", y);
+  cell("quantity", "Qty", y);
+  cell("unitPrice", "Unit price", y);
+  cell("discount", "Discount", y);
+  cell("taxRate", "VAT %", y);
+  cell("tax", "VAT", y);
+  cell("total", "Total", y);
+  doc.font("Helvetica");
+  y += 14;
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(PAGE_MARGIN + CONTENT_WIDTH, y)
+    .stroke();
+  y += 6;
+
+  // Credit note lines are refunded amounts, shown as a single unit
+  const lines = creditNote
+    ? creditNote.lines.map((line) => ({
+        ...line,
+        quantity: 1,
+        unitPrice: line.netAmount,
+        discount: 0,
+      }))
+    : invoice.lines;
+
+  for (const line of lines) {
+    const [, descriptionWidth] = COLUMNS.description;
+    const description = `${line.reportName} - ${line.companyNameEn}`;
+    const rowHeight = Math.max(
+      doc.heightOfString(description, { width: descriptionWidth }),
+      12
+    );
+
+    if (y + rowHeight > doc.page.height - PAGE_MARGIN - 140) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+
+    cell("description", description, y);
+    cell("quantity", String(line.quantity), y);
+    cell("unitPrice", amount(line.unitPrice), y);
+    cell("discount", amount(line.discount), y);
+    cell("taxRate", `${(line.taxRate * 100).toFixed(0)}%`, y);
+    cell("tax", amount(line.taxAmount), y);
+    cell("total", amount(line.total), y);
+    y += rowHeight;
+
+    if (line.companyNameAr) {
+      doc.font("Arabic").text(line.companyNameAr, PAGE_MARGIN, y, {
+        width: descriptionWidth,
+        align: "right",
+        features: ["rtla"],
+      });
+      y = doc.y;
+      doc.font("Helvetica");
+    }
+    y += 6;
+  }
+
+  // Totals
+  const netAmount = lines.reduce((sum, l) => sum + l.netAmount, 0);
+  const totals: Array<[string, string, number]> = creditNote
+    ? [
+        ["Total excluding VAT", "الإجمالي غير شامل الضريبة", netAmount],
+        ["VAT", "ضريبة القيمة المضافة", creditNote.tax],
+        ["Total refunded", "إجمالي المبلغ المسترد", creditNote.total],
+      ]
+    : [
+        ["Subtotal", "المجموع", invoice.subtotal],
+        ["Discount", "الخصم", invoice.discount],
+        ["Total excluding VAT", "الإجمالي غير شامل الضريبة", netAmount],
+        ["VAT", "ضريبة القيمة المضافة", invoice.tax],
+        ["Total including VAT", "الإجمالي شامل الضريبة", invoice.total],
+      ];
+
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(PAGE_MARGIN + CONTENT_WIDTH, y)
+    .stroke();
+  y += 8;
+  for (const [label, labelAr, value] of totals) {
+    doc.text(`${label}: ${amount(value)} ${currency}`, PAGE_MARGIN, y);
+    arabic(labelAr, y);
+    y += 13;
+  }
+
+  // QR code (ZATCA TLV payload)
+  doc.image(qrCode, PAGE_MARGIN, y + 13, { width: 110 });
+
+  doc.end();
+  return rendered;
+}
@@ -0,0 +1,210 @@
+import { formatMajorUnits } from "./currency.service.js";
+import {
+  buildInvoiceQrPayload,
+  type InvoiceWithLines,
+} from "./invoice.service.js";
+import type { CreditNoteWithLines } from "./refund.service.js";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * VAT category code (UN/ECE 5305): S = standard rated, Z = zero rated
+ */
+function taxCategory(rate: number): string {
+  return rate > 0 ? "S" : "Z";
+}
+
+function formatPercent(rate: number): string {
+  return (rate * 100).toFixed(2);
+}
+
+/**
+ * Render an invoice as UBL 2.1 XML following the ZATCA e-invoicing profile
+ * (standard tax invoice, type 388), with the QR payload embedded as an
+ * additional document reference. The document is not cryptographically
+ * stamped; that happens when it is reported to the tax authority.
+ * Given a credit note, renders that credit note (type 381) instead, referring
+ * to the invoice and carrying the refund reason.
+ */
+export function renderInvoiceXml(
+  invoice: InvoiceWithLines,
+  creditNote?: CreditNoteWithLines
+): string {
+  const currency = invoice.currency;
+  const amount = (value: number) =>
+    `<cbc:Amount currencyID="${currency}">${formatMajorUnits(value, currency)}</cbc:Amount>`;
+  const money = (tag: string, value: number) =>
+    `<cbc:${tag} currencyID="${currency}">${formatMajorUnits(value, currency)}</cbc:${tag}>`;
+  const text = (tag: string, value: string | null | undefined) =>
+    value ? `<cbc:${tag}>${escapeXml(value)}</cbc:${tag}>` : "";
+
+  // Credit note lines are refunded amounts, shown as a single unit
+  const lines = creditNote
+    ? creditNote.lines.map((line) => ({
+        ...line,
+        quantity: 1,
+        unitPrice: line.netAmount,
+        discount: 0,
+      }))
+    : invoice.lines;
+  const document = {
+    number: creditNote?.creditNoteNumber ?? invoice.invoiceNumber,
+    uuid: creditNote?.uuid ?? invoice.uuid,
+    sequence: creditNote?.sequence ?? invoice.sequence,
+    issuedAt: (creditNote ?? invoice).issuedAt.toISOString(),
+    tax: (creditNote ?? invoice).tax,
+    total: (creditNote ?? invoice).total,
+  };
+  const netAmount = lines.reduce((sum, l) => sum + l.netAmount, 0);
+
+  // Tax subtotals grouped by rate
+  const subtotals = new Map<number, { taxable: number; tax: number }>();
+  for (const line of lines) {
+    const entry = subtotals.get(line.taxRate) || { taxable: 0, tax: 0 };
+    entry.taxable += line.netAmount;
+    entry.tax += line.taxAmount;
+    subtotals.set(line.taxRate, entry);
+  }
+
+  const taxSubtotals = Array.from(subtotals.entries())
+    .map(
+      ([rate, entry]) => `
+    <cac:TaxSubtotal>
+      ${money("TaxableAmount", entry.taxable)}
+      ${money("TaxAmount", entry.tax)}
+      <cac:TaxCategory>
+        <cbc:ID>${taxCategory(rate)}</cbc:ID>
+        <cbc:Percent>${formatPercent(rate)}</cbc:Percent>
+        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+      </cac:TaxCategory>
+    </cac:TaxSubtotal>`
+    )
+    .join("");
+
+  const lineXml = lines
+    .map(
+      (line, index) => `
+  <cac:InvoiceLine>
+    <cbc:ID>${index + 1}</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="PCE">${line.quantity}</cbc:InvoicedQuantity>
+    ${money("LineExtensionAmount", line.netAmount)}
+    <cac:TaxTotal>
+      ${money("TaxAmount", line.taxAmount)}
+      ${money("RoundingAmount", line.total)}
+    </cac:TaxTotal>
+    <cac:Item>
+      <cbc:Name>${escapeXml(`${line.reportName} - ${line.companyNameEn}`)}</cbc:Name>
+      <cac:ClassifiedTaxCategory>
+        <cbc:ID>${taxCategory(line.taxRate)}</cbc:ID>
+        <cbc:Percent>${formatPercent(line.taxRate)}</cbc:Percent>
+        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+      </cac:ClassifiedTaxCategory>
+    </cac:Item>
+    <cac:Price>
+      ${money("PriceAmount", line.unitPrice)}${
+        line.discount > 0
+          ? `
+      <cac:AllowanceCharge>
+        <cbc:ChargeIndicator>false</cbc:ChargeIndicator>
+        <cbc:AllowanceChargeReason>discount</cbc:AllowanceChargeReason>
+        ${amount(line.discount)}
+      </cac:AllowanceCharge>`
+          : ""
+      }
+    </cac:Price>
+  </cac:InvoiceLine>`
+    )
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+         xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+         xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:ProfileID>reporting:1.0</cbc:ProfileID>
+  <cbc:ID>${escapeXml(document.number)}</cbc:ID>
+  <cbc:UUID>${document.uuid}</cbc:UUID>
+  <cbc:IssueDate>${document.issuedAt.slice(0, 10)}</cbc:IssueDate>
+  <cbc:IssueTime>${document.issuedAt.slice(11, 19)}</cbc:IssueTime>
+  <cbc:InvoiceTypeCode name="0100000">${creditNote ? 381 : 388}</cbc:InvoiceTypeCode>
+  <cbc:DocumentCurrencyCode>${currency}</cbc:DocumentCurrencyCode>
+  <cbc:TaxCurrencyCode>${currency}</cbc:TaxCurrencyCode>${
+    creditNote
+      ? `
+  <cac:BillingReference>
+    <cac:InvoiceDocumentReference>
+      <cbc:ID>${escapeXml(invoice.invoiceNumber)}</cbc:ID>
+    </cac:InvoiceDocumentReference>
+  </cac:BillingReference>`
+      : ""
+  }
+  <cac:AdditionalDocumentReference>
+    <cbc:ID>ICV</cbc:ID>
+    <cbc:UUID>${document.sequence}</cbc:UUID>
+  </cac:AdditionalDocumentReference>
+  <cac:AdditionalDocumentReference>
+    <cbc:ID>QR</cbc:ID>
+    <cac:Attachment>
+      <cbc:EmbeddedDocumentBinaryObject mimeCode="text/plain">${buildInvoiceQrPayload(invoice, creditNote)}</cbc:EmbeddedDocumentBinaryObject>
+    </cac:Attachment>
+  </cac:AdditionalDocumentReference>
+  <cac:AccountingSupplierParty>
+    <cac:Party>${
+      invoice.sellerCrNumber
+        ? `
+      <cac:PartyIdentification>
+        <cbc:ID schemeID="CRN">${escapeXml(invoice.sellerCrNumber)}</cbc:ID>
+      </cac:PartyIdentification>`
+        : ""
+    }
+      <cac:PostalAddress>
+        ${text("StreetName", invoice.sellerAddress)}
+        ${text("CityName", invoice.sellerCity)}
+        ${text("PostalZone", invoice.sellerPostalCode)}
+        <cac:Country><cbc:IdentificationCode>${invoice.sellerCountryCode}</cbc:IdentificationCode></cac:Country>
+      </cac:PostalAddress>
+      <cac:PartyTaxScheme>
+        ${text("CompanyID", invoice.sellerVatNumber)}
+        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity>
+        ${text("RegistrationName", invoice.sellerName)}
+      </cac:PartyLegalEntity>
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>
+    <cac:Party>
+      <cac:PartyLegalEntity>
+        ${text("RegistrationName", invoice.buyerName)}
+      </cac:PartyLegalEntity>
+      <cac:Contact>
+        ${text("ElectronicMail", invoice.buyerEmail)}
+      </cac:Contact>
+    </cac:Party>
+  </cac:AccountingCustomerParty>${
+    creditNote
+      ? `
+  <cac:PaymentMeans>
+    <cbc:PaymentMeansCode>48</cbc:PaymentMeansCode>
+    <cbc:InstructionNote>${escapeXml(creditNote.reason)}</cbc:InstructionNote>
+  </cac:PaymentMeans>`
+      : ""
+  }
+  <cac:TaxTotal>
+    ${money("TaxAmount", document.tax)}${taxSubtotals}
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    ${money("LineExtensionAmount", netAmount)}
+    ${money("TaxExclusiveAmount", netAmount)}
+    ${money("TaxInclusiveAmount", document.total)}
+    ${money("PayableAmount", document.total)}
+  </cac:LegalMonetaryTotal>${lineXml}
+</Invoice>
+`;
+}
@@ -0,0 +1,263 @@
+import { prisma } from "../config/db.js";
+import type { Prisma, SellerEntity } from "../../generated/prisma/client";
+import { formatMajorUnits } from "./currency.service.js";
+import type { CreditNoteWithLines } from "./refund.service.js";
+
+export type InvoiceWithLines = Prisma.InvoiceGetPayload<{
+  include: { lines: true };
+}>;
+
+/**
+ * Invoice number from the seller's prefix and sequence, e.g. "INV-SA-000042"
+ */
+function formatInvoiceNumber(prefix: string, sequence: number): string {
+  return `${prefix}-${String(sequence).padStart(6, "0")}`;
+}
+
+/**
+ * Find the seller entity that invoices sales in each country
+ * Falls back to the default entity; countries without either are left out
+ */
+async function findSellerEntities(
+  client: Prisma.TransactionClient | typeof prisma,
+  countryCodes: string[]
+) {
+  const sellers = new Map<string, SellerEntity>();
+
+  for (const countryCode of Array.from(new Set(countryCodes))) {
+    const seller =
+      (await client.sellerEntity.findFirst({
+        where: { isActive: true, countryCodes: { has: countryCode } },
+        orderBy: { id: "asc" },
+      })) ||
+      (await client.sellerEntity.findFirst({
+        where: { isActive: true, isDefault: true },
+        orderBy: { id: "asc" },
+      }));
+
+    if (seller) {
+      sellers.set(countryCode, seller);
+    }
+  }
+
+  return sellers;
+}
+
+function checkSingleSellerEntity(sellers: Map<string, SellerEntity>) {
+  const ids = new Set(Array.from(sellers.values()).map((s) => s.id));
+
+  if (ids.size > 1) {
+    throw new Error(
+      `Reports from ${Array.from(sellers.keys()).join(", ")} are invoiced by different seller entities; check them out separately`
+    );
+  }
+}
+
+/**
+ * Check that order lines from these countries can share an invoice
+ * An invoice carries a single seller's registration (VAT number, QR code),
+ * so all its lines must be invoiced by the same seller entity. A country
+ * without an entity doesn't block the order: its invoice is issued once one
+ * is set up.
+ * @throws Error if the countries are invoiced by different entities
+ */
+export async function assertSingleSellerEntity(
+  client: Prisma.TransactionClient | typeof prisma,
+  countryCodes: string[]
+): Promise<void> {
+  checkSingleSellerEntity(await findSellerEntities(client, countryCodes));
+}
+
+/**
+ * Split an order line into net (after discount, excluding tax), tax and total
+ * Inclusive tax is already part of the line price
+ */
+export function toInvoiceAmounts(item: {
+  quantity: number;
+  price: number;
+  discount: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+}) {
+  const gross = item.price * item.quantity - item.discount;
+  const netAmount = item.taxInclusive ? gross - item.taxAmount : gross;
+
+  return {
+    netAmount,
+    taxAmount: item.taxAmount,
+    total: netAmount + item.taxAmount,
+  };
+}
+
+/**
+ * Issue the invoice for a paid order
+ * The next number in the seller's sequence is taken inside the same
+ * transaction, so numbers have no gaps. Returns the existing invoice if the
+ * order was already invoiced
+ */
+export async function issueInvoiceForOrder(
+  orderId: number
+): Promise<InvoiceWithLines> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.invoice.findUnique({
+      where: { orderId },
+      include: { lines: { orderBy: { id: "asc" } } },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        user: { select: { name: true, email: true } },
+        items: { orderBy: { id: "asc" } },
+      },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    if (order.status !== "PAID") {
+      throw new Error("Only paid orders can be invoiced");
+    }
+
+    const countryCodes = order.items.map((item) => item.countryCode);
+    const sellers = await findSellerEntities(tx, countryCodes);
+    const missing = countryCodes.filter((code) => !sellers.has(code));
+
+    if (missing.length > 0) {
+      throw new Error(
+        `No seller entity invoices sales in ${Array.from(new Set(missing)).join(", ")}`
+      );
+    }
+
+    checkSingleSellerEntity(sellers);
+    const seller = sellers.get(countryCodes[0])!;
+
+    // Row lock on the seller until commit: concurrent invoices queue here
+    const { nextInvoiceNumber } = await tx.sellerEntity.update({
+      where: { id: seller.id },
+      data: { nextInvoiceNumber: { increment: 1 } },
+    });
+    const sequence = nextInvoiceNumber - 1;
+
+    return tx.invoice.create({
+      data: {
+        invoiceNumber: formatInvoiceNumber(seller.invoicePrefix, sequence),
+        sequence,
+        sellerEntityId: seller.id,
+        orderId: order.id,
+        sellerName: seller.name,
+        sellerNameAr: seller.nameAr,
+        sellerVatNumber: seller.vatNumber,
+        sellerCrNumber: seller.crNumber,
+        sellerAddress: seller.address,
+        sellerAddressAr: seller.addressAr,
+        sellerCity: seller.city,
+        sellerPostalCode: seller.postalCode,
+        sellerCountryCode: seller.countryCode,
+        buyerName: order.user.name,
+        buyerEmail: order.user.email,
+        currency: order.currency,
+        subtotal: order.subtotal,
+        discount: order.discount,
+        tax: order.tax,
+        total: order.total,
+        lines: {
+          create: order.items.map((item) => ({
+            reportName: item.reportName,
+            companyNameEn: item.companyNameEn,
+            companyNameAr: item.companyNameAr,
+            countryCode: item.countryCode,
+            language: item.language,
+            quantity: item.quantity,
+            unitPrice: item.price,
+            discount: item.discount,
+            taxName: item.taxName,
+            taxRate: item.taxRate,
+            ...toInvoiceAmounts(item),
+          })),
+        },
+      },
+      include: { lines: { orderBy: { id: "asc" } } },
+    });
+  });
+}
+
+// Credit notes listed with a customer's invoices
+const creditNoteSummary = {
+  select: {
+    creditNoteNumber: true,
+    reason: true,
+    currency: true,
+    total: true,
+    issuedAt: true,
+  },
+  orderBy: { issuedAt: "asc" as const },
+};
+
+/**
+ * Get all invoices of a user, with the credit notes issued against them
+ */
+export async function getUserInvoices(
+  userId: number
+): Promise<InvoiceWithLines[]> {
+  return prisma.invoice.findMany({
+    where: { order: { userId } },
+    include: { lines: { orderBy: { id: "asc" } }, creditNotes: creditNoteSummary },
+    orderBy: { issuedAt: "desc" },
+  });
+}
+
+/**
+ * Get a single invoice by its number, with its credit notes
+ * Only returns the invoice if it belongs to the user
+ */
+export async function getUserInvoice(
+  userId: number,
+  invoiceNumber: string
+): Promise<InvoiceWithLines | null> {
+  return prisma.invoice.findFirst({
+    where: { invoiceNumber, order: { userId } },
+    include: { lines: { orderBy: { id: "asc" } }, creditNotes: creditNoteSummary },
+  });
+}
+
+// A TLV length is a single byte
+export const QR_FIELD_MAX_BYTES = 255;
+
+function tlv(tag: number, value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+
+  if (bytes.length > QR_FIELD_MAX_BYTES) {
+    throw new Error(
+      `QR code field ${tag} is longer than ${QR_FIELD_MAX_BYTES} bytes`
+    );
+  }
+
+  return Buffer.concat([Buffer.from([tag, bytes.length]), bytes]);
+}
+
+/**
+ * QR code payload in the ZATCA (Saudi e-invoicing) simplified format:
+ * base64 of TLV fields seller name, VAT number, timestamp, total with VAT
+ * and VAT amount. For a credit note the timestamp and amounts are the
+ * credit note's
+ */
+export function buildInvoiceQrPayload(
+  invoice: InvoiceWithLines,
+  creditNote?: CreditNoteWithLines
+): string {
+  const document = creditNote ?? invoice;
+
+  return Buffer.concat([
+    tlv(1, invoice.sellerName),
+    tlv(2, invoice.sellerVatNumber || ""),
+    tlv(3, document.issuedAt.toISOString().replace(/\.\d{3}Z$/, "Z")),
+    tlv(4, formatMajorUnits(document.total, invoice.currency)),
+    tlv(5, formatMajorUnits(document.tax, invoice.currency)),
+  ]).toString("base64");
+}
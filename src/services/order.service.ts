@@ -0,0 +1,434 @@
+import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+import { generateSecureRandom } from "../utils/security.js";
+import { findCartItemIssues, priceCartItems } from "./cart.service.js";
+import {
+  lockCoupon,
+  recordCouponRedemption,
+  NO_ELIGIBLE_ITEMS,
+} from "./coupon.service.js";
+import { debitCreditsForOrder } from "./credit.service.js";
+import {
+  assertSingleSellerEntity,
+  issueInvoiceForOrder,
+} from "./invoice.service.js";
+import { createReportRequestsForOrder } from "./report-request.service.js";
+import {
+  getReportLanguageOptions,
+  resolveLanguageOption,
+} from "./report-language.service.js";
+
+export interface OrderItemResponse {
+  id: number;
+  reportId: number | null;
+  reportName: string;
+  turnaroundMinDays: number; // Business days
+  turnaroundMaxDays: number;
+  countryCode: string;
+  companyId: number | null;
+  companyNameEn: string;
+  companyNameAr: string | null;
+  companyRegistrationNumber: string;
+  quantity: number;
+  price: number;
+  discount: number;
+  pricingRuleName: string | null;
+  pricingDiscount: number;
+  language: string | null;
+  taxName: string | null;
+  taxRate: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+}
+
+export interface OrderResponse {
+  id: number;
+  orderNumber: string;
+  status: string;
+  items: OrderItemResponse[];
+  currency: string;
+  subtotal: number;
+  discount: number;
+  couponCode: string | null;
+  tax: number;
+  total: number;
+  itemCount: number;
+  invoiceNumber: string | null; // Set once the paid order is invoiced
+  createdAt: Date;
+}
+
+const orderItemSelect = {
+  id: true,
+  reportId: true,
+  reportName: true,
+  turnaroundMinDays: true,
+  turnaroundMaxDays: true,
+  countryCode: true,
+  companyId: true,
+  companyNameEn: true,
+  companyNameAr: true,
+  companyRegistrationNumber: true,
+  quantity: true,
+  price: true,
+  discount: true,
+  pricingRuleName: true,
+  pricingDiscount: true,
+  language: true,
+  taxName: true,
+  taxRate: true,
+  taxInclusive: true,
+  taxAmount: true,
+};
+
+/**
+ * Generate a human readable order number, e.g. "ORD-20250103-4F2A9C"
+ */
+function generateOrderNumber(): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  return `ORD-${date}-${generateSecureRandom(3).toUpperCase()}`;
+}
+
+function toOrderResponse(order: {
+  id: number;
+  orderNumber: string;
+  status: string;
+  currency: string;
+  subtotal: number;
+  discount: number;
+  couponCode: string | null;
+  tax: number;
+  total: number;
+  createdAt: Date;
+  items: OrderItemResponse[];
+  invoice?: { invoiceNumber: string } | null;
+}): OrderResponse {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    items: order.items,
+    currency: order.currency,
+    subtotal: order.subtotal,
+    discount: order.discount,
+    couponCode: order.couponCode,
+    tax: order.tax,
+    total: order.total,
+    itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+    invoiceNumber: order.invoice?.invoiceNumber ?? null,
+    createdAt: order.createdAt,
+  };
+}
+
+/**
+ * Snapshot the user's cart into a new order
+ * An order settles in a single currency: when the cart mixes currencies the
+ * caller must choose which currency's items to buy.
+ * Lines are priced with the same pricing rules and coupon as the cart; the
+ * coupon is redeemed if it discounts any of the ordered items. The redemption
+ * is recorded while the coupon row is locked, after its limits were checked,
+ * so it holds the use while the order awaits payment; a cancelled order gives
+ * it back.
+ * Runs inside the caller's transaction and leaves the cart untouched
+ */
+async function snapshotCart(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  currency?: string
+) {
+  const cart = await tx.cart.findUnique({
+    where: { userId },
+    include: { coupon: true },
+  });
+
+  const allItems = cart
+    ? await tx.cartItem.findMany({
+        where: { cartId: cart.id },
+        include: {
+          report: {
+            select: {
+              id: true,
+              name: true,
+              turnaroundMinDays: true,
+              turnaroundMaxDays: true,
+              countryCode: true,
+            },
+          },
+          company: {
+            select: {
+              id: true,
+              nameEn: true,
+              nameAr: true,
+              registrationNumber: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      })
+    : [];
+
+  if (!cart || allItems.length === 0) {
+    throw new Error("Cart is empty");
+  }
+
+  const currencies = Array.from(new Set(allItems.map((item) => item.currency)));
+  const orderCurrency = currency || currencies[0];
+
+  if (!currency && currencies.length > 1) {
+    throw new Error(
+      `Cart contains items in multiple currencies (${currencies.join(", ")}); choose one to check out`
+    );
+  }
+
+  const items = allItems.filter((item) => item.currency === orderCurrency);
+
+  if (items.length === 0) {
+    throw new Error(`Cart has no items priced in ${orderCurrency}`);
+  }
+
+  // Never charge a price the user hasn't seen, or sell what is no longer offered
+  const issues = await findCartItemIssues(items, tx);
+  if (issues.some((itemIssues) => itemIssues.length > 0)) {
+    throw new Error(
+      "Cart has items whose price or availability changed; review them and reprice the cart"
+    );
+  }
+
+  await assertSingleSellerEntity(
+    tx,
+    items.map((item) => item.report.countryCode)
+  );
+
+  const coupon = cart.coupon;
+
+  if (coupon) {
+    await lockCoupon(tx, coupon.id);
+  }
+
+  const {
+    lines,
+    rules,
+    discounts,
+    couponDiscounts,
+    couponError,
+    subtotal,
+    discount,
+    tax,
+    total,
+  } = await priceCartItems(items, userId, coupon, tx);
+
+  // A coupon for other items in the cart just doesn't apply to this order
+  if (couponError && couponError !== NO_ELIGIBLE_ITEMS) {
+    throw new Error(couponError);
+  }
+
+  const couponDiscount = couponDiscounts.reduce((sum, d) => sum + d, 0);
+  const redeemed = coupon && couponDiscount > 0 ? coupon : null;
+
+  // Translated deliveries take longer; the issue check above guarantees
+  // every item's language is offered
+  const languageOptions = await getReportLanguageOptions(
+    items.map((item) => item.reportId),
+    tx
+  );
+  const itemLanguages = items.map(
+    (item) =>
+      resolveLanguageOption(languageOptions.get(item.reportId)!, item.language)!
+  );
+
+  const order = await tx.order.create({
+    data: {
+      orderNumber: generateOrderNumber(),
+      userId,
+      currency: orderCurrency,
+      subtotal,
+      discount,
+      tax,
+      total,
+      couponId: redeemed?.id,
+      couponCode: redeemed?.code,
+      items: {
+        create: items.map((item, index) => ({
+          reportId: item.reportId,
+          reportName: item.report.name,
+          turnaroundMinDays:
+            item.report.turnaroundMinDays + itemLanguages[index].extraDays,
+          turnaroundMaxDays:
+            item.report.turnaroundMaxDays + itemLanguages[index].extraDays,
+          countryCode: item.report.countryCode,
+          companyId: item.companyId,
+          companyNameEn: item.company.nameEn,
+          companyNameAr: item.company.nameAr,
+          companyRegistrationNumber: item.company.registrationNumber,
+          quantity: item.quantity,
+          price: item.price,
+          discount: discounts[index],
+          pricingRuleName: rules[index]?.name,
+          pricingDiscount: rules[index]?.discount || 0,
+          language: itemLanguages[index].language,
+          taxName: lines[index].name,
+          taxRate: lines[index].rate,
+          taxInclusive: lines[index].isInclusive,
+          taxAmount: lines[index].amount,
+        })),
+      },
+    },
+    include: {
+      items: { select: orderItemSelect, orderBy: { id: "asc" } },
+    },
+  });
+
+  if (redeemed) {
+    await recordCouponRedemption(tx, {
+      couponId: redeemed.id,
+      userId,
+      orderId: order.id,
+      discount: couponDiscount,
+      currency: orderCurrency,
+    });
+  }
+
+  return { itemIds: items.map((item) => item.id), order };
+}
+
+/**
+ * Checkout paid with the user's prepaid credit
+ * The order is debited from the credit account in its currency and marked
+ * paid, its items leave the cart and its report requests are queued, all in
+ * one transaction; then the
+ * invoice is issued (an admin can issue it later if that fails)
+ */
+export async function checkoutCartWithCredits(
+  userId: number,
+  currency?: string
+): Promise<OrderResponse> {
+  const order = await prisma.$transaction(async (tx) => {
+    const { itemIds, order } = await snapshotCart(tx, userId, currency);
+
+    await debitCreditsForOrder(tx, order);
+
+    await tx.cartItem.deleteMany({
+      where: { id: { in: itemIds } },
+    });
+
+    if (order.couponId) {
+      await tx.cart.update({
+        where: { userId },
+        data: { couponId: null },
+      });
+    }
+
+    const paid = await tx.order.update({
+      where: { id: order.id },
+      data: { status: "PAID" },
+      include: {
+        items: { select: orderItemSelect, orderBy: { id: "asc" } },
+      },
+    });
+
+    await createReportRequestsForOrder(tx, order.id);
+
+    return paid;
+  });
+
+  let invoice = null;
+  try {
+    invoice = await issueInvoiceForOrder(order.id);
+  } catch (error) {
+    console.error(`Failed to issue invoice for order ${order.id}:`, error);
+  }
+
+  return toOrderResponse({ ...order, invoice });
+}
+
+/**
+ * Freeze the user's cart into a pending order awaiting payment
+ * The cart is only cleared once the payment succeeds
+ */
+export async function createPendingOrderFromCart(
+  userId: number,
+  currency?: string
+): Promise<OrderResponse> {
+  const { order } = await prisma.$transaction((tx) =>
+    snapshotCart(tx, userId, currency)
+  );
+
+  return toOrderResponse(order);
+}
+
+/**
+ * Remove the cart items that were bought in an order, and the coupon it used
+ * Items added to the cart after the order was placed are kept
+ */
+export async function removeOrderedItemsFromCart(
+  tx: Prisma.TransactionClient,
+  orderId: number
+): Promise<void> {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { items: { select: { reportId: true, companyId: true } } },
+  });
+
+  if (!order) {
+    return;
+  }
+
+  if (order.couponId) {
+    await tx.cart.updateMany({
+      where: { userId: order.userId, couponId: order.couponId },
+      data: { couponId: null },
+    });
+  }
+
+  const pairs = order.items.filter(
+    (item) => item.reportId !== null && item.companyId !== null
+  );
+
+  if (pairs.length === 0) {
+    return;
+  }
+
+  await tx.cartItem.deleteMany({
+    where: {
+      cart: { userId: order.userId },
+      OR: pairs.map((item) => ({
+        reportId: item.reportId!,
+        companyId: item.companyId!,
+      })),
+    },
+  });
+}
+
+/**
+ * Get all orders placed by a user
+ */
+export async function getUserOrders(userId: number): Promise<OrderResponse[]> {
+  const orders = await prisma.order.findMany({
+    where: { userId },
+    include: {
+      items: { select: orderItemSelect, orderBy: { id: "asc" } },
+      invoice: { select: { invoiceNumber: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return orders.map(toOrderResponse);
+}
+
+/**
+ * Get a single order by its order number
+ * Only returns the order if it belongs to the user
+ */
+export async function getUserOrder(
+  userId: number,
+  orderNumber: string
+): Promise<OrderResponse | null> {
+  const order = await prisma.order.findFirst({
+    where: { orderNumber, userId },
+    include: {
+      items: { select: orderItemSelect, orderBy: { id: "asc" } },
+      invoice: { select: { invoiceNumber: true } },
+    },
+  });
+
+  return order ? toOrderResponse(order) : null;
+}
@@ -0,0 +1,34 @@
+import { createMockPaymentProvider } from "./mock.provider.js";
+import type { PaymentProvider } from "./types.js";
+
+export type * from "./types.js";
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Register a payment provider so it can be selected by name
+ */
+export function registerPaymentProvider(provider: PaymentProvider) {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get a payment provider by name
+ * Defaults to PAYMENT_PROVIDER from env, falling back to the mock provider
+ */
+export function getPaymentProvider(name?: string): PaymentProvider {
+  const providerName = name || process.env.PAYMENT_PROVIDER || "mock";
+  const provider = providers.get(providerName);
+
+  if (!provider) {
+    throw new Error(`Payment provider not configured: ${providerName}`);
+  }
+
+  return provider;
+}
+
+// The mock provider accepts webhooks signed with a well-known secret,
+// so it is never available in production
+if (process.env.NODE_ENV !== "production") {
+  registerPaymentProvider(createMockPaymentProvider());
+}
@@ -0,0 +1,194 @@
+import crypto from "crypto";
+import { generateSecureRandom } from "../../utils/security.js";
+import type {
+  CreatePaymentIntentInput,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent,
+} from "./types.js";
+
+export interface MockPaymentProvider extends PaymentProvider {
+  /**
+   * Sign a webhook payload the same way the provider verifies it
+   * Used by the development simulate route and tests
+   */
+  signPayload(rawBody: string): string;
+
+  /**
+   * Build a signed webhook body for an intent, as the gateway would send it
+   */
+  buildWebhook(
+    intentId: string,
+    type: PaymentWebhookEvent["type"],
+    failureReason?: string
+  ): { body: string; signature: string };
+}
+
+/**
+ * In-memory payment provider for development and tests
+ * Intents live only for the lifetime of the process; nothing leaves the server
+ */
+export function createMockPaymentProvider(
+  secret: string = process.env.MOCK_PAYMENT_WEBHOOK_SECRET ||
+    "mock_webhook_secret"
+): MockPaymentProvider {
+  const intents = new Map<string, PaymentIntent>();
+  const refunds = new Map<string, number>();
+  const refundsByKey = new Map<string, PaymentRefund>();
+
+  function getIntent(intentId: string): PaymentIntent {
+    const intent = intents.get(intentId);
+    if (!intent) {
+      throw new Error(`Unknown payment intent: ${intentId}`);
+    }
+    return intent;
+  }
+
+  function signPayload(rawBody: string): string {
+    return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+  }
+
+  return {
+    name: "mock",
+    signatureHeader: "x-mock-signature",
+
+    async createIntent(input: CreatePaymentIntentInput) {
+      const intent: PaymentIntent = {
+        id: `mock_pi_${generateSecureRandom(12)}`,
+        status: "requires_payment",
+        amount: input.amount,
+        currency: input.currency,
+        capturedAmount: 0,
+        clientSecret: `mock_secret_${generateSecureRandom(16)}`,
+      };
+      intents.set(intent.id, intent);
+      return { ...intent };
+    },
+
+    async capture(intentId: string, amount?: number) {
+      const intent = getIntent(intentId);
+
+      if (intent.status === "failed" || intent.status === "cancelled") {
+        throw new Error(`Cannot capture a ${intent.status} payment`);
+      }
+
+      const captureAmount = amount ?? intent.amount;
+      if (captureAmount > intent.amount) {
+        throw new Error("Capture amount exceeds the authorized amount");
+      }
+
+      intent.status = "succeeded";
+      intent.capturedAmount = captureAmount;
+      return { ...intent };
+    },
+
+    async cancel(intentId: string) {
+      const intent = getIntent(intentId);
+
+      if (intent.status === "succeeded") {
+        throw new Error("Cannot cancel a succeeded payment");
+      }
+
+      if (intent.status !== "failed") {
+        intent.status = "cancelled";
+      }
+      return { ...intent };
+    },
+
+    async refund(
+      intentId: string,
+      amount?: number,
+      idempotencyKey?: string
+    ): Promise<PaymentRefund> {
+      const previous = idempotencyKey && refundsByKey.get(idempotencyKey);
+      if (previous) {
+        return { ...previous };
+      }
+
+      const intent = getIntent(intentId);
+
+      if (intent.status !== "succeeded") {
+        throw new Error("Only captured payments can be refunded");
+      }
+
+      const alreadyRefunded = refunds.get(intentId) || 0;
+      const refundAmount = amount ?? intent.capturedAmount - alreadyRefunded;
+
+      if (refundAmount <= 0 || alreadyRefunded + refundAmount > intent.capturedAmount) {
+        throw new Error("Refund amount exceeds the captured amount");
+      }
+
+      refunds.set(intentId, alreadyRefunded + refundAmount);
+
+      const refund: PaymentRefund = {
+        id: `mock_re_${generateSecureRandom(12)}`,
+        intentId,
+        amount: refundAmount,
+        status: "succeeded",
+      };
+
+      if (idempotencyKey) {
+        refundsByKey.set(idempotencyKey, refund);
+      }
+
+      return { ...refund };
+    },
+
+    verifyWebhook(rawBody: Buffer, signature: string | undefined) {
+      if (!signature) {
+        throw new Error("Missing webhook signature");
+      }
+
+      const expected = Buffer.from(signPayload(rawBody.toString("utf8")));
+      const actual = Buffer.from(signature);
+
+      if (
+        expected.length !== actual.length ||
+        !crypto.timingSafeEqual(expected, actual)
+      ) {
+        throw new Error("Invalid webhook signature");
+      }
+
+      const payload = JSON.parse(rawBody.toString("utf8"));
+
+      return {
+        id: payload.id,
+        type: payload.type,
+        intentId: payload.data.intentId,
+        amount: payload.data.amount,
+        failureReason: payload.data.failureReason,
+        raw: payload,
+      };
+    },
+
+    signPayload,
+
+    buildWebhook(intentId, type, failureReason) {
+      const intent = getIntent(intentId);
+
+      if (intent.status === "cancelled") {
+        throw new Error("Cannot complete a cancelled payment");
+      }
+
+      if (type === "payment.succeeded") {
+        intent.status = "succeeded";
+        intent.capturedAmount = intent.amount;
+      } else if (type === "payment.failed") {
+        intent.status = "failed";
+      }
+
+      const body = JSON.stringify({
+        id: `mock_evt_${generateSecureRandom(12)}`,
+        type,
+        data: {
+          intentId,
+          amount: intent.amount,
+          failureReason,
+        },
+      });
+
+      return { body, signature: signPayload(body) };
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import type { Prisma } from "../../../generated/prisma/client";
+
+export type PaymentIntentStatus =
+  | "requires_payment"
+  | "requires_capture"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export interface CreatePaymentIntentInput {
+  amount: number;
+  currency: string;
+  reference: string; // Our order number, echoed back by the provider
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentIntent {
+  id: string;
+  status: PaymentIntentStatus;
+  amount: number;
+  currency: string;
+  capturedAmount: number;
+  clientSecret?: string; // Handed to the frontend to complete the payment
+}
+
+export interface PaymentRefund {
+  id: string;
+  intentId: string;
+  amount: number;
+  status: "succeeded" | "pending" | "failed";
+}
+
+export type PaymentWebhookEventType = "payment.succeeded" | "payment.failed";
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  intentId: string;
+  amount: number;
+  failureReason?: string;
+  raw: Prisma.InputJsonValue; // Stored with the event
+}
+
+/**
+ * Contract every payment gateway integration implements
+ * Amounts are in the same units as Order.total
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  /**
+   * Header carrying the webhook signature, e.g. "x-mock-signature"
+   */
+  readonly signatureHeader: string;
+
+  createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent>;
+
+  capture(intentId: string, amount?: number): Promise<PaymentIntent>;
+
+  /**
+   * Cancel an intent that hasn't been paid, so it can no longer succeed
+   * @throws Error if the intent has already succeeded
+   */
+  cancel(intentId: string): Promise<PaymentIntent>;
+
+  /**
+   * Refund a captured intent, fully or partially
+   * A retry with the same idempotency key returns the original refund
+   * instead of refunding twice
+   */
+  refund(
+    intentId: string,
+    amount?: number,
+    idempotencyKey?: string
+  ): Promise<PaymentRefund>;
+
+  /**
+   * Verify the webhook signature and parse the event
+   * @throws Error if the signature is missing or invalid
+   */
+  verifyWebhook(
+    rawBody: Buffer,
+    signature: string | undefined
+  ): PaymentWebhookEvent;
+}
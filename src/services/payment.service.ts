@@ -0,0 +1,388 @@
+import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+import {
+  getPaymentProvider,
+  type PaymentRefund,
+  type PaymentWebhookEvent,
+} from "./payment-providers/index.js";
+import type { MockPaymentProvider } from "./payment-providers/mock.provider.js";
+import {
+  createPendingOrderFromCart,
+  removeOrderedItemsFromCart,
+} from "./order.service.js";
+import { issueInvoiceForOrder } from "./invoice.service.js";
+import { createReportRequestsForOrder } from "./report-request.service.js";
+
+export interface PaymentIntentResponse {
+  orderNumber: string;
+  paymentId: number;
+  provider: string;
+  intentId: string;
+  clientSecret?: string;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  duplicate: boolean;
+}
+
+/**
+ * Cancel the user's unpaid orders and their intents, so only the newest
+ * payment attempt for a cart can be paid
+ * @throws Error if one of their payments has already gone through at the
+ * provider (its webhook is on its way)
+ */
+async function cancelPendingOrders(userId: number): Promise<void> {
+  const orders = await prisma.order.findMany({
+    where: { userId, status: "PENDING" },
+    include: { payments: { where: { status: "PENDING" } } },
+  });
+
+  for (const order of orders) {
+    for (const payment of order.payments) {
+      try {
+        await getPaymentProvider(payment.provider).cancel(
+          payment.providerIntentId
+        );
+      } catch (error) {
+        console.error(
+          `Failed to cancel payment intent ${payment.providerIntentId}:`,
+          error
+        );
+        throw new Error("A previous payment for this cart is being processed");
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.payment.updateMany({
+        where: { orderId: order.id, status: "PENDING" },
+        data: { status: "CANCELLED" },
+      }),
+      prisma.order.updateMany({
+        where: { id: order.id, status: "PENDING" },
+        data: { status: "CANCELLED" },
+      }),
+    ]);
+  }
+}
+
+/**
+ * Start paying for the user's cart
+ * Freezes the cart into a pending order and opens an intent with the provider.
+ * Earlier unpaid attempts are cancelled first. The payment settles in the
+ * order's currency (the reports' own currency)
+ */
+export async function createPaymentForCart(
+  userId: number,
+  currency?: string
+): Promise<PaymentIntentResponse> {
+  const provider = getPaymentProvider();
+  await cancelPendingOrders(userId);
+  const order = await createPendingOrderFromCart(userId, currency);
+
+  let intent;
+  try {
+    intent = await provider.createIntent({
+      amount: order.total,
+      currency: order.currency,
+      reference: order.orderNumber,
+      metadata: { userId: String(userId) },
+    });
+  } catch (error) {
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { status: "CANCELLED" },
+    });
+    throw error;
+  }
+
+  const payment = await prisma.payment.create({
+    data: {
+      orderId: order.id,
+      provider: provider.name,
+      providerIntentId: intent.id,
+      amount: order.total,
+      currency: order.currency,
+    },
+  });
+
+  return {
+    orderNumber: order.orderNumber,
+    paymentId: payment.id,
+    provider: provider.name,
+    intentId: intent.id,
+    clientSecret: intent.clientSecret,
+    amount: payment.amount,
+    currency: payment.currency,
+    status: payment.status,
+  };
+}
+
+/**
+ * Mark a payment as captured and the order as paid, clear the purchased
+ * items and queue the report requests for the research team. Then issues the
+ * invoice; if that fails (e.g. no seller entity configured) the
+ * payment still stands and an admin can issue it later.
+ * Does nothing if the payment is no longer pending, e.g. when a webhook is
+ * delivered twice at once
+ * @throws Error if the captured amount isn't the payment's amount
+ */
+async function markPaymentSucceeded(
+  paymentId: number,
+  capturedAmount: number
+): Promise<void> {
+  const payment = await prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
+
+    if (capturedAmount !== payment.amount) {
+      throw new Error(
+        `Captured amount ${capturedAmount} does not match the payment amount ${payment.amount}`
+      );
+    }
+
+    const { count } = await tx.payment.updateMany({
+      where: { id: paymentId, status: "PENDING" },
+      data: { status: "SUCCEEDED", capturedAmount },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    await tx.order.update({
+      where: { id: payment.orderId },
+      data: { status: "PAID" },
+    });
+
+    await removeOrderedItemsFromCart(tx, payment.orderId);
+
+    await createReportRequestsForOrder(tx, payment.orderId);
+
+    return payment;
+  });
+
+  if (!payment) {
+    return;
+  }
+
+  try {
+    await issueInvoiceForOrder(payment.orderId);
+  } catch (error) {
+    console.error(
+      `Failed to issue invoice for order ${payment.orderId}:`,
+      error
+    );
+  }
+}
+
+async function applyWebhookEvent(
+  providerName: string,
+  event: PaymentWebhookEvent
+): Promise<void> {
+  const payment = await prisma.payment.findUnique({
+    where: {
+      provider_providerIntentId: {
+        provider: providerName,
+        providerIntentId: event.intentId,
+      },
+    },
+  });
+
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+
+  switch (event.type) {
+    case "payment.succeeded":
+      await markPaymentSucceeded(payment.id, event.amount);
+      break;
+
+    case "payment.failed":
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.payment.updateMany({
+          where: { id: payment.id, status: "PENDING" },
+          data: {
+            status: "FAILED",
+            failureReason: event.failureReason || null,
+          },
+        });
+
+        if (count > 0) {
+          await tx.order.updateMany({
+            where: { id: payment.orderId, status: "PENDING" },
+            data: { status: "CANCELLED" },
+          });
+        }
+      });
+      break;
+  }
+}
+
+/**
+ * Handle a signed webhook from a payment provider
+ * Events are recorded by ID so provider retries are applied only once
+ */
+export async function handlePaymentWebhook(
+  providerName: string,
+  rawBody: Buffer,
+  signature: string | undefined
+): Promise<WebhookResult> {
+  const provider = getPaymentProvider(providerName);
+  const event = provider.verifyWebhook(rawBody, signature);
+
+  try {
+    await prisma.paymentEvent.create({
+      data: {
+        provider: provider.name,
+        eventId: event.id,
+        type: event.type,
+        providerIntentId: event.intentId,
+        payload: event.raw,
+      },
+    });
+  } catch (error: any) {
+    if (error.code === "P2002") {
+      return { eventId: event.id, type: event.type, duplicate: true };
+    }
+    throw error;
+  }
+
+  try {
+    await applyWebhookEvent(provider.name, event);
+  } catch (error) {
+    // Forget the event so the provider's retry gets another chance
+    await prisma.paymentEvent.deleteMany({
+      where: { provider: provider.name, eventId: event.id },
+    });
+    throw error;
+  }
+
+  return { eventId: event.id, type: event.type, duplicate: false };
+}
+
+/**
+ * Capture an authorized payment in full (admin)
+ */
+export async function capturePayment(paymentId: number) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+  });
+
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+
+  if (payment.status !== "PENDING") {
+    throw new Error(`Cannot capture a payment with status ${payment.status}`);
+  }
+
+  const provider = getPaymentProvider(payment.provider);
+  const intent = await provider.capture(payment.providerIntentId);
+
+  await markPaymentSucceeded(payment.id, intent.capturedAmount);
+
+  return prisma.payment.findUnique({ where: { id: paymentId } });
+}
+
+/**
+ * Record a refund against a captured payment, inside the caller's
+ * transaction; the money is requested from the provider with
+ * requestProviderRefund once that transaction has committed
+ * Only through refundOrderLines, which records the credit note and the
+ * refunded order lines
+ */
+export async function recordPaymentRefund(
+  tx: Prisma.TransactionClient,
+  paymentId: number,
+  amount: number
+) {
+  const payment = await tx.payment.findUnique({
+    where: { id: paymentId },
+  });
+
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+
+  if (
+    payment.status !== "SUCCEEDED" &&
+    payment.status !== "PARTIALLY_REFUNDED"
+  ) {
+    throw new Error(`Cannot refund a payment with status ${payment.status}`);
+  }
+
+  if (amount <= 0 || amount > payment.capturedAmount - payment.refundedAmount) {
+    throw new Error("Refund amount exceeds the refundable amount");
+  }
+
+  const refundedAmount = payment.refundedAmount + amount;
+
+  return tx.payment.update({
+    where: { id: payment.id },
+    data: {
+      refundedAmount,
+      status:
+        refundedAmount >= payment.capturedAmount
+          ? "REFUNDED"
+          : "PARTIALLY_REFUNDED",
+    },
+  });
+}
+
+/**
+ * Ask a payment's provider to return money already recorded with
+ * recordPaymentRefund
+ * Retrying with the same idempotency key never refunds twice
+ */
+export async function requestProviderRefund(
+  paymentId: number,
+  amount: number,
+  idempotencyKey: string
+): Promise<PaymentRefund> {
+  const payment = await prisma.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+  });
+
+  return getPaymentProvider(payment.provider).refund(
+    payment.providerIntentId,
+    amount,
+    idempotencyKey
+  );
+}
+
+/**
+ * Simulate the gateway completing a mock payment (development only)
+ * Builds a signed webhook and runs it through the normal webhook handler
+ */
+export async function simulateMockPayment(
+  userId: number,
+  intentId: string,
+  outcome: "succeeded" | "failed"
+): Promise<WebhookResult> {
+  const payment = await prisma.payment.findFirst({
+    where: {
+      provider: "mock",
+      providerIntentId: intentId,
+      order: { userId },
+    },
+  });
+
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+
+  const provider = getPaymentProvider("mock") as MockPaymentProvider;
+  const { body, signature } = provider.buildWebhook(
+    intentId,
+    outcome === "succeeded" ? "payment.succeeded" : "payment.failed",
+    outcome === "failed" ? "Simulated card decline" : undefined
+  );
+
+  return handlePaymentWebhook("mock", Buffer.from(body), signature);
+}
@@ -0,0 +1,216 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Prisma } from "../../generated/prisma/client";
+import {
+  applyPricingRules,
+  type PricingRuleLineInput,
+} from "./pricing.service.js";
+
+type RuleInput = {
+  id: number;
+  type: "TIER" | "BUNDLE";
+  reportId?: number;
+  countryCode?: string;
+  minQuantity?: number;
+  percentOff?: number;
+  reportIds?: number[];
+  bundlePrice?: number;
+  currency?: string;
+};
+
+// Serves the rules as if already filtered and ordered by the database
+function withRules(rules: RuleInput[]): Prisma.TransactionClient {
+  const pricingRule = {
+    findMany: async () =>
+      rules.map((rule) => ({
+        name: `Rule ${rule.id}`,
+        description: null,
+        reportId: null,
+        countryCode: null,
+        minQuantity: null,
+        percentOff: null,
+        reportIds: [],
+        bundlePrice: null,
+        currency: null,
+        ...rule,
+      })),
+  };
+
+  return { pricingRule } as unknown as Prisma.TransactionClient;
+}
+
+const line = (
+  reportId: number,
+  quantity: number,
+  overrides: Partial<PricingRuleLineInput> = {}
+): PricingRuleLineInput => ({
+  reportId,
+  companyId: 1,
+  countryCode: "AE",
+  currency: "AED",
+  price: 10000,
+  quantity,
+  ...overrides,
+});
+
+describe("applyPricingRules", () => {
+  it("applies no rule to an empty cart", async () => {
+    assert.deepEqual(await applyPricingRules([], withRules([])), []);
+  });
+
+  it("applies a tier once the quantity reaches its minimum", async () => {
+    const client = withRules([
+      { id: 1, type: "TIER", reportId: 7, minQuantity: 3, percentOff: 0.1 },
+    ]);
+
+    const [below] = await applyPricingRules([line(7, 2)], client);
+    const [reached] = await applyPricingRules([line(7, 3)], client);
+
+    assert.equal(below, null);
+    assert.equal(reached?.type, "TIER");
+    assert.equal(reached?.discount, 3000);
+  });
+
+  it("counts the quantity of every matching line towards a tier", async () => {
+    const client = withRules([
+      {
+        id: 1,
+        type: "TIER",
+        countryCode: "AE",
+        minQuantity: 3,
+        percentOff: 0.1,
+      },
+    ]);
+
+    const applied = await applyPricingRules(
+      [
+        line(7, 1),
+        line(8, 2, { companyId: 2 }),
+        line(9, 5, { countryCode: "SA" }),
+      ],
+      client
+    );
+
+    assert.deepEqual(
+      applied.map((rule) => rule?.discount ?? null),
+      [1000, 2000, null]
+    );
+  });
+
+  it("picks the tier with the largest discount", async () => {
+    const client = withRules([
+      { id: 1, type: "TIER", minQuantity: 2, percentOff: 0.05 },
+      { id: 2, type: "TIER", minQuantity: 5, percentOff: 0.2 },
+      { id: 3, type: "TIER", minQuantity: 3, percentOff: 0.1 },
+    ]);
+
+    const [applied] = await applyPricingRules([line(7, 5)], client);
+
+    assert.equal(applied?.id, 2);
+    assert.equal(applied?.discount, 10000);
+  });
+
+  it("spreads a bundle's saving over its lines by price", async () => {
+    const client = withRules([
+      {
+        id: 1,
+        type: "BUNDLE",
+        reportIds: [7, 8],
+        bundlePrice: 20000,
+        currency: "AED",
+      },
+    ]);
+
+    const applied = await applyPricingRules(
+      [line(7, 1, { price: 15000 }), line(8, 1, { price: 10000 })],
+      client
+    );
+
+    assert.deepEqual(
+      applied.map((rule) => [rule?.type, rule?.discount]),
+      [
+        ["BUNDLE", 3000],
+        ["BUNDLE", 2000],
+      ]
+    );
+  });
+
+  it("only bundles reports bought for the same company", async () => {
+    const client = withRules([
+      {
+        id: 1,
+        type: "BUNDLE",
+        reportIds: [7, 8],
+        bundlePrice: 15000,
+        currency: "AED",
+      },
+    ]);
+
+    const applied = await applyPricingRules(
+      [line(7, 1), line(8, 1, { companyId: 2 })],
+      client
+    );
+
+    assert.deepEqual(applied, [null, null]);
+  });
+
+  it("discounts as many bundles as the smallest quantity allows", async () => {
+    const client = withRules([
+      {
+        id: 1,
+        type: "BUNDLE",
+        reportIds: [7, 8],
+        bundlePrice: 15000,
+        currency: "AED",
+      },
+    ]);
+
+    const applied = await applyPricingRules([line(7, 2), line(8, 3)], client);
+
+    const saving = applied.reduce(
+      (sum, rule) => sum + (rule?.discount ?? 0),
+      0
+    );
+    assert.equal(saving, 10000);
+  });
+
+  it("ignores bundles priced in another currency", async () => {
+    const client = withRules([
+      {
+        id: 1,
+        type: "BUNDLE",
+        reportIds: [7, 8],
+        bundlePrice: 15000,
+        currency: "SAR",
+      },
+    ]);
+
+    assert.deepEqual(
+      await applyPricingRules([line(7, 1), line(8, 1)], client),
+      [null, null]
+    );
+  });
+
+  it("gives bundled lines no tier on top", async () => {
+    const client = withRules([
+      {
+        id: 1,
+        type: "BUNDLE",
+        reportIds: [7, 8],
+        bundlePrice: 15000,
+        currency: "AED",
+      },
+      { id: 2, type: "TIER", minQuantity: 1, percentOff: 0.5 },
+    ]);
+
+    const applied = await applyPricingRules(
+      [line(7, 1), line(8, 1), line(9, 1)],
+      client
+    );
+
+    assert.deepEqual(
+      applied.map((rule) => rule?.id),
+      [1, 1, 2]
+    );
+  });
+});
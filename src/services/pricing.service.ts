@@ -1,15 +1,52 @@
 import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+import { calculateTax, type TaxLineBreakdown } from "./tax.service.js";
+import { getDefaultCurrency } from "./currency.service.js";
 
 export interface ReportPricingInput {
   reportId: number;
   countryCode: string;
 }
 
+export interface PricingRuleLineInput {
+  reportId: number;
+  companyId?: number; // Bundles only combine lines for the same company
+  countryCode: string;
+  currency: string;
+  price: number; // Unit price (minor units)
+  quantity: number;
+}
+
+// Explains the volume/bundle rule behind a line's discount
+export interface AppliedPricingRule {
+  id: number;
+  name: string;
+  type: "TIER" | "BUNDLE";
+  description: string | null;
+  discount: number; // Off the whole line (minor units)
+}
+
+interface PricingRuleDefinition {
+  id: number;
+  name: string;
+  description: string | null;
+  type: "TIER" | "BUNDLE";
+  reportId: number | null;
+  countryCode: string | null;
+  minQuantity: number | null;
+  percentOff: number | null;
+  reportIds: number[];
+  bundlePrice: number | null;
+  currency: string | null;
+}
+
 export interface ReportPricingResult {
   reportId: number;
   name: string;
-  price: number;
-  turnaround: string;
+  price: number; // Minor units of currency
+  currency: string;
+  turnaroundMinDays: number; // Business days
+  turnaroundMaxDays: number;
   isAvailable: boolean;
 }
 
@@ -36,13 +73,17 @@ export async function getReportPrice(
     reportId: report.id,
     name: report.name,
     price: report.price,
-    turnaround: report.turnaround,
+    currency: report.currency,
+    turnaroundMinDays: report.turnaroundMinDays,
+    turnaroundMaxDays: report.turnaroundMaxDays,
     isAvailable: report.isActive,
   };
 }
 
 /**
  * Calculate total price for multiple reports
+ * Volume and bundle pricing rules are applied before tax.
+ * All reports must be priced in the same currency
  */
 export async function calculateTotalPrice(
   items: Array<{
@@ -55,16 +96,21 @@ export async function calculateTotalPrice(
     reportId: number;
     name: string;
     unitPrice: number;
-    totalPrice: number;
+    currency: string;
+    totalPrice: number; // Before discount
     quantity: number;
-    turnaround: string;
+    turnaroundMinDays: number;
+    turnaroundMaxDays: number;
+    pricingRule: AppliedPricingRule | null;
+    discount: number;
+    tax: TaxLineBreakdown;
   }>;
+  currency: string;
   subtotal: number;
+  discount: number;
   tax: number;
   total: number;
 }> {
-  const TAX_RATE = 0.05; // 5%
-
   const calculatedItems = await Promise.all(
     items.map(async (item) => {
       const pricing = await getReportPrice({
@@ -79,25 +125,202 @@ export async function calculateTotalPrice(
         reportId: item.reportId,
         name: pricing.name,
         unitPrice: pricing.price,
+        currency: pricing.currency,
         totalPrice,
         quantity,
-        turnaround: pricing.turnaround,
+        turnaroundMinDays: pricing.turnaroundMinDays,
+        turnaroundMaxDays: pricing.turnaroundMaxDays,
       };
     })
   );
 
-  const subtotal = calculatedItems.reduce(
-    (sum, item) => sum + item.totalPrice,
-    0
+  const currencies = Array.from(
+    new Set(calculatedItems.map((item) => item.currency))
   );
+  if (currencies.length > 1) {
+    throw new Error(
+      `Reports are priced in multiple currencies (${currencies.join(", ")})`
+    );
+  }
 
-  const tax = subtotal * TAX_RATE;
-  const total = subtotal + tax;
+  const rules = await applyPricingRules(
+    calculatedItems.map((item, index) => ({
+      reportId: item.reportId,
+      countryCode: items[index].countryCode,
+      currency: item.currency,
+      price: item.unitPrice,
+      quantity: item.quantity,
+    }))
+  );
+  const discounts = rules.map((rule) => rule?.discount || 0);
+  const discount = discounts.reduce((sum, amount) => sum + amount, 0);
+
+  const { lines, subtotal, tax, total } = await calculateTax(
+    items.map((item, index) => ({
+      countryCode: item.countryCode,
+      amount: calculatedItems[index].totalPrice - discounts[index],
+    }))
+  );
 
   return {
-    items: calculatedItems,
-    subtotal,
+    items: calculatedItems.map((item, index) => ({
+      ...item,
+      pricingRule: rules[index],
+      discount: discounts[index],
+      tax: lines[index],
+    })),
+    currency: currencies[0] || getDefaultCurrency(),
+    subtotal: subtotal + discount,
+    discount,
     tax,
     total,
   };
 }
+
+/**
+ * Load the pricing rules in effect at a given date, highest priority first
+ */
+async function getActivePricingRules(
+  client: Prisma.TransactionClient | typeof prisma,
+  at: Date
+): Promise<PricingRuleDefinition[]> {
+  return client.pricingRule.findMany({
+    where: {
+      isActive: true,
+      AND: [
+        { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+        { OR: [{ validTo: null }, { validTo: { gt: at } }] },
+      ],
+    },
+    orderBy: [{ priority: "desc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Match bundle rules: every report of the bundle in the same currency for the
+ * same company. The saving (sum of unit prices - bundle price) is spread over
+ * the bundled lines in proportion to their prices
+ */
+function applyBundleRule(
+  rule: PricingRuleDefinition,
+  lines: PricingRuleLineInput[],
+  applied: Array<AppliedPricingRule | null>
+): void {
+  if (rule.bundlePrice === null || rule.reportIds.length < 2) return;
+
+  const byCompany = new Map<number | undefined, number[]>();
+  lines.forEach((line, index) => {
+    if (
+      applied[index] === null &&
+      line.currency === rule.currency &&
+      rule.reportIds.includes(line.reportId)
+    ) {
+      byCompany.set(line.companyId, [
+        ...(byCompany.get(line.companyId) || []),
+        index,
+      ]);
+    }
+  });
+
+  for (const indexes of Array.from(byCompany.values())) {
+    // One line per bundled report (the first one found)
+    const bundled = rule.reportIds
+      .map((reportId) => indexes.find((i) => lines[i].reportId === reportId))
+      .filter((index): index is number => index !== undefined);
+
+    if (bundled.length !== rule.reportIds.length) continue;
+
+    const bundles = Math.min(...bundled.map((i) => lines[i].quantity));
+    const listPrice = bundled.reduce((sum, i) => sum + lines[i].price, 0);
+    const saving = (listPrice - rule.bundlePrice) * bundles;
+
+    if (saving <= 0) continue;
+
+    let remaining = saving;
+    bundled.forEach((index, position) => {
+      const share =
+        position === bundled.length - 1
+          ? remaining
+          : Math.round((saving * lines[index].price) / listPrice);
+      remaining -= share;
+      applied[index] = {
+        id: rule.id,
+        name: rule.name,
+        type: "BUNDLE",
+        description: rule.description,
+        discount: share,
+      };
+    });
+  }
+}
+
+function matchesTierRule(
+  rule: PricingRuleDefinition,
+  line: PricingRuleLineInput
+): boolean {
+  return (
+    (rule.reportId === null || line.reportId === rule.reportId) &&
+    (rule.countryCode === null || line.countryCode === rule.countryCode)
+  );
+}
+
+/**
+ * Evaluate volume (tier) and bundle pricing rules for a set of lines
+ * Bundles are matched first; remaining lines get the best tier they qualify
+ * for. A tier counts the quantity of all matching lines in the set.
+ * @returns The rule applied to each line (null if none)
+ */
+export async function applyPricingRules(
+  lines: PricingRuleLineInput[],
+  client: Prisma.TransactionClient | typeof prisma = prisma,
+  at: Date = new Date()
+): Promise<Array<AppliedPricingRule | null>> {
+  const applied: Array<AppliedPricingRule | null> = lines.map(() => null);
+
+  if (lines.length === 0) {
+    return applied;
+  }
+
+  const rules = await getActivePricingRules(client, at);
+
+  for (const rule of rules.filter((r) => r.type === "BUNDLE")) {
+    applyBundleRule(rule, lines, applied);
+  }
+
+  const tiers = rules.filter(
+    (r) => r.type === "TIER" && r.minQuantity !== null && r.percentOff !== null
+  );
+
+  lines.forEach((line, index) => {
+    if (applied[index] !== null) return;
+
+    let best: PricingRuleDefinition | null = null;
+
+    for (const rule of tiers) {
+      if (!matchesTierRule(rule, line)) continue;
+
+      const quantity = lines
+        .filter((other) => matchesTierRule(rule, other))
+        .reduce((sum, other) => sum + other.quantity, 0);
+
+      if (
+        quantity >= rule.minQuantity! &&
+        (!best || rule.percentOff! > best.percentOff!)
+      ) {
+        best = rule;
+      }
+    }
+
+    if (best) {
+      applied[index] = {
+        id: best.id,
+        name: best.name,
+        type: "TIER",
+        description: best.description,
+        discount: Math.round(line.price * line.quantity * best.percentOff!),
+      };
+    }
+  });
+
+  return applied;
+}
@@ -0,0 +1,362 @@
+import { prisma } from "../config/db.js";
+import { generateSecureRandom } from "../utils/security.js";
+import type { TaxLineBreakdown } from "./tax.service.js";
+import type { AppliedPricingRule } from "./pricing.service.js";
+import {
+  findCartItemIssues,
+  getCart,
+  priceCartItems,
+  totalsByCurrency,
+  type CartResponse,
+  type CurrencyTotals,
+} from "./cart.service.js";
+
+// How long a quote's prices are held (configurable via QUOTE_VALIDITY_DAYS)
+const DEFAULT_VALIDITY_DAYS = 30;
+
+export type QuoteDisplayStatus = "OPEN" | "ACCEPTED" | "CANCELLED" | "EXPIRED";
+
+export interface QuoteItemResponse {
+  id: number;
+  reportId: number;
+  report: {
+    id: number;
+    name: string;
+    description: string;
+    turnaroundMinDays: number; // Business days
+    turnaroundMaxDays: number;
+    countryCode: string;
+  };
+  companyId: number;
+  company: {
+    id: number;
+    nameEn: string;
+    nameAr: string | null;
+  };
+  quantity: number;
+  price: number; // Quoted unit price (minor units)
+  listPrice: number; // Price in the cart when the quote was created
+  currency: string;
+  language: string | null;
+  lineTotal: number; // price * quantity
+  pricingRule: AppliedPricingRule | null;
+  discount: number;
+  tax: TaxLineBreakdown;
+}
+
+export interface QuoteResponse {
+  id: number;
+  quoteNumber: string;
+  name: string;
+  status: QuoteDisplayStatus; // EXPIRED: still open but past expiresAt
+  notes: string | null;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  createdAt: Date;
+  items: QuoteItemResponse[];
+  totals: CurrencyTotals[]; // One entry per currency quoted
+}
+
+const quoteItemInclude = {
+  report: {
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      turnaroundMinDays: true,
+      turnaroundMaxDays: true,
+      countryCode: true,
+    },
+  },
+  company: {
+    select: {
+      id: true,
+      nameEn: true,
+      nameAr: true,
+    },
+  },
+};
+
+/**
+ * Quote validity in days (configurable via QUOTE_VALIDITY_DAYS)
+ */
+export function getQuoteValidityDays(): number {
+  const days = parseInt(process.env.QUOTE_VALIDITY_DAYS || "");
+  return days > 0 ? days : DEFAULT_VALIDITY_DAYS;
+}
+
+/**
+ * Generate a human readable quote number, e.g. "QUO-20250307-9B1D3E"
+ */
+function generateQuoteNumber(): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  return `QUO-${date}-${generateSecureRandom(3).toUpperCase()}`;
+}
+
+/**
+ * Status as the buyer sees it: an open quote past its expiry is EXPIRED
+ */
+export function getQuoteStatus(quote: {
+  status: string;
+  expiresAt: Date;
+}): QuoteDisplayStatus {
+  if (quote.status === "OPEN" && quote.expiresAt <= new Date()) {
+    return "EXPIRED";
+  }
+  return quote.status as QuoteDisplayStatus;
+}
+
+/**
+ * Price a quote the same way its items would be priced in the cart
+ * (current pricing rules and tax; coupons are applied in the cart only)
+ */
+async function toQuoteResponse(quote: {
+  id: number;
+  quoteNumber: string;
+  name: string;
+  status: string;
+  notes: string | null;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  createdAt: Date;
+  items: Array<{
+    id: number;
+    reportId: number;
+    report: QuoteItemResponse["report"];
+    companyId: number;
+    company: QuoteItemResponse["company"];
+    quantity: number;
+    price: number;
+    listPrice: number;
+    currency: string;
+    language: string | null;
+  }>;
+}): Promise<QuoteResponse> {
+  const { lines, rules, discounts } = await priceCartItems(
+    quote.items,
+    null,
+    null
+  );
+
+  return {
+    id: quote.id,
+    quoteNumber: quote.quoteNumber,
+    name: quote.name,
+    status: getQuoteStatus(quote),
+    notes: quote.notes,
+    expiresAt: quote.expiresAt,
+    acceptedAt: quote.acceptedAt,
+    createdAt: quote.createdAt,
+    items: quote.items.map((item, index) => ({
+      id: item.id,
+      reportId: item.reportId,
+      report: item.report,
+      companyId: item.companyId,
+      company: item.company,
+      quantity: item.quantity,
+      price: item.price,
+      listPrice: item.listPrice,
+      currency: item.currency,
+      language: item.language,
+      lineTotal: item.price * item.quantity,
+      pricingRule: rules[index],
+      discount: discounts[index],
+      tax: lines[index],
+    })),
+    totals: totalsByCurrency(quote.items, lines, discounts),
+  };
+}
+
+/**
+ * Turn the user's current cart into a named quote with locked prices
+ * The cart itself is left as it is
+ */
+export async function createQuoteFromCart(
+  userId: number,
+  name: string
+): Promise<QuoteResponse> {
+  const cart = await prisma.cart.findUnique({
+    where: { userId },
+  });
+
+  const items = cart
+    ? await prisma.cartItem.findMany({
+        where: { cartId: cart.id },
+        orderBy: { createdAt: "asc" },
+      })
+    : [];
+
+  if (items.length === 0) {
+    throw new Error("Cart is empty");
+  }
+
+  // Only quote prices the user has actually seen
+  const issues = await findCartItemIssues(items);
+  if (issues.some((itemIssues) => itemIssues.length > 0)) {
+    throw new Error(
+      "Cart has items whose price or availability changed; review them and reprice the cart"
+    );
+  }
+
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + getQuoteValidityDays());
+
+  const quote = await prisma.quote.create({
+    data: {
+      quoteNumber: generateQuoteNumber(),
+      name,
+      userId,
+      expiresAt,
+      items: {
+        create: items.map((item) => ({
+          reportId: item.reportId,
+          companyId: item.companyId,
+          quantity: item.quantity,
+          price: item.price,
+          listPrice: item.price,
+          currency: item.currency,
+          language: item.language,
+        })),
+      },
+    },
+    include: {
+      items: { include: quoteItemInclude, orderBy: { id: "asc" } },
+    },
+  });
+
+  return toQuoteResponse(quote);
+}
+
+/**
+ * Get all quotes of a user
+ */
+export async function getUserQuotes(userId: number): Promise<QuoteResponse[]> {
+  const quotes = await prisma.quote.findMany({
+    where: { userId },
+    include: {
+      items: { include: quoteItemInclude, orderBy: { id: "asc" } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return Promise.all(quotes.map(toQuoteResponse));
+}
+
+/**
+ * Get a single quote by its quote number
+ * Only returns the quote if it belongs to the user
+ */
+export async function getUserQuote(
+  userId: number,
+  quoteNumber: string
+): Promise<QuoteResponse | null> {
+  const quote = await prisma.quote.findFirst({
+    where: { quoteNumber, userId },
+    include: {
+      items: { include: quoteItemInclude, orderBy: { id: "asc" } },
+    },
+  });
+
+  return quote ? toQuoteResponse(quote) : null;
+}
+
+/**
+ * Accept an open quote: its items are put in the user's cart at the quoted
+ * prices and quantities, replacing the same report/company already there
+ */
+export async function acceptQuote(
+  userId: number,
+  quoteNumber: string
+): Promise<CartResponse> {
+  await prisma.$transaction(async (tx) => {
+    const quote = await tx.quote.findFirst({
+      where: { quoteNumber, userId },
+      include: { items: true },
+    });
+
+    if (!quote) {
+      throw new Error("Quote not found");
+    }
+
+    const status = getQuoteStatus(quote);
+    if (status !== "OPEN") {
+      throw new Error(`Quote is ${status.toLowerCase()}`);
+    }
+
+    const cart = await tx.cart.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+    });
+
+    for (const item of quote.items) {
+      const quoted = {
+        quantity: item.quantity,
+        price: item.price,
+        currency: item.currency,
+        language: item.language,
+        quoteItemId: item.id,
+      };
+
+      await tx.cartItem.upsert({
+        where: {
+          cartId_reportId_companyId: {
+            cartId: cart.id,
+            reportId: item.reportId,
+            companyId: item.companyId,
+          },
+        },
+        create: {
+          cartId: cart.id,
+          reportId: item.reportId,
+          companyId: item.companyId,
+          ...quoted,
+        },
+        update: quoted,
+      });
+    }
+
+    // Only one of concurrent accepts gets to flip the status
+    const updated = await tx.quote.updateMany({
+      where: { id: quote.id, status: "OPEN" },
+      data: { status: "ACCEPTED", acceptedAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      throw new Error("Quote is accepted");
+    }
+  });
+
+  return getCart({ userId });
+}
+
+/**
+ * Cancel an open quote
+ */
+export async function cancelQuote(
+  userId: number,
+  quoteNumber: string
+): Promise<QuoteResponse> {
+  const quote = await prisma.quote.findFirst({
+    where: { quoteNumber, userId },
+  });
+
+  if (!quote) {
+    throw new Error("Quote not found");
+  }
+
+  const status = getQuoteStatus(quote);
+  if (status !== "OPEN") {
+    throw new Error(`Quote is ${status.toLowerCase()}`);
+  }
+
+  const cancelled = await prisma.quote.update({
+    where: { id: quote.id },
+    data: { status: "CANCELLED" },
+    include: {
+      items: { include: quoteItemInclude, orderBy: { id: "asc" } },
+    },
+  });
+
+  return toQuoteResponse(cancelled);
+}
@@ -0,0 +1,321 @@
+import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+import {
+  issueInvoiceForOrder,
+  toInvoiceAmounts,
+} from "./invoice.service.js";
+import {
+  recordPaymentRefund,
+  requestProviderRefund,
+} from "./payment.service.js";
+import {
+  getCreditRefundableForOrder,
+  refundCreditsForOrder,
+} from "./credit.service.js";
+import { cancelReportRequestsForOrderItems } from "./report-request.service.js";
+
+export type CreditNoteWithLines = Prisma.CreditNoteGetPayload<{
+  include: { lines: true };
+}>;
+
+export interface RefundLineInput {
+  orderItemId: number;
+  amount?: number; // Minor units including tax; omitted = the rest of the line
+}
+
+export interface RefundOrderLinesInput {
+  orderId: number;
+  lines: RefundLineInput[];
+  reason: string;
+  adminId: number;
+}
+
+/**
+ * Credit note number from the seller's prefix and its credit note sequence,
+ * e.g. "INV-SA-CN-000007"
+ */
+function formatCreditNoteNumber(prefix: string, sequence: number): string {
+  return `${prefix}-CN-${String(sequence).padStart(6, "0")}`;
+}
+
+/**
+ * Amount of an order line that can still be refunded, including tax
+ */
+export function getRefundableAmount(item: {
+  quantity: number;
+  price: number;
+  discount: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+  refundedAmount: number;
+}): number {
+  return toInvoiceAmounts(item).total - item.refundedAmount;
+}
+
+/**
+ * Refund (part of) some lines of a paid order
+ * The credit note is issued against the order's invoice with the next number
+ * in the seller's credit note sequence, and the refunded amounts are recorded
+ * on the order lines and the payment. Tax is refunded in proportion to the
+ * line's tax. Lines refunded in full have their undelivered report requests
+ * cancelled. Orders paid with prepaid credit get their credit back in the
+ * same transaction.
+ * The order's lines stay locked from the refundable amount check to the
+ * credit note, so concurrent refunds of an order can't over-refund it. The
+ * payment provider is only asked for the money once all of that has
+ * committed (see sendCreditNoteRefund), so a slow provider holds no locks
+ * and a failed write never leaves money returned without a credit note.
+ */
+export async function refundOrderLines(
+  input: RefundOrderLinesInput
+): Promise<CreditNoteWithLines> {
+  const { orderId, lines, reason, adminId } = input;
+
+  if (lines.length === 0) {
+    throw new Error("No lines to refund");
+  }
+
+  if (new Set(lines.map((l) => l.orderItemId)).size !== lines.length) {
+    throw new Error("Each order line can only be refunded once per credit note");
+  }
+
+  const existing = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { invoice: true },
+  });
+
+  if (!existing) {
+    throw new Error("Order not found");
+  }
+
+  if (existing.status !== "PAID" && existing.status !== "PARTIALLY_REFUNDED") {
+    throw new Error(`Cannot refund an order with status ${existing.status}`);
+  }
+
+  // A credit note needs an invoice to correct; issue it if that failed earlier
+  const invoice =
+    existing.invoice ?? (await issueInvoiceForOrder(existing.id));
+
+  const creditNote = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`
+      SELECT id FROM "OrderItem" WHERE "orderId" = ${orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        items: true,
+        payments: {
+          where: { status: { in: ["SUCCEEDED", "PARTIALLY_REFUNDED"] } },
+          orderBy: { id: "asc" },
+        },
+      },
+    });
+
+    if (order.status !== "PAID" && order.status !== "PARTIALLY_REFUNDED") {
+      throw new Error(`Cannot refund an order with status ${order.status}`);
+    }
+
+    const refundLines = lines.map((line) => {
+      const item = order.items.find((i) => i.id === line.orderItemId);
+
+      if (!item) {
+        throw new Error(`Order line ${line.orderItemId} not found`);
+      }
+
+      const refundable = getRefundableAmount(item);
+      const total = line.amount ?? refundable;
+
+      if (!Number.isInteger(total) || total <= 0 || total > refundable) {
+        throw new Error(
+          `Refund amount for order line ${item.id} must be between 1 and ${refundable}`
+        );
+      }
+
+      const lineTotal = toInvoiceAmounts(item).total;
+      const taxAmount =
+        lineTotal > 0 ? Math.round((total * item.taxAmount) / lineTotal) : 0;
+
+      return {
+        item,
+        netAmount: total - taxAmount,
+        taxAmount,
+        total,
+      };
+    });
+
+    const refundTotal = refundLines.reduce((sum, l) => sum + l.total, 0);
+
+    const payment = order.payments.find(
+      (p) => p.capturedAmount - p.refundedAmount >= refundTotal
+    );
+
+    if (
+      !payment &&
+      (await getCreditRefundableForOrder(tx, order.id)) < refundTotal
+    ) {
+      throw new Error("No captured payment or credit covers the refund amount");
+    }
+
+    if (payment) {
+      await recordPaymentRefund(tx, payment.id, refundTotal);
+    }
+
+    // Row lock on the seller until commit: concurrent credit notes queue here
+    const seller = await tx.sellerEntity.update({
+      where: { id: invoice.sellerEntityId },
+      data: { nextCreditNoteNumber: { increment: 1 } },
+    });
+    const sequence = seller.nextCreditNoteNumber - 1;
+
+    const creditNote = await tx.creditNote.create({
+      data: {
+        creditNoteNumber: formatCreditNoteNumber(
+          seller.invoicePrefix,
+          sequence
+        ),
+        sequence,
+        sellerEntityId: seller.id,
+        invoiceId: invoice.id,
+        orderId: order.id,
+        paymentId: payment?.id ?? null,
+        refundStatus: payment ? "PENDING" : null,
+        reason,
+        currency: order.currency,
+        netAmount: refundLines.reduce((sum, l) => sum + l.netAmount, 0),
+        tax: refundLines.reduce((sum, l) => sum + l.taxAmount, 0),
+        total: refundTotal,
+        createdById: adminId,
+        lines: {
+          create: refundLines.map((line) => ({
+            orderItemId: line.item.id,
+            reportName: line.item.reportName,
+            companyNameEn: line.item.companyNameEn,
+            companyNameAr: line.item.companyNameAr,
+            taxRate: line.item.taxRate,
+            netAmount: line.netAmount,
+            taxAmount: line.taxAmount,
+            total: line.total,
+          })),
+        },
+      },
+      include: { lines: { orderBy: { id: "asc" } } },
+    });
+
+    if (!payment) {
+      await refundCreditsForOrder(tx, {
+        order,
+        creditNoteId: creditNote.id,
+        amount: refundTotal,
+      });
+    }
+
+    for (const line of refundLines) {
+      await tx.orderItem.update({
+        where: { id: line.item.id },
+        data: { refundedAmount: { increment: line.total } },
+      });
+    }
+
+    const items = await tx.orderItem.findMany({ where: { orderId } });
+    const refundedItems = items.filter(
+      (item) => getRefundableAmount(item) <= 0
+    );
+    const fullyRefunded = refundedItems.length === items.length;
+
+    // Nothing left to research for lines refunded in full
+    await cancelReportRequestsForOrderItems(
+      tx,
+      refundedItems.map((item) => item.id)
+    );
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: { status: fullyRefunded ? "REFUNDED" : "PARTIALLY_REFUNDED" },
+    });
+
+    return creditNote;
+  });
+
+  if (!creditNote.paymentId) {
+    return creditNote;
+  }
+
+  return sendCreditNoteRefund(creditNote.id);
+}
+
+/**
+ * Ask the payment provider for the money of a credit note refunded to a
+ * payment, and record the outcome on the credit note
+ * The credit note's uuid is the idempotency key, so a credit note left
+ * PENDING or FAILED (provider down, process stopped) can be sent again
+ * without ever refunding twice. A provider error is recorded as FAILED
+ * rather than thrown: the credit note stands either way.
+ * @throws Error if the credit note has no provider refund to send
+ */
+export async function sendCreditNoteRefund(
+  creditNoteId: number
+): Promise<CreditNoteWithLines> {
+  const creditNote = await prisma.creditNote.findUnique({
+    where: { id: creditNoteId },
+  });
+
+  if (!creditNote) {
+    throw new Error("Credit note not found");
+  }
+
+  if (
+    !creditNote.paymentId ||
+    (creditNote.refundStatus !== "PENDING" &&
+      creditNote.refundStatus !== "FAILED")
+  ) {
+    throw new Error("Credit note has no pending provider refund");
+  }
+
+  let data: Prisma.CreditNoteUpdateInput;
+  try {
+    const refund = await requestProviderRefund(
+      creditNote.paymentId,
+      creditNote.total,
+      creditNote.uuid
+    );
+
+    data = {
+      refundStatus:
+        refund.status === "succeeded"
+          ? "SUCCEEDED"
+          : refund.status === "failed"
+            ? "FAILED"
+            : "PENDING",
+      providerRefundId: refund.id,
+    };
+  } catch (error) {
+    console.error(
+      `Provider refund for credit note ${creditNote.creditNoteNumber} failed:`,
+      error
+    );
+    data = { refundStatus: "FAILED" };
+  }
+
+  return prisma.creditNote.update({
+    where: { id: creditNote.id },
+    data,
+    include: { lines: { orderBy: { id: "asc" } } },
+  });
+}
+
+/**
+ * Get a credit note by its number
+ * Only returns the credit note if its order belongs to the user
+ */
+export async function getUserCreditNote(
+  userId: number,
+  creditNoteNumber: string
+) {
+  return prisma.creditNote.findFirst({
+    where: { creditNoteNumber, order: { userId } },
+    include: {
+      lines: { orderBy: { id: "asc" } },
+      invoice: { include: { lines: { orderBy: { id: "asc" } } } },
+    },
+  });
+}
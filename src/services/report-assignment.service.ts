@@ -0,0 +1,237 @@
+import { prisma } from "../config/db.js";
+import type { CompanyLegalForm, Prisma } from "../../generated/prisma/client";
+
+// Companies connected or disconnected per query
+const ASSIGNMENT_BATCH_SIZE = 1000;
+
+export interface CompanyFilter {
+  countryCodes?: string[];
+  industries?: string[]; // Case-insensitive
+  cities?: string[]; // Case-insensitive
+  legalForms?: CompanyLegalForm[];
+}
+
+export interface ReportAssignmentResult {
+  matchedCompanies: number; // Companies matching the filter
+  changed: number; // Company/report links added or removed
+  reports: Array<{ reportId: number; changed: number }>;
+  dryRun: boolean;
+}
+
+/**
+ * Build the company query for a filter
+ * Each criterion matches any of its values; criteria are combined with AND.
+ */
+export function buildCompanyFilterWhere(
+  filter: CompanyFilter
+): Prisma.CompanyWhereInput {
+  const and: Prisma.CompanyWhereInput[] = [];
+
+  if (filter.countryCodes?.length) {
+    and.push({
+      countryCode: { in: filter.countryCodes.map((c) => c.toUpperCase()) },
+    });
+  }
+
+  if (filter.industries?.length) {
+    and.push({
+      OR: filter.industries.map((industry) => ({
+        industry: { equals: industry, mode: "insensitive" as const },
+      })),
+    });
+  }
+
+  if (filter.cities?.length) {
+    and.push({
+      OR: filter.cities.map((city) => ({
+        city: { equals: city, mode: "insensitive" as const },
+      })),
+    });
+  }
+
+  if (filter.legalForms?.length) {
+    and.push({ legalForm: { in: filter.legalForms } });
+  }
+
+  return { AND: and };
+}
+
+/**
+ * Assign reports to, or unassign them from, every company matching a filter
+ * A report is only assigned to companies in its own country; a filter on
+ * other countries is rejected. With dryRun, nothing changes and the result
+ * counts what would.
+ */
+async function updateReportAssignments(
+  mode: "assign" | "unassign",
+  reportIds: number[],
+  filter: CompanyFilter,
+  dryRun: boolean
+): Promise<ReportAssignmentResult> {
+  const ids = Array.from(new Set(reportIds));
+  const reports = await prisma.report.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, countryCode: true },
+  });
+
+  if (reports.length !== ids.length) {
+    const missing = ids.filter((id) => !reports.some((r) => r.id === id));
+    throw new Error(`Reports not found: ${missing.join(", ")}`);
+  }
+
+  const filterCountries = filter.countryCodes?.map((c) => c.toUpperCase());
+  if (mode === "assign" && filterCountries?.length) {
+    const mismatched = reports.filter(
+      (r) => !filterCountries.includes(r.countryCode)
+    );
+
+    if (mismatched.length > 0) {
+      throw new Error(
+        `Reports for another country than the companies: ${mismatched
+          .map((r) => `${r.id} (${r.countryCode})`)
+          .join(", ")}`
+      );
+    }
+  }
+
+  const where = buildCompanyFilterWhere(filter);
+  const result: ReportAssignmentResult = {
+    matchedCompanies: await prisma.company.count({ where }),
+    changed: 0,
+    reports: [],
+    dryRun,
+  };
+
+  for (const { id: reportId, countryCode } of reports) {
+    // Only the companies whose link would actually change
+    const pending: Prisma.CompanyWhereInput =
+      mode === "assign"
+        ? {
+            AND: [where, { countryCode }],
+            reports: { none: { id: reportId } },
+          }
+        : { ...where, reports: { some: { id: reportId } } };
+    let changed = 0;
+
+    if (dryRun) {
+      changed = await prisma.company.count({ where: pending });
+    } else {
+      // Each batch drops out of the pending set once updated
+      for (;;) {
+        const companies = await prisma.company.findMany({
+          where: pending,
+          select: { id: true },
+          take: ASSIGNMENT_BATCH_SIZE,
+        });
+
+        if (companies.length === 0) {
+          break;
+        }
+
+        await prisma.report.update({
+          where: { id: reportId },
+          data: {
+            companies:
+              mode === "assign"
+                ? { connect: companies }
+                : { disconnect: companies },
+          },
+        });
+        changed += companies.length;
+      }
+    }
+
+    result.reports.push({ reportId, changed });
+    result.changed += changed;
+  }
+
+  return result;
+}
+
+/**
+ * Assign reports to every company matching a filter
+ */
+export async function assignReportsToCompanies(
+  reportIds: number[],
+  filter: CompanyFilter,
+  options: { dryRun?: boolean } = {}
+): Promise<ReportAssignmentResult> {
+  return updateReportAssignments(
+    "assign",
+    reportIds,
+    filter,
+    options.dryRun ?? false
+  );
+}
+
+/**
+ * Unassign reports from every company matching a filter
+ */
+export async function unassignReportsFromCompanies(
+  reportIds: number[],
+  filter: CompanyFilter,
+  options: { dryRun?: boolean } = {}
+): Promise<ReportAssignmentResult> {
+  return updateReportAssignments(
+    "unassign",
+    reportIds,
+    filter,
+    options.dryRun ?? false
+  );
+}
+
+/**
+ * Get the reports to connect to a new company: its country's default
+ * reports, and the ones picked for it
+ * @throws Error if a picked report doesn't exist or is for another country
+ */
+export async function getNewCompanyReportIds(
+  countryCode: string,
+  reportIds: number[] = []
+): Promise<number[]> {
+  const picked = await prisma.report.findMany({
+    where: { id: { in: reportIds } },
+    select: { id: true, countryCode: true },
+  });
+
+  const missing = reportIds.filter((id) => !picked.some((r) => r.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Reports not found: ${missing.join(", ")}`);
+  }
+
+  const mismatched = picked.filter((r) => r.countryCode !== countryCode);
+  if (mismatched.length > 0) {
+    throw new Error(
+      `Reports for another country than the companies: ${mismatched
+        .map((r) => `${r.id} (${r.countryCode})`)
+        .join(", ")}`
+    );
+  }
+
+  const defaults = (await getDefaultReportIds([countryCode])).get(countryCode);
+  return Array.from(new Set([...(defaults || []), ...reportIds]));
+}
+
+/**
+ * Get the IDs of each country's default reports, keyed by country code
+ * These are assigned to companies when they are created or imported.
+ */
+export async function getDefaultReportIds(
+  countryCodes: string[]
+): Promise<Map<string, number[]>> {
+  const reports = await prisma.report.findMany({
+    where: { countryCode: { in: countryCodes }, isDefault: true },
+    select: { id: true, countryCode: true },
+    orderBy: { id: "asc" },
+  });
+
+  const result = new Map<string, number[]>();
+  for (const code of countryCodes) {
+    result.set(
+      code,
+      reports.filter((r) => r.countryCode === code).map((r) => r.id)
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,135 @@
+import { prisma } from "../config/db.js";
+import type { Prisma } from "../../generated/prisma/client";
+
+// Languages reports can be delivered in, in display order
+export const REPORT_LANGUAGES = ["en", "ar", "fr"];
+
+// Used when a cart item doesn't name a language and the report offers it
+export const DEFAULT_REPORT_LANGUAGE = "en";
+
+export interface ReportLanguageOption {
+  language: string;
+  surcharge: number; // Minor units of the report's currency, per report
+  extraDays: number; // Business days added to the turnaround
+}
+
+/**
+ * Normalize a language code ("AR" -> "ar")
+ * @returns The code, or null if it isn't a supported language
+ */
+export function normalizeLanguage(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const language = value.trim().toLowerCase();
+  return REPORT_LANGUAGES.includes(language) ? language : null;
+}
+
+/**
+ * Pick the option of a report for a cart item's language
+ * Without a language, the default language if the report offers it,
+ * otherwise the report's first language
+ * @returns null if the report isn't offered in the language
+ */
+export function resolveLanguageOption(
+  options: ReportLanguageOption[],
+  language?: string | null
+): ReportLanguageOption | null {
+  if (language) {
+    return options.find((option) => option.language === language) || null;
+  }
+
+  return (
+    options.find((option) => option.language === DEFAULT_REPORT_LANGUAGE) ||
+    options[0] ||
+    null
+  );
+}
+
+/**
+ * Sort language options in display order
+ */
+export function sortLanguageOptions<T extends { language: string }>(
+  options: T[]
+): T[] {
+  return [...options].sort(
+    (a, b) =>
+      REPORT_LANGUAGES.indexOf(a.language) -
+      REPORT_LANGUAGES.indexOf(b.language)
+  );
+}
+
+/**
+ * Get the language options of each report, keyed by report ID
+ */
+export async function getReportLanguageOptions(
+  reportIds: number[],
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<Map<number, ReportLanguageOption[]>> {
+  const ids = Array.from(new Set(reportIds));
+  const options = await client.reportLanguage.findMany({
+    where: { reportId: { in: ids } },
+    select: {
+      reportId: true,
+      language: true,
+      surcharge: true,
+      extraDays: true,
+    },
+  });
+
+  const result = new Map<number, ReportLanguageOption[]>();
+  for (const id of ids) {
+    result.set(
+      id,
+      sortLanguageOptions(
+        options
+          .filter((option) => option.reportId === id)
+          .map(({ language, surcharge, extraDays }) => ({
+            language,
+            surcharge,
+            extraDays,
+          }))
+      )
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Validate language options sent by an admin
+ * Each entry needs a supported language, appearing once, with an optional
+ * non-negative integer surcharge and extraDays (default 0).
+ * @returns The options, or null if invalid
+ */
+export function parseLanguageOptions(
+  value: unknown
+): ReportLanguageOption[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  const options: ReportLanguageOption[] = [];
+
+  for (const entry of value) {
+    const language = normalizeLanguage(entry?.language);
+    const surcharge = entry?.surcharge ?? 0;
+    const extraDays = entry?.extraDays ?? 0;
+
+    if (
+      !language ||
+      options.some((option) => option.language === language) ||
+      !Number.isInteger(surcharge) ||
+      surcharge < 0 ||
+      !Number.isInteger(extraDays) ||
+      extraDays < 0
+    ) {
+      return null;
+    }
+
+    options.push({ language, surcharge, extraDays });
+  }
+
+  return sortLanguageOptions(options);
+}
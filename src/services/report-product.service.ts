@@ -0,0 +1,313 @@
+import path from "path";
+import { prisma } from "../config/db.js";
+import type { Report } from "../../generated/prisma/client";
+import { generateSecureRandom } from "../utils/security.js";
+import { getDefaultCurrency, parseCurrency } from "./currency.service.js";
+import { DEFAULT_REPORT_LANGUAGE } from "./report-language.service.js";
+import { getStorageProvider } from "./storage-providers/index.js";
+
+export interface ReportOfferingInput {
+  countryCode: string;
+  price: number; // Minor units of currency
+  currency?: string; // Default currency when omitted on a new offering
+  // Product turnaround when omitted on a new offering
+  turnaroundMinDays?: number;
+  turnaroundMaxDays?: number;
+  isActive?: boolean;
+}
+
+export interface ReportProductUpdate {
+  name?: string;
+  description?: string;
+  sections?: string[];
+  turnaroundMinDays?: number;
+  turnaroundMaxDays?: number;
+  isActive?: boolean;
+}
+
+export interface RolloutResult {
+  created: Report[];
+  updated: Report[];
+}
+
+/**
+ * Roll a product out to several countries at once
+ * Countries without an offering get a new report, offered in the default
+ * language; existing offerings get the given price and turnaround. Either
+ * every country is rolled out or none is.
+ */
+export async function rolloutReportProduct(
+  productId: number,
+  offerings: ReportOfferingInput[]
+): Promise<RolloutResult> {
+  const codes = offerings.map((o) => o.countryCode.toUpperCase());
+
+  if (new Set(codes).size !== codes.length) {
+    throw new Error("Each country can only be rolled out once");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const product = await tx.reportProduct.findUnique({
+      where: { id: productId },
+      include: { reports: { where: { countryCode: { in: codes } } } },
+    });
+
+    if (!product) {
+      throw new Error("Report product not found");
+    }
+
+    const countries = await tx.country.findMany({
+      where: { code: { in: codes } },
+      select: { code: true },
+    });
+
+    const result: RolloutResult = { created: [], updated: [] };
+
+    for (let i = 0; i < offerings.length; i++) {
+      const offering = offerings[i];
+      const countryCode = codes[i];
+      const existing = product.reports.find(
+        (r) => r.countryCode === countryCode
+      );
+
+      if (!countries.some((c) => c.code === countryCode)) {
+        throw new Error(`Invalid country code: ${countryCode}`);
+      }
+
+      if (!Number.isInteger(offering.price) || offering.price < 0) {
+        throw new Error(
+          `Price for ${countryCode} must be a positive integer in minor units`
+        );
+      }
+
+      const currency =
+        offering.currency !== undefined
+          ? parseCurrency(offering.currency)
+          : (existing?.currency ?? getDefaultCurrency());
+
+      if (!currency) {
+        throw new Error(`Unsupported currency for ${countryCode}`);
+      }
+
+      const turnaroundMinDays =
+        offering.turnaroundMinDays ??
+        existing?.turnaroundMinDays ??
+        product.turnaroundMinDays;
+      const turnaroundMaxDays =
+        offering.turnaroundMaxDays ??
+        existing?.turnaroundMaxDays ??
+        product.turnaroundMaxDays;
+
+      if (
+        !Number.isInteger(turnaroundMinDays) ||
+        !Number.isInteger(turnaroundMaxDays) ||
+        turnaroundMinDays < 0 ||
+        turnaroundMinDays > turnaroundMaxDays
+      ) {
+        throw new Error(
+          `Turnaround for ${countryCode} must be whole business days with turnaroundMinDays <= turnaroundMaxDays`
+        );
+      }
+
+      const data = {
+        name: product.name,
+        description: product.description,
+        price: offering.price,
+        currency,
+        turnaroundMinDays,
+        turnaroundMaxDays,
+        ...(offering.isActive !== undefined
+          ? { isActive: offering.isActive }
+          : {}),
+      };
+
+      if (existing) {
+        result.updated.push(
+          await tx.report.update({ where: { id: existing.id }, data })
+        );
+      } else {
+        result.created.push(
+          await tx.report.create({
+            data: {
+              ...data,
+              countryCode,
+              productId: product.id,
+              languages: { create: { language: DEFAULT_REPORT_LANGUAGE } },
+            },
+          })
+        );
+      }
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Stop selling a product in some countries (all of them when countryCodes
+ * is omitted)
+ * Offerings are deactivated rather than deleted: orders still refer to them
+ * @returns The number of offerings deactivated
+ */
+export async function withdrawReportProduct(
+  productId: number,
+  countryCodes?: string[]
+): Promise<number> {
+  const { count } = await prisma.report.updateMany({
+    where: {
+      productId,
+      isActive: true,
+      ...(countryCodes
+        ? { countryCode: { in: countryCodes.map((c) => c.toUpperCase()) } }
+        : {}),
+    },
+    data: { isActive: false },
+  });
+
+  return count;
+}
+
+/**
+ * Update a product and carry the change over to its offerings
+ * Name and description are copied to every offering. A new turnaround only
+ * replaces the turnaround of offerings that still had the product's old
+ * one; offerings with their own turnaround keep it.
+ */
+export async function updateReportProduct(
+  id: number,
+  update: ReportProductUpdate
+) {
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.reportProduct.findUnique({ where: { id } });
+
+    if (!current) {
+      throw new Error("Report product not found");
+    }
+
+    const product = await tx.reportProduct.update({
+      where: { id },
+      data: update,
+    });
+
+    if (
+      product.name !== current.name ||
+      product.description !== current.description
+    ) {
+      await tx.report.updateMany({
+        where: { productId: id },
+        data: { name: product.name, description: product.description },
+      });
+    }
+
+    if (
+      product.turnaroundMinDays !== current.turnaroundMinDays ||
+      product.turnaroundMaxDays !== current.turnaroundMaxDays
+    ) {
+      await tx.report.updateMany({
+        where: {
+          productId: id,
+          turnaroundMinDays: current.turnaroundMinDays,
+          turnaroundMaxDays: current.turnaroundMaxDays,
+        },
+        data: {
+          turnaroundMinDays: product.turnaroundMinDays,
+          turnaroundMaxDays: product.turnaroundMaxDays,
+        },
+      });
+    }
+
+    return product;
+  });
+}
+
+/**
+ * Store (or replace) the sample PDF of a product
+ */
+export async function setReportProductSample(
+  id: number,
+  fileName: string,
+  body: Buffer
+) {
+  const product = await prisma.reportProduct.findUnique({ where: { id } });
+
+  if (!product) {
+    throw new Error("Report product not found");
+  }
+
+  const storage = getStorageProvider();
+  const storageKey = `report-products/${id}/${generateSecureRandom(16)}.pdf`;
+
+  await storage.put(storageKey, body, "application/pdf");
+
+  const updated = await prisma.reportProduct.update({
+    where: { id },
+    data: {
+      sampleFileName: path.basename(fileName) || `${product.name}.pdf`,
+      sampleStorageProvider: storage.name,
+      sampleStorageKey: storageKey,
+    },
+  });
+
+  if (product.sampleStorageProvider && product.sampleStorageKey) {
+    await getStorageProvider(product.sampleStorageProvider)
+      .delete(product.sampleStorageKey)
+      .catch((error) =>
+        console.error(`Failed to delete old sample of product ${id}:`, error)
+      );
+  }
+
+  return updated;
+}
+
+/**
+ * Get the sample PDF of a product
+ * @returns null if the product has no sample
+ */
+export async function getReportProductSample(
+  id: number
+): Promise<{ fileName: string; body: Buffer } | null> {
+  const product = await prisma.reportProduct.findUnique({ where: { id } });
+
+  if (!product) {
+    throw new Error("Report product not found");
+  }
+
+  if (!product.sampleStorageProvider || !product.sampleStorageKey) {
+    return null;
+  }
+
+  return {
+    fileName: product.sampleFileName || `${product.name}.pdf`,
+    body: await getStorageProvider(product.sampleStorageProvider).get(
+      product.sampleStorageKey
+    ),
+  };
+}
+
+/**
+ * Remove the sample PDF of a product
+ */
+export async function deleteReportProductSample(id: number) {
+  const product = await prisma.reportProduct.findUnique({ where: { id } });
+
+  if (!product) {
+    throw new Error("Report product not found");
+  }
+
+  const updated = await prisma.reportProduct.update({
+    where: { id },
+    data: {
+      sampleFileName: null,
+      sampleStorageProvider: null,
+      sampleStorageKey: null,
+    },
+  });
+
+  if (product.sampleStorageProvider && product.sampleStorageKey) {
+    await getStorageProvider(product.sampleStorageProvider).delete(
+      product.sampleStorageKey
+    );
+  }
+
+  return updated;
+}
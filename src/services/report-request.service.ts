@@ -0,0 +1,263 @@
+import { prisma } from "../config/db.js";
+import type {
+  Prisma,
+  ReportRequestStatus,
+} from "../../generated/prisma/client";
+import {
+  addBusinessDays,
+  loadBusinessCalendars,
+} from "./business-calendar.service.js";
+
+const DEFAULT_SLA_AT_RISK_HOURS = 24;
+
+// Allowed status changes; QA can send a request back to research
+const STATUS_TRANSITIONS: Record<ReportRequestStatus, ReportRequestStatus[]> = {
+  QUEUED: ["RESEARCHING", "CANCELLED"],
+  RESEARCHING: ["QA", "QUEUED", "CANCELLED"],
+  QA: ["DELIVERED", "RESEARCHING", "CANCELLED"],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+export const REPORT_REQUEST_STATUSES = Object.keys(
+  STATUS_TRANSITIONS
+) as ReportRequestStatus[];
+
+export function isReportRequestStatus(
+  value: string
+): value is ReportRequestStatus {
+  return (REPORT_REQUEST_STATUSES as string[]).includes(value);
+}
+
+export interface ReportRequestActor {
+  id: number;
+  role?: string;
+}
+
+/**
+ * Open a report request for every line of a paid order
+ * Each request is due after the line's maximum turnaround, in business days
+ * of the report country's calendar, counted from now (payment).
+ * Safe to call again: lines that already have a request are skipped.
+ * Runs inside the caller's transaction
+ */
+export async function createReportRequestsForOrder(
+  tx: Prisma.TransactionClient,
+  orderId: number
+): Promise<number> {
+  const items = await tx.orderItem.findMany({
+    where: { orderId },
+    orderBy: { id: "asc" },
+  });
+
+  const now = new Date();
+  const calendars = await loadBusinessCalendars(
+    items.map((item) => item.countryCode),
+    now,
+    tx
+  );
+
+  const { count } = await tx.reportRequest.createMany({
+    data: items.map((item) => ({
+      orderItemId: item.id,
+      orderId,
+      reportId: item.reportId,
+      companyId: item.companyId,
+      countryCode: item.countryCode,
+      dueAt: addBusinessDays(
+        now,
+        item.turnaroundMaxDays,
+        calendars.get(item.countryCode)!
+      ),
+    })),
+    skipDuplicates: true,
+  });
+
+  return count;
+}
+
+/**
+ * Move a report request to another status, optionally with a note
+ * Staff can only move requests assigned to them; starting research on an
+ * unassigned request assigns it to whoever starts it. Only admins cancel.
+ * The write only applies if nobody moved or reassigned the request since it
+ * was read.
+ */
+export async function updateReportRequestStatus(
+  id: number,
+  status: ReportRequestStatus,
+  actor: ReportRequestActor,
+  note?: string
+) {
+  return prisma.$transaction(async (tx) => {
+    const request = await tx.reportRequest.findUnique({ where: { id } });
+
+    if (!request) {
+      throw new Error("Report request not found");
+    }
+
+    const isAdmin = actor.role === "ADMIN";
+
+    if (!STATUS_TRANSITIONS[request.status].includes(status)) {
+      throw new Error(
+        `Cannot change report request status from ${request.status} to ${status}`
+      );
+    }
+
+    if (status === "CANCELLED" && !isAdmin) {
+      throw new Error("Only admins can cancel report requests");
+    }
+
+    if (
+      !isAdmin &&
+      request.assigneeId !== null &&
+      request.assigneeId !== actor.id
+    ) {
+      throw new Error("Report request is assigned to another analyst");
+    }
+
+    if (!isAdmin && request.assigneeId === null && status !== "RESEARCHING") {
+      throw new Error("Report request must be assigned to you first");
+    }
+
+    const data: Prisma.ReportRequestUncheckedUpdateManyInput = { status };
+    const now = new Date();
+
+    // Each milestone keeps the first time it was reached
+    if (status === "RESEARCHING") {
+      data.researchStartedAt = request.researchStartedAt ?? now;
+      data.assigneeId = request.assigneeId ?? actor.id;
+    } else if (status === "QA") {
+      data.qaStartedAt = request.qaStartedAt ?? now;
+    } else if (status === "DELIVERED") {
+      data.deliveredAt = now;
+    } else if (status === "CANCELLED") {
+      data.cancelledAt = now;
+    }
+
+    const { count } = await tx.reportRequest.updateMany({
+      where: { id, status: request.status, assigneeId: request.assigneeId },
+      data,
+    });
+
+    if (count === 0) {
+      throw new Error("Report request was changed by someone else; reload it");
+    }
+
+    if (note?.trim()) {
+      await tx.reportRequestNote.create({
+        data: {
+          reportRequestId: id,
+          authorId: actor.id,
+          body: `${request.status} → ${status}: ${note.trim()}`,
+        },
+      });
+    }
+
+    return tx.reportRequest.findUniqueOrThrow({ where: { id } });
+  });
+}
+
+/**
+ * Assign a report request to a staff member, or unassign it (null)
+ */
+export async function assignReportRequest(
+  id: number,
+  assigneeId: number | null
+) {
+  const request = await prisma.reportRequest.findUnique({ where: { id } });
+
+  if (!request) {
+    throw new Error("Report request not found");
+  }
+
+  if (request.status === "DELIVERED" || request.status === "CANCELLED") {
+    throw new Error(`Report request is ${request.status}`);
+  }
+
+  if (assigneeId !== null) {
+    const assignee = await prisma.user.findUnique({
+      where: { id: assigneeId },
+      select: { role: true },
+    });
+
+    if (!assignee || (assignee.role !== "STAFF" && assignee.role !== "ADMIN")) {
+      throw new Error("Assignee must be a staff member");
+    }
+  }
+
+  return prisma.reportRequest.update({
+    where: { id },
+    data: { assigneeId },
+  });
+}
+
+/**
+ * Add an internal note to a report request
+ */
+export async function addReportRequestNote(
+  id: number,
+  authorId: number,
+  body: string
+) {
+  const request = await prisma.reportRequest.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+
+  if (!request) {
+    throw new Error("Report request not found");
+  }
+
+  return prisma.reportRequestNote.create({
+    data: { reportRequestId: id, authorId, body },
+    include: { author: { select: { id: true, name: true, email: true } } },
+  });
+}
+
+/**
+ * Cancel the undelivered requests of refunded order lines
+ * Runs inside the caller's transaction
+ */
+export async function cancelReportRequestsForOrderItems(
+  tx: Prisma.TransactionClient,
+  orderItemIds: number[]
+): Promise<number> {
+  const { count } = await tx.reportRequest.updateMany({
+    where: {
+      orderItemId: { in: orderItemIds },
+      status: { notIn: ["DELIVERED", "CANCELLED"] },
+    },
+    data: { status: "CANCELLED", cancelledAt: new Date() },
+  });
+
+  return count;
+}
+
+export type SlaState = "AT_RISK" | "BREACHED";
+
+/**
+ * Hours before the due date from which an open request is at risk
+ */
+export function getSlaAtRiskHours(): number {
+  const hours = parseInt(process.env.SLA_AT_RISK_HOURS || "");
+  return hours >= 0 ? hours : DEFAULT_SLA_AT_RISK_HOURS;
+}
+
+/**
+ * SLA state of an open report request at a given time
+ * null while the due date is further away than the at-risk window
+ */
+export function getSlaState(
+  dueAt: Date,
+  at: Date = new Date(),
+  atRiskHours: number = getSlaAtRiskHours()
+): SlaState | null {
+  if (dueAt <= at) {
+    return "BREACHED";
+  }
+
+  return dueAt.getTime() - at.getTime() <= atRiskHours * 60 * 60 * 1000
+    ? "AT_RISK"
+    : null;
+}
@@ -0,0 +1,124 @@
+import PDFDocument from "pdfkit";
+
+const PAGE_MARGIN = 40;
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+
+const DEFAULT_WATERMARK_TEXT = "SAMPLE";
+
+export interface ReportSampleContent {
+  name: string;
+  description: string;
+  tableOfContents: string[];
+  pages: Array<{ body: Buffer }>; // PNG or JPEG images, in order
+}
+
+/**
+ * Text stamped across every page of a sample (SAMPLE_WATERMARK_TEXT)
+ */
+export function getSampleWatermarkText(): string {
+  return process.env.SAMPLE_WATERMARK_TEXT || DEFAULT_WATERMARK_TEXT;
+}
+
+/**
+ * Render a report sample PDF: a cover with the table of contents, then one
+ * page per sample image, each stamped with a diagonal watermark
+ */
+export async function renderReportSamplePdf(
+  sample: ReportSampleContent
+): Promise<Buffer> {
+  // Pages are buffered so the watermark can be drawn over each one last
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+  });
+  const chunks: Buffer[] = [];
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Cover
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(20)
+    .text(sample.name, PAGE_MARGIN, PAGE_MARGIN, { width: CONTENT_WIDTH });
+  doc
+    .moveDown(0.5)
+    .font("Helvetica")
+    .fontSize(11)
+    .fillColor("#444444")
+    .text(sample.description, { width: CONTENT_WIDTH })
+    .fillColor("black");
+
+  if (sample.tableOfContents.length > 0) {
+    doc.moveDown(1.5).font("Helvetica-Bold").fontSize(14);
+    doc.text("Table of Contents", { width: CONTENT_WIDTH });
+    doc.moveDown(0.5).font("Helvetica").fontSize(11);
+    sample.tableOfContents.forEach((section, index) => {
+      doc.text(`${index + 1}. ${section}`, { width: CONTENT_WIDTH });
+      doc.moveDown(0.3);
+    });
+  }
+
+  doc
+    .moveDown(1.5)
+    .fontSize(9)
+    .fillColor("#666666")
+    .text(
+      "This sample has been redacted. The full report is prepared for the company you order it for.",
+      { width: CONTENT_WIDTH }
+    )
+    .fillColor("black");
+
+  // Sample pages, scaled to fit within the margins
+  for (const page of sample.pages) {
+    doc.addPage();
+    doc.image(page.body, PAGE_MARGIN, PAGE_MARGIN, {
+      fit: [CONTENT_WIDTH, PAGE_HEIGHT - PAGE_MARGIN * 2],
+      align: "center",
+      valign: "center",
+    });
+  }
+
+  // Watermark and footer over every page
+  const watermark = getSampleWatermarkText();
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+
+    // Keep the footer below the bottom margin from starting a new page
+    doc.page.margins.bottom = 0;
+
+    doc
+      .save()
+      .rotate(-45, { origin: [PAGE_WIDTH / 2, PAGE_HEIGHT / 2] })
+      .font("Helvetica-Bold")
+      .fontSize(96)
+      .fillColor("#999999")
+      .fillOpacity(0.25)
+      .text(watermark, 0, PAGE_HEIGHT / 2 - 48, {
+        width: PAGE_WIDTH,
+        align: "center",
+        lineBreak: false,
+      })
+      .restore();
+
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor("#666666")
+      .text(
+        `${sample.name} - sample preview, page ${i - range.start + 1} of ${range.count}`,
+        PAGE_MARGIN,
+        PAGE_HEIGHT - PAGE_MARGIN + 12,
+        { width: CONTENT_WIDTH, align: "center", lineBreak: false }
+      );
+  }
+
+  doc.end();
+  return rendered;
+}
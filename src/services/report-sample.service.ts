@@ -0,0 +1,163 @@
+import { prisma } from "../config/db.js";
+import { generateSecureRandom } from "../utils/security.js";
+import { renderReportSamplePdf } from "./report-sample-pdf.service.js";
+import { getStorageProvider } from "./storage-providers/index.js";
+
+// Image types sample pages can be uploaded as, with the stored extension
+export const SAMPLE_PAGE_CONTENT_TYPES: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+};
+
+export interface SamplePageInput {
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * A report's table of contents: its own, or its product's sections
+ */
+export function getTableOfContents(report: {
+  tableOfContents: string[];
+  product?: { sections: string[] } | null;
+}): string[] {
+  return report.tableOfContents.length > 0
+    ? report.tableOfContents
+    : report.product?.sections || [];
+}
+
+/**
+ * Replace the sample pages of a report, in the given order
+ * Pages must already be redacted: they are shown to any visitor.
+ */
+export async function setReportSamplePages(
+  reportId: number,
+  pages: SamplePageInput[]
+) {
+  if (
+    pages.length === 0 ||
+    pages.some((page) => !SAMPLE_PAGE_CONTENT_TYPES[page.contentType])
+  ) {
+    throw new Error("Sample pages must be PNG or JPEG images");
+  }
+
+  const report = await prisma.report.findUnique({
+    where: { id: reportId },
+    include: { samplePages: true },
+  });
+
+  if (!report) {
+    throw new Error("Report not found");
+  }
+
+  const storage = getStorageProvider();
+  const stored: Array<{ position: number; contentType: string; key: string }> =
+    [];
+
+  try {
+    for (let i = 0; i < pages.length; i++) {
+      const page = pages[i];
+      const key = `report-samples/${reportId}/${generateSecureRandom(16)}${SAMPLE_PAGE_CONTENT_TYPES[page.contentType]}`;
+      await storage.put(key, page.body, page.contentType);
+      stored.push({ position: i + 1, contentType: page.contentType, key });
+    }
+
+    await prisma.$transaction([
+      prisma.reportSamplePage.deleteMany({ where: { reportId } }),
+      prisma.reportSamplePage.createMany({
+        data: stored.map((page) => ({
+          reportId,
+          position: page.position,
+          contentType: page.contentType,
+          storageProvider: storage.name,
+          storageKey: page.key,
+        })),
+      }),
+    ]);
+  } catch (error) {
+    // Don't leave orphaned files behind
+    for (const page of stored) {
+      await storage.delete(page.key).catch(() => {});
+    }
+    throw error;
+  }
+
+  await deleteStoredPages(report.samplePages);
+
+  return prisma.reportSamplePage.findMany({
+    where: { reportId },
+    orderBy: { position: "asc" },
+  });
+}
+
+/**
+ * Remove the sample pages of a report
+ * @returns The number of pages removed
+ */
+export async function deleteReportSamplePages(reportId: number) {
+  const pages = await prisma.reportSamplePage.findMany({
+    where: { reportId },
+  });
+
+  await prisma.reportSamplePage.deleteMany({ where: { reportId } });
+  await deleteStoredPages(pages);
+
+  return pages.length;
+}
+
+async function deleteStoredPages(
+  pages: Array<{ storageProvider: string; storageKey: string }>
+) {
+  for (const page of pages) {
+    await getStorageProvider(page.storageProvider)
+      .delete(page.storageKey)
+      .catch((error) =>
+        console.error(`Failed to delete sample page ${page.storageKey}:`, error)
+      );
+  }
+}
+
+/**
+ * Build the public, watermarked sample of an active report: its table of
+ * contents followed by its sample pages
+ * @throws Error if the report doesn't exist or has nothing to preview
+ */
+export async function getReportSamplePdf(reportId: number) {
+  const report = await prisma.report.findFirst({
+    where: { id: reportId, isActive: true },
+    include: {
+      product: { select: { sections: true } },
+      samplePages: { orderBy: { position: "asc" } },
+    },
+  });
+
+  if (!report) {
+    throw new Error("Report not found");
+  }
+
+  const tableOfContents = getTableOfContents(report);
+
+  if (tableOfContents.length === 0 && report.samplePages.length === 0) {
+    throw new Error("Report has no sample");
+  }
+
+  const pages: SamplePageInput[] = [];
+  for (const page of report.samplePages) {
+    pages.push({
+      contentType: page.contentType,
+      body: await getStorageProvider(page.storageProvider).get(
+        page.storageKey
+      ),
+    });
+  }
+
+  return {
+    report,
+    body: await renderReportSamplePdf({
+      name: report.name,
+      description: report.description,
+      tableOfContents,
+      pages,
+    }),
+  };
+}
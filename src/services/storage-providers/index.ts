@@ -0,0 +1,38 @@
+import { createLocalStorageProvider } from "./local.provider.js";
+import { createS3StorageProvider, getS3ConfigFromEnv } from "./s3.provider.js";
+import type { StorageProvider } from "./types.js";
+
+export type * from "./types.js";
+
+const providers = new Map<string, StorageProvider>();
+
+/**
+ * Register a storage provider so it can be selected by name
+ */
+export function registerStorageProvider(provider: StorageProvider) {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get a storage provider by name
+ * Defaults to STORAGE_PROVIDER from env, falling back to local storage.
+ * Stored files remember their provider, so switching STORAGE_PROVIDER only
+ * affects new uploads.
+ */
+export function getStorageProvider(name?: string): StorageProvider {
+  const providerName = name || process.env.STORAGE_PROVIDER || "local";
+  const provider = providers.get(providerName);
+
+  if (!provider) {
+    throw new Error(`Storage provider not configured: ${providerName}`);
+  }
+
+  return provider;
+}
+
+registerStorageProvider(createLocalStorageProvider());
+
+const s3Config = getS3ConfigFromEnv();
+if (s3Config) {
+  registerStorageProvider(createS3StorageProvider(s3Config));
+}
@@ -0,0 +1,48 @@
+import fs from "fs/promises";
+import path from "path";
+import type { StorageProvider } from "./types.js";
+
+/**
+ * Stores files on the local filesystem under a root directory
+ * For development and single-server deployments
+ */
+export function createLocalStorageProvider(
+  rootDir: string = process.env.STORAGE_LOCAL_DIR || "storage"
+): StorageProvider {
+  const root = path.resolve(rootDir);
+
+  function resolveKey(key: string): string {
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  return {
+    name: "local",
+
+    async put(key: string, body: Buffer) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+
+    async get(key: string) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error: any) {
+        if (error.code === "ENOENT") {
+          throw new Error("Stored file not found");
+        }
+        throw error;
+      }
+    },
+
+    async delete(key: string) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import { createS3StorageProvider } from "./s3.provider.js";
+
+const sha256Hex = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// Signature V4 as S3 checks it, written from the AWS documentation rather
+// than the provider so the two can't share a mistake
+function deriveSigningKey(
+  secret: string,
+  date: string,
+  region: string,
+  service: string
+): Buffer {
+  return hmac(
+    hmac(hmac(hmac(`AWS4${secret}`, date), region), service),
+    "aws4_request"
+  );
+}
+
+function signRequest(input: {
+  secret: string;
+  region: string;
+  method: string;
+  path: string;
+  query: string;
+  headers: Record<string, string>; // Signed headers, lower-cased names
+  payloadHash: string;
+}): string {
+  const names = Object.keys(input.headers).sort();
+  const canonicalRequest = [
+    input.method,
+    input.path,
+    input.query,
+    ...names.map((name) => `${name}:${input.headers[name].trim()}`),
+    "",
+    names.join(";"),
+    input.payloadHash,
+  ].join("\n");
+
+  const amzDate = input.headers["x-amz-date"];
+  const date = amzDate.slice(0, 8);
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    `${date}/${input.region}/s3/aws4_request`,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  return hmac(
+    deriveSigningKey(input.secret, date, input.region, "s3"),
+    stringToSign
+  ).toString("hex");
+}
+
+const ACCESS_KEY_ID = "AKIDEXAMPLE";
+const SECRET = "stand-in-secret";
+const REGION = "me-central-1";
+const BUCKET = "deliverables";
+
+const AUTHORIZATION = new RegExp(
+  "^AWS4-HMAC-SHA256 Credential=([^/]+)/(\\d{8})/([^/]+)/s3/aws4_request, " +
+    "SignedHeaders=([a-z0-9;-]+), Signature=([0-9a-f]{64})$"
+);
+
+// A local stand-in for S3: checks each request's signature and keeps the
+// objects in memory
+function createS3StandIn() {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks);
+      const auth = AUTHORIZATION.exec(req.headers.authorization || "");
+
+      const payloadHash = String(req.headers["x-amz-content-sha256"]);
+      const signedHeaders = auth ? auth[4].split(";") : [];
+      const valid =
+        !!auth &&
+        auth[1] === ACCESS_KEY_ID &&
+        auth[3] === REGION &&
+        signedHeaders.includes("host") &&
+        signedHeaders.includes("x-amz-date") &&
+        payloadHash === sha256Hex(body) &&
+        auth[5] ===
+          signRequest({
+            secret: SECRET,
+            region: REGION,
+            method: req.method!,
+            path: req.url!,
+            query: "",
+            headers: Object.fromEntries(
+              signedHeaders.map((name) => [name, String(req.headers[name])])
+            ),
+            payloadHash,
+          });
+
+      if (!valid) {
+        res.writeHead(403).end("SignatureDoesNotMatch");
+        return;
+      }
+
+      const object = objects.get(req.url!);
+
+      if (req.method === "PUT") {
+        objects.set(req.url!, {
+          body,
+          contentType: req.headers["content-type"],
+        });
+        res.writeHead(200).end();
+      } else if (req.method === "GET" && object) {
+        res.writeHead(200).end(object.body);
+      } else if (req.method === "DELETE") {
+        objects.delete(req.url!);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(404).end("NoSuchKey");
+      }
+    });
+  });
+
+  return { server, objects };
+}
+
+describe("Signature V4 reference", () => {
+  // Derived signing key example from the AWS Signature V4 documentation
+  it("derives the documented signing key", () => {
+    assert.equal(
+      deriveSigningKey(
+        "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+        "20120215",
+        "us-east-1",
+        "iam"
+      ).toString("hex"),
+      "f4780e2d9f65fa895f9c67b32ce1baf0b0d8a43505a000a1a9e090d414db404d"
+    );
+  });
+
+  // "GET Object" example from the S3 Signature V4 documentation
+  it("signs the documented GET Object request", () => {
+    assert.equal(
+      signRequest({
+        secret: "wJalrXUtnFEMI/K7MDENG/bPxRfiCYEXAMPLEKEY",
+        region: "us-east-1",
+        method: "GET",
+        path: "/test.txt",
+        query: "",
+        headers: {
+          host: "examplebucket.s3.amazonaws.com",
+          range: "bytes=0-9",
+          "x-amz-content-sha256": sha256Hex(""),
+          "x-amz-date": "20130524T000000Z",
+        },
+        payloadHash: sha256Hex(""),
+      }),
+      "f0e8bdb87c964420e857bd35b5d6ed310bd44f0170aba48dd91039c6036bdb41"
+    );
+  });
+});
+
+describe("S3 storage provider", () => {
+  const { server, objects } = createS3StandIn();
+  let endpoint = "";
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const provider = (secretAccessKey = SECRET) =>
+    createS3StorageProvider({
+      bucket: BUCKET,
+      region: REGION,
+      accessKeyId: ACCESS_KEY_ID,
+      secretAccessKey,
+      endpoint,
+      forcePathStyle: true,
+    });
+
+  it("uploads, downloads and deletes with signed requests", async () => {
+    const s3 = provider();
+    const key = "deliverables/12/report (final).pdf";
+    const body = Buffer.from("%PDF-1.7 report");
+
+    await s3.put(key, body, "application/pdf");
+
+    const stored = objects.get(
+      `/${BUCKET}/deliverables/12/report%20%28final%29.pdf`
+    );
+    assert.deepEqual(stored, { body, contentType: "application/pdf" });
+
+    assert.deepEqual(await s3.get(key), body);
+
+    await s3.delete(key);
+    assert.equal(objects.size, 0);
+  });
+
+  it("reports a missing object as not found", async () => {
+    await assert.rejects(provider().get("deliverables/404.pdf"), {
+      message: "Stored file not found",
+    });
+  });
+
+  it("surfaces rejected signatures", async () => {
+    await assert.rejects(
+      provider("wrong").put("a.pdf", Buffer.from("x"), "application/pdf"),
+      { message: "S3 upload failed with status 403: SignatureDoesNotMatch" }
+    );
+  });
+
+  it("rejects keys that escape their folder", async () => {
+    await assert.rejects(provider().get("deliverables/../secrets.pdf"), {
+      message: "Invalid storage key: deliverables/../secrets.pdf",
+    });
+  });
+});
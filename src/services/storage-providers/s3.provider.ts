@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import type { StorageProvider } from "./types.js";
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Custom endpoint for S3-compatible services (MinIO, LocalStack, R2...),
+  // e.g. "http://localhost:9000"; AWS S3 when omitted
+  endpoint?: string;
+  // Address the bucket in the path (endpoint/bucket/key) instead of the host
+  // (bucket.endpoint/key); most S3-compatible services need this
+  forcePathStyle?: boolean;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding of each path segment, as Signature V4 expects
+function encodeKey(key: string): string {
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join("/");
+}
+
+/**
+ * S3 settings from env, or null when no bucket and credentials are set
+ */
+export function getS3ConfigFromEnv(): S3StorageConfig | null {
+  const {
+    S3_BUCKET,
+    S3_REGION,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
+    S3_ENDPOINT,
+    S3_FORCE_PATH_STYLE,
+  } = process.env;
+
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    return null;
+  }
+
+  return {
+    bucket: S3_BUCKET,
+    region: S3_REGION || "us-east-1",
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    endpoint: S3_ENDPOINT || undefined,
+    forcePathStyle: S3_FORCE_PATH_STYLE === "true",
+  };
+}
+
+/**
+ * Stores files in an S3 bucket, or any service speaking the S3 API
+ * Requests are signed with AWS Signature Version 4.
+ */
+export function createS3StorageProvider(
+  config: S3StorageConfig
+): StorageProvider {
+  const endpoint = new URL(
+    config.endpoint || `https://s3.${config.region}.amazonaws.com`
+  );
+
+  function objectUrl(key: string): URL {
+    const basePath = endpoint.pathname.replace(/\/$/, "");
+
+    if (config.forcePathStyle) {
+      return new URL(
+        `${endpoint.protocol}//${endpoint.host}${basePath}/${config.bucket}/${encodeKey(key)}`
+      );
+    }
+
+    return new URL(
+      `${endpoint.protocol}//${config.bucket}.${endpoint.host}${basePath}/${encodeKey(key)}`
+    );
+  }
+
+  async function send(
+    method: "GET" | "PUT" | "DELETE",
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<Response> {
+    const segments = key.split("/");
+    if (segments.some((s) => s === "" || s === "." || s === "..")) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    const url = objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) {
+      headers["content-type"] = contentType;
+    }
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "", // No query string
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      "",
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${config.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = hmac(
+      hmac(
+        hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region),
+        "s3"
+      ),
+      "aws4_request"
+    );
+    const signature = hmac(signingKey, stringToSign).toString("hex");
+
+    const { host, ...requestHeaders } = headers;
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async function failure(response: Response, action: string): Promise<Error> {
+    const detail = await response.text().catch(() => "");
+    return new Error(
+      `S3 ${action} failed with status ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`
+    );
+  }
+
+  return {
+    name: "s3",
+
+    async put(key: string, body: Buffer, contentType: string) {
+      const response = await send("PUT", key, body, contentType);
+
+      if (!response.ok) {
+        throw await failure(response, "upload");
+      }
+    },
+
+    async get(key: string) {
+      const response = await send("GET", key);
+
+      if (response.status === 404) {
+        throw new Error("Stored file not found");
+      }
+
+      if (!response.ok) {
+        throw await failure(response, "download");
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key: string) {
+      const response = await send("DELETE", key);
+
+      // S3 answers 204 whether or not the object existed
+      if (!response.ok && response.status !== 404) {
+        throw await failure(response, "delete");
+      }
+    },
+  };
+}
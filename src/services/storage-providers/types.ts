@@ -0,0 +1,20 @@
+/**
+ * Contract every file storage backend implements
+ * Keys are relative paths such as "deliverables/12/3f9c….pdf"; a provider
+ * never lets a key escape its bucket or directory.
+ */
+export interface StorageProvider {
+  readonly name: string;
+
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * @throws Error "Stored file not found" if nothing is stored under the key
+   */
+  get(key: string): Promise<Buffer>;
+
+  /**
+   * Remove a file; removing a missing file is not an error
+   */
+  delete(key: string): Promise<void>;
+}
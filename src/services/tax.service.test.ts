@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyTaxRule, type ApplicableTaxRule } from "./tax.service.js";
+
+const vat = (rate: number, isInclusive: boolean): ApplicableTaxRule => ({
+  id: 1,
+  countryCode: "SA",
+  name: "VAT",
+  rate,
+  isInclusive,
+});
+
+describe("applyTaxRule", () => {
+  it("adds exclusive tax on top of the line amount", () => {
+    assert.deepEqual(applyTaxRule(10000, vat(0.15, false)), {
+      name: "VAT",
+      rate: 0.15,
+      isInclusive: false,
+      amount: 1500,
+    });
+  });
+
+  it("extracts inclusive tax from the line amount", () => {
+    assert.equal(applyTaxRule(11500, vat(0.15, true)).amount, 1500);
+  });
+
+  it("rounds tax to whole minor units per line", () => {
+    assert.equal(applyTaxRule(999, vat(0.05, false)).amount, 50);
+    assert.equal(applyTaxRule(1000, vat(0.05, true)).amount, 48);
+  });
+
+  it("charges no tax for countries without a rule", () => {
+    assert.deepEqual(applyTaxRule(10000, null), {
+      name: null,
+      rate: 0,
+      isInclusive: false,
+      amount: 0,
+    });
+  });
+
+  it("charges no tax at a zero rate", () => {
+    assert.equal(applyTaxRule(10000, vat(0, false)).amount, 0);
+  });
+});
@@ -0,0 +1,131 @@
+import { prisma } from "../config/db.js";
+
+export interface ApplicableTaxRule {
+  id: number;
+  countryCode: string;
+  name: string;
+  rate: number;
+  isInclusive: boolean;
+}
+
+export interface TaxLineInput {
+  countryCode: string;
+  amount: number; // Line amount as priced (unit price * quantity, minor units)
+}
+
+export interface TaxLineBreakdown {
+  name: string | null;
+  rate: number;
+  isInclusive: boolean;
+  amount: number; // Tax contained in (inclusive) or added to (exclusive) the line
+}
+
+export interface TaxCalculation {
+  lines: TaxLineBreakdown[];
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+const NO_TAX: TaxLineBreakdown = {
+  name: null,
+  rate: 0,
+  isInclusive: false,
+  amount: 0,
+};
+
+/**
+ * Get the tax rule in effect for each country at a given date
+ * Countries without a rule are mapped to null (no tax)
+ */
+export async function getTaxRules(
+  countryCodes: string[],
+  at: Date = new Date()
+): Promise<Map<string, ApplicableTaxRule | null>> {
+  const codes = Array.from(new Set(countryCodes));
+
+  const rules = await prisma.taxRule.findMany({
+    where: {
+      countryCode: { in: codes },
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+    },
+    // Latest rule wins if periods overlap
+    orderBy: { effectiveFrom: "desc" },
+  });
+
+  const result = new Map<string, ApplicableTaxRule | null>();
+  for (const code of codes) {
+    const rule = rules.find((r) => r.countryCode === code);
+    result.set(
+      code,
+      rule
+        ? {
+            id: rule.id,
+            countryCode: rule.countryCode,
+            name: rule.name,
+            rate: rule.rate,
+            isInclusive: rule.isInclusive,
+          }
+        : null
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Apply a tax rule to a single line amount
+ */
+export function applyTaxRule(
+  amount: number,
+  rule: ApplicableTaxRule | null
+): TaxLineBreakdown {
+  if (!rule) {
+    return NO_TAX;
+  }
+
+  // Amounts are minor-unit integers, so tax is rounded per line
+  const tax = Math.round(
+    rule.isInclusive ? amount - amount / (1 + rule.rate) : amount * rule.rate
+  );
+
+  return {
+    name: rule.name,
+    rate: rule.rate,
+    isInclusive: rule.isInclusive,
+    amount: tax,
+  };
+}
+
+/**
+ * Calculate tax for a set of lines, each taxed by its country's rule
+ * subtotal is the sum of line amounts; total adds only exclusive taxes,
+ * since inclusive taxes are already part of the line amount
+ */
+export async function calculateTax(
+  lines: TaxLineInput[],
+  at: Date = new Date()
+): Promise<TaxCalculation> {
+  const rules = await getTaxRules(
+    lines.map((line) => line.countryCode),
+    at
+  );
+
+  const breakdown = lines.map((line) =>
+    applyTaxRule(line.amount, rules.get(line.countryCode) || null)
+  );
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const tax = breakdown.reduce((sum, line) => sum + line.amount, 0);
+  const exclusiveTax = breakdown
+    .filter((line) => !line.isInclusive)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  return {
+    lines: breakdown,
+    subtotal,
+    tax,
+    total: subtotal + exclusiveTax,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Arabic text normalisation for search
+ * Company names are written with many spelling variants: hamza on or under
+ * the alef, taa marbuta or haa, alef maqsura or yaa, with or without
+ * diacritics and the "ال" article. Names and queries are folded to one form
+ * so the variants match each other.
+ */
+
+// Harakat, tanween, shadda, sukun, superscript alef and Quranic marks
+const ARABIC_DIACRITICS = /[\u0610-\u061a\u064b-\u065f\u0670\u06d6-\u06ed]/g;
+const TATWEEL = /\u0640/g;
+
+const ARABIC_LETTER_VARIANTS: Record<string, string> = {
+  "أ": "ا",
+  "إ": "ا",
+  "آ": "ا",
+  "ٱ": "ا",
+  "ة": "ه",
+  "ى": "ي",
+  "ؤ": "و",
+  "ئ": "ي",
+  "ء": "",
+  "ک": "ك", // Persian kaf
+  "ی": "ي", // Persian yeh
+};
+
+// Anything but Latin letters, digits and Arabic letters (once folded)
+const NON_WORD = /[^0-9a-z\u0621-\u064a\u066e-\u06d3]+/;
+
+const ARABIC_ARTICLE = /^(?:ال|وال|بال|فال|كال|لل)(?=[\u0621-\u064a]{3})/;
+
+// Legal forms and generic words that say nothing about which company it is
+const COMPANY_STOPWORDS = new Set([
+  // Arabic, normalised ("شركة" -> "شركه")
+  "شركه",
+  "موسسه",
+  "مجموعه",
+  "ذ",
+  "م",
+  "ع",
+  "ش",
+  "ق",
+  "ح",
+  "مح",
+  // Latin
+  "the",
+  "co",
+  "company",
+  "corp",
+  "corporation",
+  "est",
+  "establishment",
+  "inc",
+  "llc",
+  "ltd",
+  "limited",
+  "plc",
+  "pjsc",
+  "psc",
+  "psjc",
+  "qsc",
+  "qpsc",
+  "saog",
+  "saoc",
+  "sae",
+  "spc",
+  "wll",
+  "fze",
+  "fzc",
+  "fzco",
+  "fz",
+]);
+
+/**
+ * Fold Arabic spelling variants: strip diacritics and tatweel, unify alef,
+ * taa marbuta, alef maqsura and hamza forms, and use Western digits
+ * Latin text is left as is.
+ */
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(ARABIC_DIACRITICS, "")
+    .replace(TATWEEL, "")
+    .replace(/[أإآٱةىؤئءکی]/g, (c) => ARABIC_LETTER_VARIANTS[c])
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06f0-\u06f9]/g, (d) => String(d.charCodeAt(0) - 0x06f0));
+}
+
+/**
+ * Remove the "ال" article (alone or after و, ب, ف, ك, or as "لل") from an
+ * Arabic word, when at least three letters remain
+ */
+export function stripArabicArticle(word: string): string {
+  return word.replace(ARABIC_ARTICLE, "");
+}
+
+/**
+ * Normalise text for search: lower case, no accents or punctuation, Arabic
+ * variants folded and articles removed, words separated by single spaces
+ */
+export function normalizeSearchText(text: string): string {
+  return normalizeArabic(
+    text
+      .normalize("NFKD") // Also maps Arabic presentation forms to letters
+      .replace(/[\u0300-\u036f]/g, "") // Latin accents
+      .toLowerCase()
+  )
+    .split(NON_WORD)
+    .filter(Boolean)
+    .map(stripArabicArticle)
+    .join(" ");
+}
+
+/**
+ * Normalise a company name for search: normalizeSearchText without legal
+ * forms and generic words ("شركة", "LLC", "ذ.م.م"), unless nothing else is
+ * left
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = normalizeSearchText(name).split(" ").filter(Boolean);
+  const significant = words.filter((word) => !COMPANY_STOPWORDS.has(word));
+
+  return (significant.length > 0 ? significant : words).join(" ");
+}
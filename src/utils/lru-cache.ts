@@ -0,0 +1,56 @@
+/**
+ * In-process least-recently-used cache with expiring entries
+ * Per server instance: each instance keeps its own copy (use Redis to share
+ * one across instances)
+ */
+export interface LruCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  clear(): void;
+  readonly size: number;
+}
+
+export function createLruCache<V>(options: {
+  maxEntries: number;
+  ttlMs: number;
+}): LruCache<V> {
+  // A Map iterates in insertion order: re-inserting on access keeps the
+  // least recently used entry first
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+
+      if (!entry) {
+        return undefined;
+      }
+
+      entries.delete(key);
+
+      if (entry.expiresAt < Date.now()) {
+        return undefined;
+      }
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + options.ttlMs });
+
+      if (entries.size > options.maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
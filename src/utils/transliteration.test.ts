@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  phoneticKey,
+  phoneticWord,
+  transliterateArabic,
+} from "./transliteration.js";
+
+describe("transliterateArabic", () => {
+  it("romanises Arabic letters", () => {
+    assert.equal(transliterateArabic("محمد"), "mhmd");
+    assert.equal(transliterateArabic("شيخ"), "shykh");
+  });
+
+  it("returns Latin text normalised", () => {
+    assert.equal(transliterateArabic("El-Futtaim"), "el futtaim");
+  });
+});
+
+describe("phoneticWord", () => {
+  it("gives the same key to spellings of a word in both scripts", () => {
+    assert.equal(phoneticWord("Futtaim"), "ftm");
+    assert.equal(phoneticWord("Fotaim"), "ftm");
+    assert.equal(phoneticWord("فطيم"), "ftm");
+  });
+
+  it("groups letters that are romanised interchangeably", () => {
+    assert.equal(phoneticWord("Qatar"), phoneticWord("قطر"));
+    assert.equal(phoneticWord("Khalid"), phoneticWord("خالد"));
+    assert.equal(phoneticWord("Sheikh"), phoneticWord("شيخ"));
+  });
+
+  it("drops an article written as part of the word", () => {
+    assert.equal(phoneticWord("Alfuttaim"), "ftm");
+    assert.equal(phoneticWord("الفطيم"), "ftm");
+  });
+});
+
+describe("phoneticKey", () => {
+  it("matches common romanisations of the same name", () => {
+    for (const name of ["Al Futtaim", "Alfuttaim", "El-Futtaim", "الفطيم"]) {
+      assert.equal(phoneticKey(name), "ftm", name);
+    }
+
+    for (const name of ["Mohammed", "Muhammad", "محمد"]) {
+      assert.equal(phoneticKey(name), "mhmd", name);
+    }
+  });
+
+  it("matches English names with their Arabic spelling", () => {
+    assert.equal(phoneticKey("Etisalat"), phoneticKey("اتصالات"));
+    assert.equal(phoneticKey("Emaar"), phoneticKey("إعمار"));
+    assert.equal(phoneticKey("Jameel"), phoneticKey("جميل"));
+  });
+
+  it("keeps a key per word", () => {
+    assert.equal(phoneticKey("Saudi Aramco"), "sd rmk");
+    assert.equal(phoneticKey("أرامكو السعودية"), "rmk sd");
+  });
+
+  it("is empty for text without letters", () => {
+    assert.equal(phoneticKey(""), "");
+    assert.equal(phoneticKey(" - "), "");
+  });
+});
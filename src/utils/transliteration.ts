@@ -0,0 +1,102 @@
+/**
+ * Arabic <-> Latin matching for company names
+ * The same name is romanised many ways ("Al Futtaim", "Alfuttaim",
+ * "El-Futtaim"), and Arabic-only records often carry a poor English
+ * translation. Both scripts are reduced to a phonetic key, a consonant
+ * skeleton, that stays the same across those spellings.
+ */
+import { normalizeSearchText } from "./arabic.js";
+
+// Arabic letters (as folded by normalizeArabic) in a simple romanisation
+const ARABIC_TO_LATIN: Record<string, string> = {
+  "ا": "a",
+  "ب": "b",
+  "ت": "t",
+  "ث": "th",
+  "ج": "j",
+  "ح": "h",
+  "خ": "kh",
+  "د": "d",
+  "ذ": "dh",
+  "ر": "r",
+  "ز": "z",
+  "س": "s",
+  "ش": "sh",
+  "ص": "s",
+  "ض": "d",
+  "ط": "t",
+  "ظ": "z",
+  "ع": "",
+  "غ": "gh",
+  "ف": "f",
+  "ق": "q",
+  "ك": "k",
+  "ل": "l",
+  "م": "m",
+  "ن": "n",
+  "ه": "h",
+  "و": "w",
+  "ي": "y",
+  "پ": "p",
+  "چ": "ch",
+  "گ": "g",
+};
+
+// Letters romanised interchangeably, applied in order: digraphs first, then
+// single letters; vowels, w, y and the ayn apostrophe are dropped. Keys are
+// lower case, as trigram matching ignores case.
+const PHONETIC_GROUPS: Array<[RegExp, string]> = [
+  [/x/g, "ks"],
+  [/sh|ch/g, "x"], // ش
+  [/gh/g, "G"], // غ, kept apart from g/j until the end
+  [/ck|kh|q|c/g, "k"], // ك ق خ
+  [/dh|z/g, "z"], // ذ ز ظ
+  [/th/g, "t"], // ث ت ط
+  [/ph|v/g, "f"],
+  [/p/g, "b"],
+  [/g/g, "j"], // ج, "g" in Egypt
+  [/G/g, "g"],
+  [/[aeiouwy']/g, ""],
+];
+
+// Latin spellings of the "ال" article written as part of a word
+const LATIN_ARTICLE = /^(?:al|el)(?=[^aeiou][a-z]{2})/;
+
+/**
+ * Romanise Arabic text; Latin text is returned normalised
+ */
+export function transliterateArabic(text: string): string {
+  return normalizeSearchText(text)
+    .split("")
+    .map((c) => ARABIC_TO_LATIN[c] ?? c)
+    .join("");
+}
+
+/**
+ * Phonetic key of a word in either script
+ * e.g. "Futtaim", "Fotaim" and "فطيم" are all "ftm"
+ */
+export function phoneticWord(word: string): string {
+  let key = transliterateArabic(word).replace(LATIN_ARTICLE, "");
+
+  for (const [pattern, replacement] of PHONETIC_GROUPS) {
+    key = key.replace(pattern, replacement);
+  }
+
+  return key
+    .replace(/h$/, "") // Final "ah"/"eh" of taa marbuta
+    .replace(/(.)\1+/g, "$1");
+}
+
+/**
+ * Phonetic key of a name in either script: the keys of its words, without
+ * the "al"/"el" article when written as a separate word
+ */
+export function phoneticKey(text: string): string {
+  return transliterateArabic(text)
+    .split(" ")
+    .filter((word) => word && word !== "al" && word !== "el")
+    .map(phoneticWord)
+    .filter(Boolean)
+    .join(" ");
+}